@@ -0,0 +1,47 @@
+// Verifies an exported audit log's hash chain (see src/lib/audit.ts) outside the app.
+//   npm run verify-audit -- <backup.zip | mia-audit-*.json>
+// Exits 0 when the chain is intact, 1 when it is broken, 2 when the file cannot be read.
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { strFromU8, unzipSync } from "fflate";
+
+const GENESIS_HASH = "0".repeat(64);
+
+const path = process.argv[2];
+if (!path) {
+  console.error("Usage: npm run verify-audit -- <backup.zip | audit.json>");
+  process.exit(2);
+}
+
+let records;
+try {
+  const bytes = await readFile(path);
+  const json = path.endsWith(".zip") ? strFromU8(unzipSync(new Uint8Array(bytes), { filter: (f) => f.name === "audit.json" })["audit.json"]) : bytes.toString("utf8");
+  records = JSON.parse(json);
+  if (!Array.isArray(records)) throw new Error("Expected a list of audit records.");
+} catch (err) {
+  console.error(`Could not read an audit log from ${path}: ${err?.message || err}`);
+  process.exit(2);
+}
+
+// Same string the app hashes: fixed key order
+const hashOf = (r) => createHash("sha256").update(JSON.stringify({ seq: r.seq, at: r.at, prevHash: r.prevHash, event: r.event })).digest("hex");
+
+let prevHash = GENESIS_HASH;
+for (let i = 0; i < records.length; i++) {
+  const r = records[i];
+  const problem =
+    r.seq !== i + 1 ? "record is missing from the log"
+    : !r.event ? "record could not be decrypted when exported"
+    : r.prevHash !== prevHash ? "does not link to the record before it"
+    : hashOf(r) !== r.hash ? "content was changed after it was logged"
+    : null;
+  if (problem) {
+    console.log(`BROKEN at record #${i + 1}: ${problem}.`);
+    process.exit(1);
+  }
+  prevHash = r.hash;
+}
+console.log(`OK: ${records.length} record(s), chain intact. Last hash ${prevHash}`);
+console.log("Compare the last hash with the app's Audit Log screen to confirm no records were removed from the end.");
@@ -0,0 +1,119 @@
+// Reference sync server for the app's sync engine (see src/lib/sync.ts for the protocol).
+// No dependencies: `npm run sync-server`, then enter http://<this machine>:8787 on the Sync screen.
+//
+// Environment:
+//   PORT        default 8787
+//   SYNC_DATA   directory for records.json and photos/, default ./sync-data
+//   SYNC_TOKEN  when set, requests must send "Authorization: Bearer <token>"
+//
+// Records are kept in memory and written to records.json after every push; photos are files.
+// It is meant for a small team on a trusted network and for testing, not as a hardened service.
+
+import { createServer } from "node:http";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA = process.env.SYNC_DATA || "sync-data";
+const TOKEN = process.env.SYNC_TOKEN || "";
+const RECORDS_FILE = join(DATA, "records.json");
+const PHOTOS = join(DATA, "photos");
+
+await mkdir(PHOTOS, { recursive: true });
+
+/** @type {{ seq: number, records: Record<string, { seq: number, record: any }> }} */
+let db = { seq: 0, records: {} };
+try {
+  db = JSON.parse(await readFile(RECORDS_FILE, "utf8"));
+} catch {
+  // First run
+}
+
+async function persist() {
+  const tmp = `${RECORDS_FILE}.tmp`;
+  await writeFile(tmp, JSON.stringify(db));
+  await rename(tmp, RECORDS_FILE);
+}
+
+function send(res, status, body, type = "application/json") {
+  res.writeHead(status, {
+    "Content-Type": type,
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
+  });
+  res.end(body === undefined ? undefined : type === "application/json" ? JSON.stringify(body) : body);
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+/** Changes after `since`, oldest first. */
+function changes(since) {
+  const from = Number(since) || 0;
+  const records = Object.values(db.records)
+    .filter((r) => r.seq > from)
+    .sort((a, b) => a.seq - b.seq)
+    .map((r) => r.record);
+  return { cursor: String(db.seq), records };
+}
+
+/** Stores each record unless the server copy moved on from the version the client edited (`base`). */
+async function push(records) {
+  const rejected = [];
+  for (const { base, ...record } of records) {
+    const current = db.records[record.id];
+    if (current && current.record.updatedAt !== base) {
+      rejected.push(record.id);
+      continue;
+    }
+    db.records[record.id] = { seq: ++db.seq, record };
+  }
+  await persist();
+  return { rejected };
+}
+
+function photoFile(key) {
+  return join(PHOTOS, encodeURIComponent(key));
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === "OPTIONS") return send(res, 204);
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: "Unauthorized" });
+
+    const url = new URL(req.url, "http://localhost");
+    if (url.pathname === "/changes" && req.method === "GET") return send(res, 200, changes(url.searchParams.get("since")));
+    if (url.pathname === "/changes" && req.method === "POST") {
+      const { records } = JSON.parse((await readBody(req)).toString("utf8"));
+      if (!Array.isArray(records)) return send(res, 400, { error: "Expected { records: [] }" });
+      return send(res, 200, await push(records));
+    }
+
+    const photo = /^\/photos\/(.+)$/.exec(url.pathname);
+    if (photo) {
+      const file = photoFile(decodeURIComponent(photo[1]));
+      if (req.method === "PUT") {
+        await writeFile(file, await readBody(req));
+        await writeFile(`${file}.type`, req.headers["content-type"] || "application/octet-stream");
+        return send(res, 204);
+      }
+      if (req.method === "GET") {
+        try {
+          const [data, type] = await Promise.all([readFile(file), readFile(`${file}.type`, "utf8")]);
+          return send(res, 200, data, type);
+        } catch {
+          return send(res, 404, { error: "No such photo" });
+        }
+      }
+    }
+    send(res, 404, { error: "Not found" });
+  } catch (err) {
+    send(res, 500, { error: String(err?.message || err) });
+  }
+});
+
+server.listen(PORT, () => console.log(`Sync server on http://localhost:${PORT} (data in ${DATA})`));
@@ -6,116 +6,280 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
+import { NativeSelect } from "@/components/ui/native-select";
 import { toast } from "sonner";
-import { Calendar, ClipboardList, Clock, FileText, Folder, Home, KeyRound, Lock, LogOut, Pencil, Save, Images, Trash2 } from "lucide-react";
+import { AnnotationEditor } from "@/components/AnnotationEditor";
+import { AsyncImage } from "@/components/AsyncImage";
+import { AttachmentList, PendingAttachments, type PendingAttachment } from "@/components/AttachmentList";
+import { AuditLogView } from "@/components/AuditLogView";
+import { BackupView } from "@/components/BackupView";
+import { ChecklistForm } from "@/components/ChecklistForm";
+import { CalendarView } from "@/components/CalendarView";
+import { ChecklistSummary } from "@/components/ChecklistSummary";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { DeficiencyDialog, type DeficiencyFields } from "@/components/DeficiencyDialog";
+import { EntryFilterForm, FilterChips } from "@/components/EntryFilters";
+import { PendingPhoto } from "@/components/PendingPhoto";
+import { PhotoSettingsView } from "@/components/PhotoSettingsView";
+import { PhotoViewer, type ViewerPhoto, type ViewerScope } from "@/components/PhotoViewer";
+import { ProfilesView, type ProfileDraft } from "@/components/ProfilesView";
+import { ProjectDialog } from "@/components/ProjectDialog";
+import { ProjectFieldsView } from "@/components/ProjectFieldsView";
+import { ProjectsView } from "@/components/ProjectsView";
+import { PunchListView } from "@/components/PunchListView";
+import { TemplatesView } from "@/components/TemplatesView";
+import { ReportView } from "@/components/ReportView";
+import { SearchView } from "@/components/SearchView";
+import { ResolveDeficiencyDialog } from "@/components/ResolveDeficiencyDialog";
+import { SecurityView } from "@/components/SecurityView";
+import { SignOffDialog, type SignOffFields } from "@/components/SignOffDialog";
+import { SignOffList } from "@/components/SignOffList";
+import { StorageView } from "@/components/StorageView";
+import { SyncView } from "@/components/SyncView";
+import { VoiceRecorder } from "@/components/VoiceRecorder";
+import { DEFAULT_AUTO_LOCK, useAutoLock, type AutoLockSettings } from "@/hooks/useAutoLock";
+import { appendAudit, diffAudit, type AuditEvent, type AuditSnapshot } from "@/lib/audit";
+import type { ImportPlan } from "@/lib/backup";
+import { idbCommit, idbEncryptPlainBlobs, idbGet, idbHas, idbLoadAudit, idbLoadEntries, idbLoadQuarantine, idbSizes, type DBChange } from "@/lib/db";
+import { DEFAULT_SYNC, EMPTY_SYNC_STATE, localRecords, pendingChanges, syncOnce, type SyncChoice, type SyncResult, type SyncSettings, type SyncState, type SyncStatus } from "@/lib/sync";
+import { isRecord, migrate, projectFieldProblem, projectProblem, templateProblem, type Migration, type QuarantinedRecord } from "@/lib/schema";
+import { estimateQuota, formatBytes, quotaLevel, type MissingPhoto } from "@/lib/storage";
+import { describeRange, entriesInRange, type DateRange } from "@/lib/report";
+import { entryContentHash, forgetPhotoHashes, reportContentHash, reportSignOffs } from "@/lib/signoff";
+import { attachmentKey, attachmentKind, entryBlobKeys, nextAttachmentIndex, nextPhotoIndex, photoKey, rekeyEntry, removePhoto, sortEntries, thumbKey, visiblePhotoKeys } from "@/lib/entries";
+import { createThumbnail, DEFAULT_PHOTO_SETTINGS, processPhoto, signatureDataURL, type PhotoSettings } from "@/lib/images";
+import { describeMismatch, exifMismatchHours, parseExif } from "@/lib/exif";
+import { currentPosition, formatPosition, mapURL } from "@/lib/geo";
+import { startChecklist } from "@/lib/checklists";
+import { isOutstanding, rekeyDeficiencies, reportDeficiencies, STATUS_LABELS, usesPhotos, withoutPhotos } from "@/lib/deficiencies";
+import { pruneAnnotations } from "@/lib/annotations";
+import { PROJECT_STATUS_LABELS, projectDetails, sortFields, type ProjectDraft } from "@/lib/projects";
+import { SearchIndex } from "@/lib/search";
+import { filterEntries, filterOptions, hasFilter, isDateOnly, linkQuery, parseLink, reportEntries, type EntryFilter, type FilterLink } from "@/lib/filters";
+import { authorOf, initialsFor, isLastAdmin, loadLastProfileId, loadProfiles, newProfile, saveLastProfileId, saveProfiles, type Profile } from "@/lib/profiles";
+import type { Annotation, Attachment, AuthorRef, Deficiency, DeficiencyStatus, GeoPosition, PhotoExif, PhotoMeta, ChecklistResult, ChecklistTemplate, InspectionEntry, InspectionRevision, PlannedVisit, ProjectField, ProjectMeta, SignOff } from "@/lib/types";
+import { createKeyStore, decryptJSON, encryptJSON, hasSessionKey, isSealedJSON, rewrapKeyStore, setSessionKey, unlockKeyStore, wrapSessionKey } from "@/lib/crypto";
+import { attemptsBeforeDelay, clearLockout, loadLockout, recordFailure } from "@/lib/lockout";
+import { AlertTriangle, Calendar, CalendarDays, CheckCircle2, Cloud, CloudOff, RefreshCw, DatabaseBackup, ImageDown, ListChecks, ListFilter, ShieldCheck, SlidersHorizontal, ClipboardList, Clock, FileText, FileClock, Folder, FolderOpen, HardDrive, History, Home, KeyRound, ListTodo, Lock, LogOut, MapPin, Paperclip, Pencil, PenLine, Save, Search, Images, Trash2, Users } from "lucide-react";
 
 /**
  * Mobile Inspection App
- * - Data: Create/Update project meta (address, scope) keyed by Project ID
- * - Inspection: Add dated entries (date, time, notes, multiple photos) per Project ID
- * - Report: View full timeline OR filter by a specific date for a Project ID
+ * - Data: Create/Update project meta (address, scope, client, site contacts, permit, contract value, dates,
+ *   status) keyed by Project ID, plus custom fields (text, number, date, choice) that admins define
+ * - Projects: Search, sort, rename, archive and delete projects (deletes cascade to inspections + photos)
+ * - Inspection: Add dated entries (date, time, notes, multiple photos) per Project ID;
+ *   entries can be edited (keeping a revision history) or deleted; photos can be annotated
+ *   (freehand, arrows, rectangles, text) on a separate vector layer, captioned, tagged and deleted
+ *   from the full-screen photo viewer; EXIF (capture time, GPS, camera) is kept per photo and the
+ *   device location can optionally be recorded with each entry; voice notes (recorded in the app),
+ *   video clips and documents can be attached and play or open inline
+ * - Punch list: Deficiencies (title, location, severity, due date, assignee, "before" photos) logged from an
+ *   entry and tracked open -> in progress -> resolved -> verified; a later entry can resolve one with "after" photos
+ * - Calendar: Month/week view of every project's entries with per-day counts, and planned visits that the
+ *   inspection form turns into entries
+ * - Search: Full-text search of project details, entry notes and photo captions/tags (prefix and typo-tolerant,
+ *   see lib/search) with project, date range and inspector filters; a result opens its entry in the timeline
+ * - Templates: Reusable pass/fail/N/A checklists; a project's template is filled in with each entry
+ * - Profiles: Local users (name, initials, signature), each with their own passcode; entries and project
+ *   edits record who made them ("Inspected by"), and admins manage the other profiles
+ * - Audit log: Every create/update/delete of projects, entries and photos, hash-chained (see lib/audit),
+ *   with a viewer that verifies the chain; included in backups
+ * - Sync: Optional push/pull of projects, entries and photos with a self-hosted server (see lib/sync),
+ *   retried until it succeeds, with per-record conflicts resolved by the user
+ * - Report: Printable report (cover, chronological entries, photo grid) for a Project ID,
+ *   optionally limited to a date range, exportable as a PDF generated on the device
+ * - Sign-off: Signer name, role and drawn signature on an entry or a report's date range; the signed
+ *   content is hashed (see lib/signoff) so later edits show the signature as broken
  *
  * Persistence strategy:
- * - Project metadata + inspection indexes are saved in localStorage (JSON)
- * - Full-resolution images are saved in IndexedDB (object store "photos") as Blobs
- *   and referenced by keys in the inspection entries. This allows larger storage than localStorage.
- * - Simple passcode gate stored as a hashed digest in localStorage for local-only access control.
+ * - Project metadata, templates and custom field definitions are saved in localStorage (AES-GCM encrypted JSON)
+ * - Inspection entries and images are saved in IndexedDB (see lib/db): entries as encrypted JSON, images and
+ *   attachments as encrypted Blobs (images compressed per the photo settings), referenced by keys in the entries.
+ *   An entry and its files are committed in one transaction, so a failed or interrupted save stores nothing.
+ *   Each photo has a small thumbnail next to it (see thumbKey) for the timeline.
+ * - Stored data has one schema version across both stores, upgraded by MIGRATIONS in order on sign-in.
+ *   Loaded records are validated; malformed ones are quarantined (never discarded) and listed on the Storage screen.
+ * - Each profile's passcode unwraps the data key (see lib/crypto, lib/profiles); data is only decrypted in memory while signed in.
+ *   PBKDF2 (salted, iterated) doubles as the passcode check; repeated failures add growing delays,
+ *   and the app re-locks after inactivity or when hidden (Security screen).
  *
- * NOTE: Data persists in the same browser/device until the user clears site data.
+ * NOTE: Data persists in the same browser/device until the user clears site data (or the browser evicts it;
+ *       the Storage screen can request persistent storage and shows how close the quota is).
+ *       Backup exports everything to a single .zip that can be imported on any device.
  */
 
-/*************************
- * Minimal IndexedDB helper
- *************************/
-const DB_NAME = "mobile-inspection-app";
-const DB_VERSION = 1;
-const PHOTO_STORE = "photos";
-
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const req = indexedDB.open(DB_NAME, DB_VERSION);
-    req.onupgradeneeded = () => {
-      const db = req.result;
-      if (!db.objectStoreNames.contains(PHOTO_STORE)) {
-        db.createObjectStore(PHOTO_STORE);
-      }
-    };
-    req.onsuccess = () => resolve(req.result);
-    req.onerror = () => reject(req.error);
-  });
-}
-
-async function idbSet(key: string, value: Blob) {
-  const db = await openDB();
-  await new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(PHOTO_STORE, "readwrite");
-    tx.objectStore(PHOTO_STORE).put(value, key);
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
-}
-
-async function idbGet(key: string): Promise<Blob | undefined> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(PHOTO_STORE, "readonly");
-    const req = tx.objectStore(PHOTO_STORE).get(key);
-    req.onsuccess = () => resolve(req.result as Blob | undefined);
-    req.onerror = () => reject(req.error);
-  });
-}
-
 /**********************
  * LocalStorage helpers
  **********************/
 const LS_PROJECTS_KEY = "mia.projects:v1"; // Project metadata dictionary
-const LS_INSPECTIONS_KEY = "mia.inspections:v1"; // Map: projectId -> InspectionEntry[]
-const LS_PASSCODE_HASH = "mia.passcode.hash:v1"; // sha256 base64
-
-export type ProjectMeta = {
-  id: string; // Project ID
-  address: string;
-  scope: string;
-  createdAt: number;
-  updatedAt: number;
+const LS_INSPECTIONS_KEY = "mia.inspections:v1"; // legacy Map: projectId -> InspectionEntry[], moved to IndexedDB on sign-in
+const LS_TEMPLATES_KEY = "mia.templates:v1"; // Checklist templates by id
+const LS_PROJECT_FIELDS_KEY = "mia.projectFields:v1"; // Custom project fields by id
+const LS_PASSCODE_HASH = "mia.passcode.hash:v1"; // legacy sha256 base64, replaced by an admin profile on first unlock
+const LS_PHOTOS_SEALED_KEY = "mia.photos.sealed:v1"; // set once every photo Blob has been encrypted
+const LS_AUTOLOCK_KEY = "mia.settings.autolock:v1"; // AutoLockSettings
+const LS_PHOTO_SETTINGS_KEY = "mia.settings.photos:v1"; // PhotoSettings
+const LS_LOCATION_KEY = "mia.settings.location:v1"; // "1" when entries record the device location
+const LS_SCHEMA_KEY = "mia.schema.version"; // last migration applied (see MIGRATIONS)
+const LS_SYNC_SETTINGS_KEY = "mia.settings.sync:v1"; // SyncSettings, encrypted: holds the server token
+const LS_SYNC_STATE_KEY = "mia.sync:v1"; // SyncState: cursor, versions last synced, open conflicts
+
+const MAX_ATTACHMENT_BYTES = 200 * 1024 * 1024; // each Blob is encrypted in memory in one piece
+
+const SYNC_DEBOUNCE_MS = 5_000; // after the last change
+const SYNC_POLL_MS = 5 * 60_000; // pull others' changes while open
+const SYNC_RETRY_MS = 15_000; // first retry after a failure, doubling
+const SYNC_MAX_RETRY_MS = 10 * 60_000;
+
+export type { ProjectMeta, InspectionEntry, InspectionRevision, ChecklistTemplate };
+
+/** Pending changes to an entry: photos and attachments to keep plus new files to store. */
+type EntryDraft = {
+  date: string;
+  time: string;
+  notes: string;
+  photoKeys: string[];
+  newPhotos: File[];
+  attachments: Attachment[];
+  newAttachments: PendingAttachment[];
 };
 
-export type InspectionEntry = {
-  id: string; // unique id
-  date: string; // YYYY-MM-DD
-  time: string; // HH:MM
-  notes: string; // observations
-  photoKeys: string[]; // keys in IndexedDB
-  createdAt: number;
-  updatedAt: number;
-};
+// Files offered when attaching; voice notes are recorded in the app instead
+const ATTACHMENT_ACCEPT = "audio/*,video/*,application/pdf,.doc,.docx,.xls,.xlsx,.csv,.txt";
+
+/** Picked files as pending attachments, leaving out (with a message) any too large to store. */
+function pickAttachments(list: FileList | null): PendingAttachment[] {
+  const files = Array.from(list || []);
+  const tooLarge = files.filter((f) => f.size > MAX_ATTACHMENT_BYTES);
+  if (tooLarge.length > 0) toast.error(`${tooLarge.map((f) => f.name).join(", ")}: larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}, not attached.`);
+  return files.filter((f) => f.size <= MAX_ATTACHMENT_BYTES).map((file) => ({ file, name: file.name }));
+}
 
-function loadProjects(): Record<string, ProjectMeta> {
+/** "Voice note 3" after two recordings. */
+function nextVoiceNoteName(list: { durationMs?: number }[]): string {
+  return `Voice note ${list.filter((a) => a.durationMs !== undefined).length + 1}`;
+}
+
+/** Reads an encrypted JSON value (values written before encryption are still plain JSON). Unreadable data is quarantined and reads as `fallback`. */
+async function loadSealed<T>(lsKey: string, source: string, fallback: T): Promise<T> {
+  const raw = localStorage.getItem(lsKey);
+  if (!raw) return fallback;
   try {
-    const raw = localStorage.getItem(LS_PROJECTS_KEY);
-    return raw ? JSON.parse(raw) : {};
+    return isSealedJSON(raw) ? await decryptJSON<T>(raw) : JSON.parse(raw);
   } catch {
-    return {};
+    await idbCommit({ quarantine: [{ source, label: "Everything", reason: "Could not be decrypted or parsed.", data: raw, quarantinedAt: Date.now() }] });
+    localStorage.removeItem(lsKey);
+    return fallback;
   }
 }
 
+/** Reads a sealed dictionary of records. Records failing `problem` are quarantined rather than dropped or loaded. */
+async function loadRecords<T>(lsKey: string, source: string, problem: (value: unknown) => string | undefined): Promise<Record<string, T>> {
+  const all = await loadSealed<unknown>(lsKey, source, {});
+  const records: Record<string, T> = {};
+  const bad: QuarantinedRecord[] = [];
+  if (!isRecord(all)) {
+    bad.push({ source, label: "Everything", reason: "Not a set of records.", data: await encryptJSON(all), quarantinedAt: Date.now() });
+  } else {
+    for (const [id, value] of Object.entries(all)) {
+      const reason = problem(value);
+      if (reason) bad.push({ source, label: id, reason, data: await encryptJSON(value), quarantinedAt: Date.now() });
+      else records[id] = value as T;
+    }
+  }
+  if (bad.length > 0) await idbCommit({ quarantine: bad });
+  return records;
+}
+
+// Encryption is async, so a slow older write must not land after a newer one
+const sealedWriteSeq: Record<string, number> = {};
+
+async function saveSealed(lsKey: string, value: unknown) {
+  if (!hasSessionKey()) return; // locked: in-memory state is empty and must not overwrite stored data
+  const seq = (sealedWriteSeq[lsKey] = (sealedWriteSeq[lsKey] || 0) + 1);
+  const sealed = await encryptJSON(value);
+  if (seq === sealedWriteSeq[lsKey]) localStorage.setItem(lsKey, sealed);
+}
+
+function loadProjects(): Promise<Record<string, ProjectMeta>> {
+  return loadRecords(LS_PROJECTS_KEY, "projects", projectProblem);
+}
+
 function saveProjects(projects: Record<string, ProjectMeta>) {
-  localStorage.setItem(LS_PROJECTS_KEY, JSON.stringify(projects));
+  return saveSealed(LS_PROJECTS_KEY, projects);
 }
 
-function loadInspections(): Record<string, InspectionEntry[]> {
+/** Moves entries from the legacy localStorage index into IndexedDB. An entry already stored there is never replaced. */
+async function moveLegacyInspections() {
+  const raw = localStorage.getItem(LS_INSPECTIONS_KEY);
+  if (!raw) return;
+  const legacy: Record<string, InspectionEntry[]> = isSealedJSON(raw) ? await decryptJSON(raw) : JSON.parse(raw);
+  const stored = await idbLoadEntries();
+  const putEntries = Object.entries(legacy).flatMap(([projectId, list]) =>
+    list.filter((e) => !stored[projectId]?.some((s) => s.id === e.id)).map((entry) => ({ projectId, entry }))
+  );
+  await idbCommit({ putEntries });
+  localStorage.removeItem(LS_INSPECTIONS_KEY);
+}
+
+function loadTemplates(): Promise<Record<string, ChecklistTemplate>> {
+  return loadRecords(LS_TEMPLATES_KEY, "templates", templateProblem);
+}
+
+function saveTemplates(templates: Record<string, ChecklistTemplate>) {
+  return saveSealed(LS_TEMPLATES_KEY, templates);
+}
+
+function loadProjectFields(): Promise<Record<string, ProjectField>> {
+  return loadRecords(LS_PROJECT_FIELDS_KEY, "project fields", projectFieldProblem);
+}
+
+function saveProjectFields(fields: Record<string, ProjectField>) {
+  return saveSealed(LS_PROJECT_FIELDS_KEY, fields);
+}
+
+function loadAutoLock(): AutoLockSettings {
+  try {
+    const raw = localStorage.getItem(LS_AUTOLOCK_KEY);
+    return raw ? { ...DEFAULT_AUTO_LOCK, ...JSON.parse(raw) } : DEFAULT_AUTO_LOCK;
+  } catch {
+    return DEFAULT_AUTO_LOCK;
+  }
+}
+
+function loadPhotoSettings(): PhotoSettings {
   try {
-    const raw = localStorage.getItem(LS_INSPECTIONS_KEY);
-    return raw ? JSON.parse(raw) : {};
+    const raw = localStorage.getItem(LS_PHOTO_SETTINGS_KEY);
+    return raw ? { ...DEFAULT_PHOTO_SETTINGS, ...JSON.parse(raw) } : DEFAULT_PHOTO_SETTINGS;
   } catch {
-    return {};
+    return DEFAULT_PHOTO_SETTINGS;
   }
 }
 
-function saveInspections(map: Record<string, InspectionEntry[]>) {
-  localStorage.setItem(LS_INSPECTIONS_KEY, JSON.stringify(map));
+/** Encrypts anything still stored in the clear. Idempotent, so an interrupted run resumes next unlock. */
+async function migrateToEncrypted() {
+  for (const lsKey of [LS_PROJECTS_KEY, LS_INSPECTIONS_KEY, LS_TEMPLATES_KEY]) {
+    const raw = localStorage.getItem(lsKey);
+    if (!raw || isSealedJSON(raw)) continue;
+    try {
+      localStorage.setItem(lsKey, await encryptJSON(JSON.parse(raw)));
+    } catch {
+      // Unparseable plain data is left as-is; loading quarantines it
+    }
+  }
+  if (!localStorage.getItem(LS_PHOTOS_SEALED_KEY)) {
+    await idbEncryptPlainBlobs();
+    localStorage.setItem(LS_PHOTOS_SEALED_KEY, "1");
+  }
 }
 
+/** Storage migrations across localStorage and IndexedDB, oldest first. Installs from before versioning start at 0 and re-run them all. */
+const MIGRATIONS: Migration[] = [
+  { version: 1, description: "Encrypt stored data", run: migrateToEncrypted },
+  { version: 2, description: "Move inspections to IndexedDB", run: moveLegacyInspections },
+];
+const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
 /****************
  * Security helpers
  ****************/
@@ -128,12 +292,27 @@ async function sha256Base64(input: string): Promise<string> {
   return btoa(bin);
 }
 
+/** "45s" / "3 min" for lockout countdowns. */
+function formatWait(ms: number): string {
+  const secs = Math.max(1, Math.ceil(ms / 1000));
+  return secs < 60 ? `${secs}s` : `${Math.ceil(secs / 60)} min`;
+}
+
 /****************
  * UI Components
  ****************/
-function Header({ title, onHome, onSignOut, authed }: { title: string; onHome?: () => void; onSignOut?: () => void; authed?: boolean }) {
+const SYNC_ICON_TITLES: Record<SyncStatus, string> = {
+  off: "Sync off",
+  idle: "Synced",
+  syncing: "Syncing",
+  offline: "Offline: changes waiting",
+  error: "Sync failed: retrying",
+  conflict: "Sync conflicts to resolve",
+};
+
+function Header({ title, onHome, onSignOut, authed, sync, onSync }: { title: string; onHome?: () => void; onSignOut?: () => void; authed?: boolean; sync?: SyncStatus; onSync?: () => void }) {
   return (
-    <div className="sticky top-0 z-10 bg-white/80 backdrop-blur border-b">
+    <div className="sticky top-0 z-10 bg-white/80 backdrop-blur border-b print:hidden">
       <div className="max-w-md mx-auto flex items-center gap-2 p-3">
         {onHome ? (
           <Button variant="ghost" size="icon" onClick={onHome} className="rounded-full">
@@ -141,6 +320,15 @@ function Header({ title, onHome, onSignOut, authed }: { title: string; onHome?:
           </Button>
         ) : null}
         <h1 className="text-lg font-semibold tracking-tight flex-1">{title}</h1>
+        {authed && sync && sync !== "off" ? (
+          <Button variant="ghost" size="icon" onClick={onSync} className="rounded-full" title={SYNC_ICON_TITLES[sync]}>
+            {sync === "syncing" ? <RefreshCw className="h-5 w-5 animate-spin" />
+              : sync === "conflict" ? <AlertTriangle className="h-5 w-5 text-amber-600" />
+              : sync === "offline" ? <CloudOff className="h-5 w-5 text-muted-foreground" />
+              : sync === "error" ? <CloudOff className="h-5 w-5 text-red-600" />
+              : <Cloud className="h-5 w-5 text-emerald-600" />}
+          </Button>
+        ) : null}
         {authed && onSignOut ? (
           <Button variant="ghost" size="icon" onClick={onSignOut} className="rounded-full" title="Sign out">
             <LogOut className="h-5 w-5" />
@@ -174,14 +362,56 @@ function Section({ title, children }: { title: string; children: React.ReactNode
 /****************
  * Main App
  ****************/
-export default function App() {
-  const [view, setView] = useState<"auth" | "home" | "data" | "inspection" | "inspectionProject" | "report">("auth");
-  const [projects, setProjects] = useState<Record<string, ProjectMeta>>(() => loadProjects());
-  const [inspections, setInspections] = useState<Record<string, InspectionEntry[]>>(() => loadInspections());
+type View = "auth" | "home" | "data" | "projects" | "inspection" | "inspectionProject" | "report" | "backup" | "security" | "templates" | "photos" | "storage" | "sync" | "profiles" | "audit" | "punchList" | "projectFields" | "calendar" | "search";
+
+const VIEW_TITLES: Record<View, string> = {
+  auth: "Secure Access",
+  home: "Home",
+  data: "Data",
+  projects: "Projects",
+  inspection: "Inspection",
+  inspectionProject: "Inspection",
+  report: "Report",
+  backup: "Backup & Restore",
+  security: "Security",
+  templates: "Checklist Templates",
+  photos: "Photo Settings",
+  storage: "Storage",
+  sync: "Sync",
+  profiles: "Profiles",
+  audit: "Audit Log",
+  punchList: "Punch List",
+  projectFields: "Project Fields",
+  calendar: "Calendar",
+  search: "Search",
+};
 
-  // Persist when state changes
-  useEffect(() => saveProjects(projects), [projects]);
-  useEffect(() => saveInspections(inspections), [inspections]);
+export default function App() {
+  const [view, setView] = useState<View>("auth");
+  // Empty until sign-in decrypts the stored data
+  const [projects, setProjects] = useState<Record<string, ProjectMeta>>({});
+  const [inspections, setInspections] = useState<Record<string, InspectionEntry[]>>({});
+  const [templates, setTemplates] = useState<Record<string, ChecklistTemplate>>({});
+  const [projectFields, setProjectFields] = useState<Record<string, ProjectField>>({});
+
+  // Persist when state changes (no-op while locked). Entries are committed to IndexedDB by each change instead.
+  useEffect(() => { saveProjects(projects); }, [projects]);
+  useEffect(() => { saveTemplates(templates); }, [templates]);
+  useEffect(() => { saveProjectFields(projectFields); }, [projectFields]);
+
+  // Audit log: each change to projects and entries is diffed against the state last logged (null while locked)
+  const auditBase = useRef<AuditSnapshot | null>(null);
+  const auditVia = useRef<AuditEvent["via"]>(); // source of the next state change, when not this device's user
+  useEffect(() => {
+    const base = auditBase.current;
+    if (!base) return;
+    const via = auditVia.current;
+    auditVia.current = undefined;
+    auditBase.current = { projects, inspections };
+    const by = currentAuthor();
+    const events = diffAudit(base, { projects, inspections }).map((e) => ({ ...e, by, via }));
+    if (events.length > 0) appendAudit(events).catch(() => toast.error("Could not write to the audit log."));
+  }, [projects, inspections]);
 
   // Dialog states
   const [dataDialogOpen, setDataDialogOpen] = useState(false);
@@ -189,14 +419,20 @@ export default function App() {
   const [reportDialogOpen, setReportDialogOpen] = useState(false);
 
   // Form states
-  const [dataForm, setDataForm] = useState({ id: "", address: "", scope: "" });
+  const [editingProject, setEditingProject] = useState<ProjectMeta | undefined>(); // in the data dialog; undefined for a new one
   const [inspectionId, setInspectionId] = useState("");
   const [reportId, setReportId] = useState("");
-  const [reportDate, setReportDate] = useState<string>(""); // optional report date
+  const [reportDraft, setReportDraft] = useState<EntryFilter>({}); // criteria in the report dialog
+  const [reportFilter, setReportFilter] = useState<EntryFilter>({});
 
   // Selected project in inspection/report view
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
-  const [filterDate, setFilterDate] = useState<string | null>(null); // active date filter for report
+  const [timelineFilter, setTimelineFilter] = useState<EntryFilter>({});
+  const [timelineFiltersOpen, setTimelineFiltersOpen] = useState(false);
+  const [focusEntryId, setFocusEntryId] = useState<string | null>(null); // timeline entry to scroll to, e.g. a search result
+
+  // In memory only; SearchView brings it up to date in an effect whenever the data changes while it is open
+  const searchIndex = useRef(new SearchIndex());
 
   // Inspection entry form (uncontrolled notes to prevent focus loss)
   const [entryDate, setEntryDate] = useState<string>("");
@@ -204,13 +440,104 @@ export default function App() {
   const notesRef = useRef<HTMLTextAreaElement | null>(null);
   const [entryPhotos, setEntryPhotos] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-  // Image blob to object URL cache
+  const [entryChecklist, setEntryChecklist] = useState<ChecklistResult | null>(null);
+  const [checklistPhotos, setChecklistPhotos] = useState<Record<string, File[]>>({}); // pending, by item id
+  const [pendingAnnotations, setPendingAnnotations] = useState<Map<File, Annotation[]>>(new Map());
+  const [entryAttachments, setEntryAttachments] = useState<PendingAttachment[]>([]);
+  const [saving, setSaving] = useState(false); // a new entry is being stored: Save stays disabled
+  const [startedVisit, setStartedVisit] = useState<{ projectId: string; visitId: string } | null>(null); // planned visit the new entry records
+
+  // Photo open in the annotation editor: a pending file or a saved photo of an entry
+  const [annotating, setAnnotating] = useState<
+    | { src: string; shapes: Annotation[]; file: File }
+    | { src: string; shapes: Annotation[]; projectId: string; entryId: string; key: string }
+    | null
+  >(null);
+
+  // Start a blank checklist whenever the open project (or its template) changes
+  const activeTemplate = activeProjectId ? templates[projects[activeProjectId]?.templateId ?? ""] : undefined;
+  useEffect(() => {
+    setEntryChecklist(activeTemplate ? startChecklist(activeTemplate) : null);
+    setChecklistPhotos({});
+  }, [activeProjectId, activeTemplate?.id, activeTemplate?.updatedAt]);
+
+  // Timeline entry being edited / pending delete confirmation
+  const [editingEntry, setEditingEntry] = useState<InspectionEntry | null>(null);
+  const [deletingEntry, setDeletingEntry] = useState<InspectionEntry | null>(null);
+
+  // Entry or report being signed off, plus the signed-in user's saved signature (decrypted) to offer
+  const [signing, setSigning] = useState<
+    | { subject: string; projectId: string; entryId: string; own?: { name: string; signature?: string } }
+    | { subject: string; projectId: string; range: DateRange; own?: { name: string; signature?: string } }
+    | null
+  >(null);
+
+  // Deficiency being logged from an entry (no deficiencyId) or edited, and the entry resolving one
+  const [deficiencyEdit, setDeficiencyEdit] = useState<{ projectId: string; entryId: string; deficiencyId?: string } | null>(null);
+  const [resolving, setResolving] = useState<{ projectId: string; entryId: string } | null>(null);
+
+  // Image blob to object URL cache (thumbnails are cached under their own keys)
   const [photoURLCache] = useState<Map<string, string>>(new Map());
+  const [viewer, setViewer] = useState<{ projectId: string; key: string; scope: ViewerScope } | null>(null);
+  const [deletingPhoto, setDeletingPhoto] = useState<ViewerPhoto | null>(null);
+  const [photoSettings, setPhotoSettings] = useState<PhotoSettings>(() => loadPhotoSettings());
+  const [captureLocation, setCaptureLocation] = useState<boolean>(() => localStorage.getItem(LS_LOCATION_KEY) === "1");
 
   // Auth state
-  const [hasPasscode, setHasPasscode] = useState<boolean>(() => !!localStorage.getItem(LS_PASSCODE_HASH));
+  const [profiles, setProfiles] = useState<Profile[]>(() => loadProfiles());
+  const [userId, setUserId] = useState<string | null>(null); // signed-in profile
+  const user = profiles.find((p) => p.id === userId) ?? null;
+  const [signInProfileId, setSignInProfileId] = useState<string>(() => loadLastProfileId() ?? "");
+  const [setupName, setSetupName] = useState<string>("");
+  const hasPasscode = profiles.length > 0 || !!localStorage.getItem(LS_PASSCODE_HASH);
   const [authed, setAuthed] = useState<boolean>(false);
+  const [unlocking, setUnlocking] = useState<boolean>(false);
+  const [lockedUntil, setLockedUntil] = useState<number>(() => loadLockout().lockedUntil);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [autoLock, setAutoLock] = useState<AutoLockSettings>(() => loadAutoLock());
+
+  // Tick once a second while sign-in is throttled so the countdown stays current
+  useEffect(() => {
+    if (lockedUntil <= Date.now()) return;
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
+
+  // Sync with the configured server; timers and listeners read the latest state through `syncLatest`
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(DEFAULT_SYNC);
+  const [syncState, setSyncState] = useState<SyncState>(EMPTY_SYNC_STATE);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("off");
+  const [syncError, setSyncError] = useState<string | undefined>();
+  const syncLatest = useRef({ projects, inspections, syncSettings, syncState });
+  syncLatest.current = { projects, inspections, syncSettings, syncState };
+  const syncRun = useRef({ running: false, again: false, retryTimer: 0, attempts: 0 });
+
+  // Push changes once they settle
+  useEffect(() => {
+    if (!authed || !syncSettings.endpoint || !syncSettings.auto) return;
+    const timer = window.setTimeout(() => runSync(), SYNC_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [authed, syncSettings, projects, inspections]);
+
+  // Pull periodically and as soon as the connection returns
+  useEffect(() => {
+    if (!authed || !syncSettings.endpoint || !syncSettings.auto) return;
+    const onOnline = () => runSync();
+    window.addEventListener("online", onOnline);
+    const timer = window.setInterval(() => runSync(), SYNC_POLL_MS);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.clearInterval(timer);
+    };
+  }, [authed, syncSettings]);
+
+  useAutoLock(authed, autoLock, () => {
+    handleSignOut();
+    toast("App locked.");
+  });
   const [passcodeInput, setPasscodeInput] = useState<string>("");
   const [passcodeConfirm, setPasscodeConfirm] = useState<string>("");
 
@@ -233,39 +560,282 @@ export default function App() {
   function goHome() {
     setView("home");
     setActiveProjectId(null);
-    setFilterDate(null);
+    setTimelineFilter({});
+    setReportFilter({});
+  }
+
+  function openReport() {
+    const id = reportId.trim();
+    if (!id) return toast.error("Enter a Project ID.");
+    if (reportDraft.from && reportDraft.to && reportDraft.to < reportDraft.from) return toast.error("End date is before start date.");
+    setActiveProjectId(id);
+    setReportFilter(reportDraft);
+    setReportDialogOpen(false);
+    setView("report");
   }
 
   /*************** Auth ***************/
+  /** Decrypts stored data into memory once the session key is set. */
+  async function openSession(key: CryptoKey, profile: Profile) {
+    setSessionKey(key);
+    const from = Number(localStorage.getItem(LS_SCHEMA_KEY)) || 0;
+    if (from > SCHEMA_VERSION) toast.warning("This data was saved by a newer version of the app. Update the app before making changes.");
+    try {
+      await migrate(MIGRATIONS, from, (version) => localStorage.setItem(LS_SCHEMA_KEY, String(version)));
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+    let loaded: [Record<string, ProjectMeta>, Record<string, InspectionEntry[]>, Record<string, ChecklistTemplate>, Record<string, ProjectField>, SyncSettings, SyncState];
+    try {
+      loaded = await Promise.all([
+        loadProjects(),
+        idbLoadEntries(),
+        loadTemplates(),
+        loadProjectFields(),
+        loadSealed<SyncSettings>(LS_SYNC_SETTINGS_KEY, "sync settings", DEFAULT_SYNC),
+        loadSealed<SyncState>(LS_SYNC_STATE_KEY, "sync state", EMPTY_SYNC_STATE),
+      ]);
+    } catch {
+      // Stay locked: signing in with empty state would overwrite what could not be read
+      setSessionKey(null);
+      return toast.error("Could not read the stored data. Nothing was changed.");
+    }
+    const [p, i, t, fields, sync, synced] = loaded;
+    auditBase.current = { projects: p, inspections: i }; // loading is not a change
+    setProjects(p);
+    setInspections(i);
+    setTemplates(t);
+    setProjectFields(fields);
+    setSyncSettings({ ...DEFAULT_SYNC, ...sync });
+    setSyncState({ ...EMPTY_SYNC_STATE, ...synced });
+    setSyncStatus(!sync.endpoint ? "off" : synced.conflicts?.length ? "conflict" : "idle");
+    setUserId(profile.id);
+    saveLastProfileId(profile.id);
+    setAuthed(true);
+    openLink(parseLink(location.search), p, i);
+    checkQuota();
+    checkQuarantine();
+  }
+
+  /** Reminds the user of quarantined records at every sign-in until they are reviewed on the Storage screen. */
+  async function checkQuarantine() {
+    const records = await idbLoadQuarantine().catch(() => []);
+    if (records.length === 0) return;
+    toast.warning(`${records.length} damaged record(s) could not be loaded and were set aside.`, {
+      action: { label: "Review", onClick: () => setView("storage") },
+    });
+  }
+
+  /** Warns when the browser's storage quota is nearly used up. */
+  async function checkQuota() {
+    const level = quotaLevel(await estimateQuota().catch(() => undefined));
+    if (level === "critical") toast.error("Storage is almost full. New photos may fail to save. See Storage on the home screen.");
+    else if (level === "warn") toast.warning("Storage is filling up. See Storage on the home screen.");
+  }
+
+  /** First run: creates the admin profile and the data key it unlocks. */
   async function handleSetPasscode() {
+    const name = setupName.trim();
+    if (!name) return toast.error("Enter your name");
     if (!passcodeInput || passcodeInput.length < 4) return toast.error("Choose a passcode (4+ chars)");
     if (passcodeInput !== passcodeConfirm) return toast.error("Passcodes do not match");
-    const hash = await sha256Base64(passcodeInput);
-    localStorage.setItem(LS_PASSCODE_HASH, hash);
-    setHasPasscode(true);
-    setAuthed(true);
-    setView("home");
-    toast.success("Passcode set");
+    setUnlocking(true);
+    try {
+      const { store, key } = await createKeyStore(passcodeInput);
+      const profile = newProfile({ name, initials: initialsFor(name), role: "admin" }, store);
+      updateProfiles([profile]);
+      await openSession(key, profile);
+    } finally {
+      setUnlocking(false);
+    }
+    setPasscodeInput("");
+    setPasscodeConfirm("");
+    setSetupName("");
+    toast.success("Profile created");
+  }
+
+  function handleFailedSignIn() {
+    const next = recordFailure();
+    setLockedUntil(next.lockedUntil);
+    setNow(Date.now());
+    if (next.lockedUntil) return toast.error(`Incorrect passcode. Try again in ${formatWait(next.lockedUntil - Date.now())}.`);
+    const left = attemptsBeforeDelay(next);
+    toast.error(left <= 2 ? `Incorrect passcode. ${left} attempt(s) left before a delay.` : "Incorrect passcode");
   }
 
   async function handleSignIn() {
     if (!passcodeInput) return toast.error("Enter your passcode");
-    const stored = localStorage.getItem(LS_PASSCODE_HASH);
-    if (!stored) return toast.error("No passcode set. Set one first.");
-    const hash = await sha256Base64(passcodeInput);
-    if (hash !== stored) return toast.error("Incorrect passcode");
-    setAuthed(true);
-    setView("home");
+    const lock = loadLockout();
+    if (lock.lockedUntil > Date.now()) return toast.error(`Too many attempts. Try again in ${formatWait(lock.lockedUntil - Date.now())}.`);
+    setUnlocking(true);
+    try {
+      let profile = profiles.find((p) => p.id === signInProfileId) ?? profiles[0];
+      let key: CryptoKey;
+      if (profile) {
+        try {
+          key = await unlockKeyStore(profile.keyStore, passcodeInput);
+        } catch {
+          return handleFailedSignIn();
+        }
+      } else {
+        // Pre-encryption install: verify the legacy hash once, then switch to an admin profile
+        const stored = localStorage.getItem(LS_PASSCODE_HASH);
+        if (!stored) return toast.error("No passcode set. Set one first.");
+        const hash = await sha256Base64(passcodeInput);
+        if (hash !== stored) return handleFailedSignIn();
+        const created = await createKeyStore(passcodeInput);
+        profile = newProfile({ name: "Administrator", initials: "AD", role: "admin" }, created.store);
+        updateProfiles([profile]);
+        localStorage.removeItem(LS_PASSCODE_HASH);
+        key = created.key;
+      }
+      clearLockout();
+      setLockedUntil(0);
+      await openSession(key, profile);
+    } finally {
+      setUnlocking(false);
+    }
     setPasscodeInput("");
     toast.success("Unlocked");
   }
 
+  async function changePasscode(current: string, next: string, confirm: string): Promise<boolean> {
+    if (!next || next.length < 4) {
+      toast.error("Choose a passcode (4+ chars)");
+      return false;
+    }
+    if (next !== confirm) {
+      toast.error("Passcodes do not match");
+      return false;
+    }
+    if (!user) return false;
+    try {
+      // Only this profile's wrapped data key changes; stored data stays encrypted under the same key
+      const keyStore = await rewrapKeyStore(user.keyStore, current, next);
+      updateProfiles(profiles.map((p) => (p.id === user.id ? { ...p, keyStore, updatedAt: Date.now() } : p)));
+    } catch {
+      toast.error("Current passcode is incorrect");
+      return false;
+    }
+    toast.success("Passcode changed");
+    return true;
+  }
+
+  function updateAutoLock(next: AutoLockSettings) {
+    setAutoLock(next);
+    localStorage.setItem(LS_AUTOLOCK_KEY, JSON.stringify(next));
+  }
+
   function handleSignOut() {
+    // Drop the key first so the persistence effects skip the emptied state below
+    setSessionKey(null);
+    auditBase.current = null;
+    setProjects({});
+    setInspections({});
+    setTemplates({});
+    setProjectFields({});
+    searchIndex.current.clear();
+    window.clearTimeout(syncRun.current.retryTimer);
+    setSyncSettings(DEFAULT_SYNC);
+    setSyncState(EMPTY_SYNC_STATE);
+    setSyncStatus("off");
+    forgetPhotoURLs(Array.from(photoURLCache.keys()));
+    forgetPhotoHashes();
+    setEditingEntry(null);
+    setSigning(null);
+    setDeficiencyEdit(null);
+    setResolving(null);
+    setStartedVisit(null);
+    setDeletingEntry(null);
+    setActiveProjectId(null);
+    setTimelineFilter({});
+    setReportFilter({});
+    setUserId(null);
     setAuthed(false);
     setView("auth");
   }
 
+  /*************** Profiles ***************/
+  function updateProfiles(next: Profile[]) {
+    setProfiles(next);
+    saveProfiles(next);
+  }
+
+  /** The signed-in user, as recorded on what they create or change. */
+  function currentAuthor(): AuthorRef | undefined {
+    return user ? authorOf(user) : undefined;
+  }
+
+  /** Adds a profile (id null) or edits one. Users may edit their own name and initials; everything else is for admins. */
+  async function saveProfile(id: string | null, draft: ProfileDraft): Promise<boolean> {
+    if (!user) return false;
+    const prev = id ? profiles.find((p) => p.id === id) : undefined;
+    const self = prev?.id === user.id;
+    if (user.role !== "admin" && !self) {
+      toast.error("Only an admin can manage other profiles.");
+      return false;
+    }
+    const name = draft.name.trim();
+    const initials = draft.initials.trim() || initialsFor(name);
+    if (!name) {
+      toast.error("Enter a name.");
+      return false;
+    }
+    if (profiles.some((p) => p.id !== id && p.name.toLowerCase() === name.toLowerCase())) {
+      toast.error(`A profile named ${name} already exists.`);
+      return false;
+    }
+    const role = self ? user.role : draft.role;
+    if (prev && role !== "admin" && isLastAdmin(profiles, prev.id)) {
+      toast.error("At least one profile must stay an admin.");
+      return false;
+    }
+    if (!prev || draft.passcode) {
+      if (draft.passcode.length < 4) {
+        toast.error("Choose a passcode (4+ chars)");
+        return false;
+      }
+      if (draft.passcode !== draft.confirm) {
+        toast.error("Passcodes do not match");
+        return false;
+      }
+    }
+    // A new or reset passcode wraps the data key this session already holds
+    const keyStore = draft.passcode ? await wrapSessionKey(draft.passcode) : undefined;
+    if (!prev) {
+      updateProfiles([...profiles, newProfile({ name, initials, role }, keyStore!)]);
+      toast.success(`Profile for ${name} added.`);
+      return true;
+    }
+    updateProfiles(profiles.map((p) => (p.id === prev.id ? { ...p, name, initials, role, keyStore: keyStore ?? p.keyStore, updatedAt: Date.now() } : p)));
+    toast.success(draft.passcode ? "Profile saved and passcode reset." : "Profile saved.");
+    return true;
+  }
+
+  /** Stores (encrypted) or removes the signed-in user's signature image. */
+  async function saveSignature(file: File | null) {
+    if (!user) return;
+    let signature: string | undefined;
+    try {
+      signature = file ? await encryptJSON(await signatureDataURL(file)) : undefined;
+    } catch (err) {
+      toast.error((err as Error).message);
+      return;
+    }
+    updateProfiles(profiles.map((p) => (p.id === user.id ? { ...p, signature, updatedAt: Date.now() } : p)));
+    toast.success(file ? "Signature saved." : "Signature removed.");
+  }
+
+  function deleteProfile(id: string) {
+    const target = profiles.find((p) => p.id === id);
+    if (!user || user.role !== "admin" || !target || id === user.id || isLastAdmin(profiles, id)) return;
+    updateProfiles(profiles.filter((p) => p.id !== id));
+    toast.success(`Profile for ${target.name} deleted.`);
+  }
+
   function AuthView() {
+    const waitMs = lockedUntil - now;
+    const chosen = profiles.find((p) => p.id === signInProfileId) ?? profiles[0];
     return (
       <div className="min-h-screen bg-neutral-50">
         <Header title="Secure Access" />
@@ -273,10 +843,30 @@ export default function App() {
           <Card className="border-0 shadow-sm">
             <CardHeader className="pb-2">
               <CardTitle className="text-base font-semibold flex items-center gap-2">
-                <Lock className="h-4 w-4" /> {hasPasscode ? "Sign in" : "Set a passcode"}
+                <Lock className="h-4 w-4" /> {hasPasscode ? "Sign in" : "Create your profile"}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {profiles.length > 1 && (
+                <div className="space-y-1">
+                  <Label>Who is signing in?</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {profiles.map((p) => (
+                      <Button key={p.id} variant={p.id === chosen?.id ? "default" : "outline"} className="h-12 rounded-xl justify-start gap-2" onClick={() => setSignInProfileId(p.id)}>
+                        <span className="font-semibold">{p.initials}</span>
+                        <span className="truncate font-normal">{p.name}</span>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {profiles.length === 1 && <div className="text-sm text-muted-foreground">Signing in as {chosen?.name}</div>}
+              {!hasPasscode && (
+                <div className="space-y-1">
+                  <Label htmlFor="setup-name">Your name</Label>
+                  <Input id="setup-name" value={setupName} onChange={(e) => setSetupName(e.target.value)} placeholder="Shown as the inspector on entries and reports" />
+                </div>
+              )}
               <div className="space-y-1">
                 <Label htmlFor="pc">{hasPasscode ? "Passcode" : "Create passcode"}</Label>
                 <Input id="pc" type="password" value={passcodeInput} onChange={(e) => setPasscodeInput(e.target.value)} placeholder={hasPasscode ? "Enter passcode" : "Choose a passcode"} />
@@ -287,10 +877,15 @@ export default function App() {
                   <Input id="pcc" type="password" value={passcodeConfirm} onChange={(e) => setPasscodeConfirm(e.target.value)} placeholder="Re-enter passcode" />
                 </div>
               )}
+              {hasPasscode && waitMs > 0 && (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl px-3 py-2 text-sm">
+                  Too many incorrect attempts. Try again in {formatWait(waitMs)}.
+                </div>
+              )}
               {hasPasscode ? (
-                <Button className="w-full h-12 rounded-xl" onClick={handleSignIn}><KeyRound className="h-4 w-4 mr-2" /> Unlock</Button>
+                <Button className="w-full h-12 rounded-xl" onClick={handleSignIn} disabled={unlocking || waitMs > 0}><KeyRound className="h-4 w-4 mr-2" /> {unlocking ? "Unlocking..." : "Unlock"}</Button>
               ) : (
-                <Button className="w-full h-12 rounded-xl" onClick={handleSetPasscode}><Save className="h-4 w-4 mr-2" /> Save Passcode</Button>
+                <Button className="w-full h-12 rounded-xl" onClick={handleSetPasscode} disabled={unlocking}><Save className="h-4 w-4 mr-2" /> Create Profile</Button>
               )}
             </CardContent>
           </Card>
@@ -300,28 +895,156 @@ export default function App() {
   }
 
   /*************** Data (Projects) ***************/
-  function openDataPrompt() {
-    setDataForm({ id: "", address: "", scope: "" });
+  function openDataPrompt(project?: ProjectMeta) {
+    setEditingProject(project);
     setDataDialogOpen(true);
   }
 
-  function saveProject() {
-    const id = dataForm.id.trim();
-    if (!id) return toast.error("Please enter a Project ID.");
+  /** Saves the data dialog; the dialog has already checked every field. */
+  function saveProject(draft: ProjectDraft) {
+    const id = draft.id.trim();
     const now = Date.now();
     const next: Record<string, ProjectMeta> = { ...projects };
     const prev = next[id];
     next[id] = {
+      ...prev,
       id,
-      address: dataForm.address.trim(),
-      scope: dataForm.scope.trim(),
+      ...projectDetails(draft, sortFields(projectFields), prev),
       createdAt: prev?.createdAt ?? now,
       updatedAt: now,
+      createdBy: prev ? prev.createdBy : currentAuthor(),
+      updatedBy: currentAuthor(),
     };
     setProjects(next);
     toast.success(prev ? "Project updated." : "Project created.");
     setDataDialogOpen(false);
-    setView("home");
+    if (view !== "projects") setView("home");
+  }
+
+  function saveTemplate(template: ChecklistTemplate) {
+    setTemplates((cur) => ({ ...cur, [template.id]: template }));
+    toast.success("Template saved.");
+  }
+
+  function saveProjectField(field: ProjectField) {
+    setProjectFields((cur) => ({ ...cur, [field.id]: field }));
+    toast.success("Field saved.");
+  }
+
+  function deleteProjectField(id: string) {
+    setProjectFields((cur) => {
+      const next = { ...cur };
+      delete next[id];
+      return next;
+    });
+    toast.success("Field deleted.");
+  }
+
+  function deleteTemplate(id: string) {
+    setTemplates((cur) => {
+      const next = { ...cur };
+      delete next[id];
+      return next;
+    });
+    toast.success("Template deleted.");
+  }
+
+  function toggleArchiveProject(id: string) {
+    const archived = !!projects[id]?.archived;
+    updateProjectMeta(id, (p) => ({ ...p, archived: !archived }));
+    toast.success(archived ? "Project restored." : "Project archived.");
+  }
+
+  /** Changes a project's metadata, creating it if only inspections exist so far (their details were never entered). */
+  function updateProjectMeta(id: string, change: (project: ProjectMeta) => ProjectMeta) {
+    const now = Date.now();
+    setProjects((cur) => {
+      const prev: ProjectMeta = cur[id] ?? { id, address: "", scope: "", createdAt: now, updatedAt: now, createdBy: currentAuthor() };
+      return { ...cur, [id]: { ...change(prev), updatedAt: now, updatedBy: currentAuthor() } };
+    });
+  }
+
+  /** Removes photos that no longer exist from the project's punch list, so it never shows a broken image. */
+  function dropDeficiencyPhotos(projectId: string, keys: string[]) {
+    if (!usesPhotos(projects[projectId]?.deficiencies, keys)) return;
+    updateProjectMeta(projectId, (p) => ({ ...p, deficiencies: withoutPhotos(p.deficiencies, keys) }));
+  }
+
+  async function renameProject(fromId: string, rawToId: string): Promise<boolean> {
+    const toId = rawToId.trim();
+    if (!toId) {
+      toast.error("Enter a new Project ID.");
+      return false;
+    }
+    if (toId === fromId) return true;
+    if (projects[toId] || inspections[toId]) {
+      toast.error(`Project ${toId} already exists.`);
+      return false;
+    }
+
+    // Entries and photos move in one transaction; if it fails, nothing has moved
+    const renames: Record<string, string> = {};
+    const entries = (inspections[fromId] || []).map((e) => rekeyEntry(e, fromId, toId, renames));
+    try {
+      await idbCommit({ deleteEntries: [{ projectId: fromId }], putEntries: entries.map((entry) => ({ projectId: toId, entry })), renamePhotos: renames });
+    } catch {
+      toast.error("Could not move inspections and photos. Project was not renamed.");
+      return false;
+    }
+    forgetPhotoURLs(Object.keys(renames));
+
+    const nextProjects = { ...projects };
+    const meta = nextProjects[fromId];
+    delete nextProjects[fromId];
+    if (meta) nextProjects[toId] = { ...meta, id: toId, deficiencies: rekeyDeficiencies(meta.deficiencies, renames), updatedAt: Date.now(), updatedBy: currentAuthor() };
+    const nextInspections = { ...inspections };
+    delete nextInspections[fromId];
+    if (entries.length > 0) nextInspections[toId] = entries;
+
+    setProjects(nextProjects);
+    setInspections(nextInspections);
+    if (activeProjectId === fromId) setActiveProjectId(toId);
+    toast.success(`Project renamed to ${toId}.`);
+    return true;
+  }
+
+  async function deleteProject(id: string) {
+    const keys = (inspections[id] || []).flatMap(entryBlobKeys);
+    try {
+      await idbCommit({ deleteEntries: [{ projectId: id }], deletePhotos: keys });
+    } catch {
+      return toast.error("Could not remove inspections and photos. Project was not deleted.");
+    }
+    forgetPhotoURLs(keys);
+    setProjects((cur) => {
+      const next = { ...cur };
+      delete next[id];
+      return next;
+    });
+    setInspections((cur) => {
+      const next = { ...cur };
+      delete next[id];
+      return next;
+    });
+    if (activeProjectId === id) setActiveProjectId(null);
+    toast.success(`Project ${id} deleted.`);
+  }
+
+  /*************** Backup ***************/
+  async function applyImport(plan: ImportPlan) {
+    // One transaction: if it fails, nothing local has been touched
+    await idbCommit({
+      clearEntries: true,
+      putEntries: Object.entries(plan.inspections).flatMap(([projectId, list]) => list.map((entry) => ({ projectId, entry }))),
+      deletePhotos: plan.photosToDelete,
+      putPhotos: plan.photosToWrite,
+    });
+    forgetPhotoURLs([...Object.keys(plan.photosToWrite), ...plan.photosToDelete]);
+    auditVia.current = "import";
+    setProjects(plan.projects);
+    setInspections(plan.inspections);
+    setTemplates(plan.templates);
+    setProjectFields(plan.projectFields);
   }
 
   /*************** Inspection ***************/
@@ -334,49 +1057,581 @@ export default function App() {
     const id = inspectionId.trim();
     if (!id) return toast.error("Enter a Project ID.");
     setActiveProjectId(id);
+    setTimelineFilter({});
     setView("inspectionProject");
     setInspectionDialogOpen(false);
   }
 
   async function saveInspectionEntry() {
-    if (!activeProjectId) return;
+    if (!activeProjectId || saving) return;
     if (!entryDate || !entryTime) return toast.error("Enter date and time.");
+    const projectId = activeProjectId;
+    setSaving(true);
 
     const entryId = `${Date.now()}`;
     const photoKeys: string[] = [];
+    const photoMeta: Record<string, PhotoMeta> = {};
+    const blobs: Record<string, Blob> = {};
+
+    // Locate while the photos are processed; a failed fix never blocks the save
+    const locating: Promise<GeoPosition | undefined> = captureLocation
+      ? currentPosition().catch((err: Error) => {
+          toast(`${err.message} Saved without location.`);
+          return undefined;
+        })
+      : Promise.resolve(undefined);
+
+    try {
+      // Prepare every photo first, then store the entry and its photos in one transaction
+      for (let i = 0; i < entryPhotos.length; i++) {
+        const key = photoKey(projectId, entryId, i);
+        const exif = await preparePhoto(key, entryPhotos[i], blobs);
+        if (exif) photoMeta[key] = { exif };
+        photoKeys.push(key);
+      }
+
+      // Checklist item photos continue the entry's photo numbering
+      let index = photoKeys.length;
+      let checklist: ChecklistResult | undefined;
+      if (entryChecklist) {
+        checklist = { ...entryChecklist, sections: [] };
+        for (const section of entryChecklist.sections) {
+          const items = [];
+          for (const item of section.items) {
+            const keys: string[] = [];
+            for (const file of checklistPhotos[item.id] || []) {
+              const key = photoKey(projectId, entryId, index++);
+              const exif = await preparePhoto(key, file, blobs);
+              if (exif) photoMeta[key] = { exif };
+              keys.push(key);
+            }
+            items.push({ ...item, comment: item.comment.trim(), photoKeys: keys });
+          }
+          checklist.sections.push({ ...section, items });
+        }
+      }
+
+      const attachments = entryAttachments.map((p, i) => prepareAttachment(attachmentKey(projectId, entryId, i), p, blobs));
+
+      const entry: InspectionEntry = {
+        id: entryId,
+        date: entryDate,
+        time: entryTime,
+        notes: notesRef.current?.value?.trim() || "",
+        photoKeys,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        checklist,
+        annotations: pruneAnnotations(Object.fromEntries(photoKeys.map((k, i) => [k, pendingAnnotations.get(entryPhotos[i]) || []]))),
+        photoMeta: Object.keys(photoMeta).length > 0 ? photoMeta : undefined,
+        location: await locating,
+        author: currentAuthor(),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+
+      await idbCommit({ putEntries: [{ projectId, entry }], putPhotos: blobs });
+      setInspections((cur) => ({ ...cur, [projectId]: sortEntries([...(cur[projectId] || []), entry]) }));
+    } catch (err) {
+      return toast.error(saveError(err));
+    } finally {
+      setSaving(false);
+    }
+
+    if (notesRef.current) notesRef.current.value = "";
+    setEntryPhotos([]);
+    setPendingAnnotations(new Map());
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    setEntryAttachments([]);
+    setEntryChecklist(activeTemplate ? startChecklist(activeTemplate) : null);
+    setChecklistPhotos({});
+    if (startedVisit?.projectId === projectId) {
+      const { visitId } = startedVisit;
+      updateProjectMeta(projectId, (p) => ({ ...p, visits: (p.visits || []).filter((v) => v.id !== visitId) }));
+      setStartedVisit(null);
+    }
+    toast.success("Inspection saved.");
+    if (Object.keys(blobs).length > 0) checkQuota();
+  }
 
-    // Save photos to IndexedDB
-    for (let i = 0; i < entryPhotos.length; i++) {
-      const file = entryPhotos[i];
-      const key = `${activeProjectId}/inspections/${entryId}/photo-${i}`;
-      await idbSet(key, file);
-      photoKeys.push(key);
+  async function updateInspectionEntry(projectId: string, entryId: string, draft: EntryDraft) {
+    const prev = (inspections[projectId] || []).find((e) => e.id === entryId);
+    if (!prev) return;
+    if (!draft.date || !draft.time) return toast.error("Enter date and time.");
+
+    const notes = draft.notes.trim();
+    const unchanged =
+      prev.date === draft.date &&
+      prev.time === draft.time &&
+      prev.notes === notes &&
+      draft.newPhotos.length === 0 &&
+      prev.photoKeys.join("|") === draft.photoKeys.join("|") &&
+      draft.newAttachments.length === 0 &&
+      (prev.attachments || []).map((a) => a.key).join("|") === draft.attachments.map((a) => a.key).join("|");
+    if (unchanged) {
+      setEditingEntry(null);
+      return toast("No changes.");
     }
 
-    const notes = notesRef.current?.value?.trim() || "";
+    // New photos continue the entry's numbering so keys never collide with older revisions
+    const photoKeys = [...draft.photoKeys];
+    const photoMeta = { ...prev.photoMeta };
+    let index = nextPhotoIndex(prev);
+    const blobs: Record<string, Blob> = {};
+    try {
+      for (const file of draft.newPhotos) {
+        const key = photoKey(projectId, entryId, index++);
+        const exif = await preparePhoto(key, file, blobs);
+        if (exif) photoMeta[key] = { exif };
+        photoKeys.push(key);
+      }
+    } catch (err) {
+      return toast.error(saveError(err));
+    }
+    let attachmentIndex = nextAttachmentIndex(prev);
+    const attachments = [...draft.attachments, ...draft.newAttachments.map((p) => prepareAttachment(attachmentKey(projectId, entryId, attachmentIndex++), p, blobs))];
 
+    // Removed photos and attachments stay in IndexedDB: the revision below still references them
+    const now = Date.now();
+    const revision: InspectionRevision = { date: prev.date, time: prev.time, notes: prev.notes, photoKeys: prev.photoKeys, attachments: prev.attachments, revisedAt: now, revisedBy: currentAuthor() };
     const entry: InspectionEntry = {
-      id: entryId,
-      date: entryDate,
-      time: entryTime,
+      ...prev,
+      date: draft.date,
+      time: draft.time,
       notes,
       photoKeys,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      photoMeta: Object.keys(photoMeta).length > 0 ? photoMeta : undefined,
+      updatedAt: now,
+      updatedBy: currentAuthor(),
+      revisions: [...(prev.revisions || []), revision],
     };
 
-    const next = { ...inspections };
-    next[activeProjectId] = [...(next[activeProjectId] || []), entry].sort((a, b) => {
-      const ta = new Date(`${a.date}T${a.time}:00`).getTime();
-      const tb = new Date(`${b.date}T${b.time}:00`).getTime();
-      return tb - ta; // newest first
+    try {
+      await idbCommit({ putEntries: [{ projectId, entry }], putPhotos: blobs });
+    } catch (err) {
+      return toast.error(saveError(err));
+    }
+    setInspections((cur) => ({
+      ...cur,
+      [projectId]: sortEntries((cur[projectId] || []).map((e) => (e.id === entryId ? entry : e))),
+    }));
+    setEditingEntry(null);
+    toast.success("Inspection updated.");
+  }
+
+  async function deleteInspectionEntry(projectId: string, entryId: string) {
+    const entry = (inspections[projectId] || []).find((e) => e.id === entryId);
+    if (!entry) return;
+    const keys = entryBlobKeys(entry);
+    try {
+      await idbCommit({ deleteEntries: [{ projectId, entryId }], deletePhotos: keys });
+    } catch {
+      return toast.error("Could not delete the entry.");
+    }
+    forgetPhotoURLs(keys);
+    setInspections((cur) => ({ ...cur, [projectId]: (cur[projectId] || []).filter((e) => e.id !== entryId) }));
+    dropDeficiencyPhotos(projectId, keys);
+    setDeletingEntry(null);
+    toast.success("Inspection deleted.");
+  }
+
+  /*************** Sign-off ***************/
+  /** Opens the sign-off dialog for an entry ({ entryId }) or a report range ({ range }). */
+  async function openSignOff(target: { projectId: string; entryId: string } | { projectId: string; range: DateRange }) {
+    let own: { name: string; signature?: string } | undefined;
+    if (user) own = { name: user.name, signature: user.signature ? await decryptJSON<string>(user.signature).catch(() => undefined) : undefined };
+    if ("entryId" in target) {
+      const entry = (inspections[target.projectId] || []).find((e) => e.id === target.entryId);
+      if (!entry) return;
+      setSigning({ ...target, subject: `Inspection ${entry.date} ${entry.time}, project ${target.projectId}`, own });
+    } else {
+      setSigning({ ...target, subject: `Report for project ${target.projectId}, ${describeRange(target.range)}`, own });
+    }
+  }
+
+  /** Stores a sign-off with the hash of the content as it is now. */
+  async function signOff(fields: SignOffFields) {
+    if (!signing) return;
+    const { projectId } = signing;
+    const base = { id: crypto.randomUUID(), ...fields, signedAt: Date.now(), recordedBy: currentAuthor() };
+    try {
+      if ("entryId" in signing) {
+        const entry = (inspections[projectId] || []).find((e) => e.id === signing.entryId);
+        if (!entry) return;
+        const signed: SignOff = { ...base, contentHash: await entryContentHash(entry, idbGet) };
+        if (!(await updateEntry(projectId, entry.id, (e) => ({ ...e, signOffs: [...(e.signOffs || []), signed] })))) return;
+      } else {
+        const { range } = signing;
+        const contentHash = await reportContentHash(entriesInRange(inspections[projectId] || [], range), idbGet);
+        const signed = { ...base, contentHash, from: range.from, to: range.to };
+        updateProjectMeta(projectId, (p) => ({ ...p, signOffs: [...(p.signOffs || []), signed] }));
+      }
+    } catch {
+      toast.error("Could not read the photos to sign. Nothing was signed.");
+      return;
+    }
+    setSigning(null);
+    toast.success("Signed off.");
+  }
+
+  /** Opens a project's timeline, at one entry when given (limited to its day so it is easy to spot). */
+  function openInTimeline(projectId: string, entry?: InspectionEntry) {
+    setActiveProjectId(projectId);
+    setTimelineFilter(entry ? { from: entry.date, to: entry.date } : {});
+    setFocusEntryId(entry ? entry.id : null);
+    setView("inspectionProject");
+  }
+
+  useEffect(() => {
+    if (view !== "inspectionProject" || !focusEntryId) return;
+    const id = focusEntryId;
+    requestAnimationFrame(() => document.getElementById(`entry-${id}`)?.scrollIntoView({ behavior: "smooth", block: "center" }));
+    const timer = window.setTimeout(() => setFocusEntryId((cur) => (cur === id ? null : cur)), 3000);
+    return () => window.clearTimeout(timer);
+  }, [view, focusEntryId]);
+
+  /*************** Links ***************/
+  /** Opens the timeline or report a link names, when the project exists; otherwise home. */
+  function openLink(link: FilterLink | null, p: Record<string, ProjectMeta>, i: Record<string, InspectionEntry[]>) {
+    if (!link || !(p[link.projectId] || i[link.projectId])) {
+      setView("home");
+      return;
+    }
+    setActiveProjectId(link.projectId);
+    if (link.screen === "report") {
+      setReportFilter(link.filter);
+      setView("report");
+    } else {
+      setTimelineFilter(link.filter);
+      setView("inspectionProject");
+    }
+  }
+
+  // Mirrors the open timeline or report and its filters in the URL, so it can be bookmarked or reloaded.
+  // Left alone while signed out, so signing in (again) opens what the URL names.
+  useEffect(() => {
+    if (!authed) return;
+    const screen = view === "inspectionProject" ? "timeline" : view === "report" ? "report" : null;
+    const query = screen && activeProjectId ? linkQuery({ screen, projectId: activeProjectId, filter: screen === "report" ? reportFilter : timelineFilter }) : "";
+    if (query !== location.search) history.replaceState(history.state, "", `${location.pathname}${query}${location.hash}`);
+  }, [authed, view, activeProjectId, timelineFilter, reportFilter]);
+
+  /*************** Planned visits ***************/
+  function planVisit(projectId: string, fields: Pick<PlannedVisit, "date" | "time" | "purpose">) {
+    const visit: PlannedVisit = { id: crypto.randomUUID(), ...fields, createdAt: Date.now(), createdBy: currentAuthor() };
+    updateProjectMeta(projectId, (p) => ({ ...p, visits: [...(p.visits || []), visit] }));
+    toast.success(`Visit planned for ${fields.date}.`);
+  }
+
+  function deleteVisit(projectId: string, visitId: string) {
+    updateProjectMeta(projectId, (p) => ({ ...p, visits: (p.visits || []).filter((v) => v.id !== visitId) }));
+    if (startedVisit?.visitId === visitId) setStartedVisit(null);
+    toast.success("Planned visit removed.");
+  }
+
+  /** Opens the project's inspection form set to the visit's day and time; saving the entry removes the visit. */
+  function startVisit(projectId: string, visit: PlannedVisit) {
+    setActiveProjectId(projectId);
+    setTimelineFilter({});
+    setEntryDate(visit.date);
+    setEntryTime(visit.time || new Date().toTimeString().slice(0, 5));
+    setStartedVisit({ projectId, visitId: visit.id });
+    setView("inspectionProject");
+  }
+
+  /*************** Deficiencies ***************/
+  function updateDeficiencies(projectId: string, change: (list: Deficiency[]) => Deficiency[]) {
+    updateProjectMeta(projectId, (p) => ({ ...p, deficiencies: change(p.deficiencies || []) }));
+  }
+
+  /** Logs a deficiency found in the entry being edited in the dialog, or saves changes to an existing one. */
+  function saveDeficiency(fields: DeficiencyFields) {
+    if (!deficiencyEdit) return;
+    const { projectId, entryId, deficiencyId } = deficiencyEdit;
+    const now = Date.now();
+    if (deficiencyId) {
+      updateDeficiencies(projectId, (list) => list.map((d) => (d.id === deficiencyId ? { ...d, ...fields, updatedAt: now, updatedBy: currentAuthor() } : d)));
+      toast.success("Deficiency updated.");
+    } else {
+      const created: Deficiency = { id: crypto.randomUUID(), ...fields, status: "open", foundIn: entryId, createdAt: now, updatedAt: now, createdBy: currentAuthor(), updatedBy: currentAuthor() };
+      updateDeficiencies(projectId, (list) => [...list, created]);
+      toast.success("Deficiency logged.");
+    }
+    setDeficiencyEdit(null);
+  }
+
+  /** Closes a deficiency from a later entry, with that entry's photos of the fix. */
+  function resolveDeficiency(deficiencyId: string, afterPhotoKeys: string[]) {
+    if (!resolving) return;
+    const { projectId, entryId } = resolving;
+    updateDeficiencies(projectId, (list) =>
+      list.map((d) => (d.id === deficiencyId ? { ...d, status: "resolved", closedIn: entryId, afterPhotoKeys, updatedAt: Date.now(), updatedBy: currentAuthor() } : d))
+    );
+    setResolving(null);
+    toast.success("Deficiency resolved.");
+  }
+
+  /** Moves a deficiency along the punch list. Reopening drops the entry and photos that had resolved it. */
+  function setDeficiencyStatus(projectId: string, deficiency: Deficiency, status: DeficiencyStatus) {
+    const reopened = status === "open" || status === "in_progress";
+    updateDeficiencies(projectId, (list) =>
+      list.map((d) =>
+        d.id === deficiency.id
+          ? { ...d, status, closedIn: reopened ? undefined : d.closedIn, afterPhotoKeys: reopened ? undefined : d.afterPhotoKeys, updatedAt: Date.now(), updatedBy: currentAuthor() }
+          : d
+      )
+    );
+    toast.success(`${deficiency.title}: ${STATUS_LABELS[status].toLowerCase()}.`);
+  }
+
+  function deleteDeficiency(projectId: string, deficiency: Deficiency) {
+    updateDeficiencies(projectId, (list) => list.filter((d) => d.id !== deficiency.id));
+    toast.success("Deficiency deleted.");
+  }
+
+  async function openSavedAnnotator(projectId: string, entry: InspectionEntry, key: string) {
+    const src = await photoURLFromKey(key);
+    if (!src) return toast.error("Photo is missing.");
+    setAnnotating({ src, shapes: entry.annotations?.[key] || [], projectId, entryId: entry.id, key });
+  }
+
+  /** Stores the editor's layer: on the pending file, or on the saved entry (no revision, the photo is unchanged). */
+  async function saveAnnotations(shapes: Annotation[]) {
+    if (!annotating) return;
+    if ("file" in annotating) {
+      const { file, src } = annotating;
+      setPendingAnnotations((cur) => new Map(cur).set(file, shapes));
+      URL.revokeObjectURL(src);
+    } else {
+      const { projectId, entryId, key } = annotating;
+      if (await updateEntry(projectId, entryId, (e) => ({ ...e, annotations: pruneAnnotations({ ...e.annotations, [key]: shapes }) }))) {
+        toast.success("Annotations saved.");
+      }
+    }
+    setAnnotating(null);
+  }
+
+  /*************** Photo viewer ***************/
+  /** Photos the viewer swipes through: the open photo's entry, or every entry of the project in timeline order. */
+  function viewerPhotos(): ViewerPhoto[] {
+    if (!viewer) return [];
+    const list = inspections[viewer.projectId] || [];
+    const entries = viewer.scope === "project" ? list : list.filter((e) => visiblePhotoKeys(e).includes(viewer.key));
+    return entries.flatMap((e) =>
+      visiblePhotoKeys(e).map((key) => {
+        const mismatch = exifMismatchHours(e, e.photoMeta?.[key]?.exif);
+        return { key, entryId: e.id, label: `${e.date} ${e.time}`, annotations: e.annotations?.[key], meta: e.photoMeta?.[key], warning: mismatch ? describeMismatch(mismatch) : undefined };
+      })
+    );
+  }
+
+  /** Changes a saved entry (plus any photo deletes) in one commit. False, after telling the user, if it could not be stored. */
+  async function updateEntry(projectId: string, entryId: string, change: (entry: InspectionEntry) => InspectionEntry, photos: Pick<DBChange, "deletePhotos"> = {}): Promise<boolean> {
+    const prev = (inspections[projectId] || []).find((e) => e.id === entryId);
+    if (!prev) return false;
+    const entry = { ...change(prev), updatedAt: Date.now(), updatedBy: currentAuthor() };
+    try {
+      await idbCommit({ ...photos, putEntries: [{ projectId, entry }] });
+    } catch {
+      toast.error("Could not save the change.");
+      return false;
+    }
+    setInspections((cur) => ({ ...cur, [projectId]: (cur[projectId] || []).map((e) => (e.id === entryId ? entry : e)) }));
+    return true;
+  }
+
+  /** Saves a photo's caption and tags; its EXIF is kept as read. */
+  async function savePhotoMeta(photo: ViewerPhoto, meta: Pick<PhotoMeta, "caption" | "tags">) {
+    if (!viewer) return;
+    const saved = await updateEntry(viewer.projectId, photo.entryId, (e) => {
+      const { [photo.key]: prev, ...rest } = e.photoMeta || {};
+      const merged: PhotoMeta = { ...prev, ...meta };
+      const next = merged.caption || merged.tags?.length || merged.exif ? { ...rest, [photo.key]: merged } : rest;
+      return { ...e, photoMeta: Object.keys(next).length > 0 ? next : undefined };
+    });
+    if (saved) toast.success("Photo details saved.");
+  }
+
+  /** Removes a photo from its entry (and the entry's history) and deletes its Blob. */
+  async function deletePhoto(photo: ViewerPhoto) {
+    if (!viewer) return;
+    const photos = viewerPhotos();
+    const i = photos.findIndex((p) => p.key === photo.key);
+    const neighbour = photos[i + 1] ?? photos[i - 1];
+    if (!(await updateEntry(viewer.projectId, photo.entryId, (e) => removePhoto(e, photo.key), { deletePhotos: [photo.key] }))) return;
+    forgetPhotoURLs([photo.key]);
+    dropDeficiencyPhotos(viewer.projectId, [photo.key]);
+    setDeletingPhoto(null);
+    setViewer(neighbour ? { ...viewer, key: neighbour.key } : null);
+    toast.success("Photo deleted.");
+  }
+
+  /**
+   * Compresses a picked file per the photo settings into `blobs`, with its thumbnail. Returns the file's EXIF,
+   * or nothing when EXIF is not kept: what is stripped from the photo must not reach the entry either.
+   */
+  async function preparePhoto(key: string, file: File, blobs: Record<string, Blob>): Promise<PhotoExif | undefined> {
+    const exif = photoSettings.keepExif ? await parseExif(file) : undefined;
+    const { photo, thumb } = await processPhoto(file, photoSettings);
+    blobs[key] = photo;
+    if (thumb) blobs[thumbKey(key)] = thumb;
+    return exif;
+  }
+
+  /** Adds a picked or recorded file to `blobs` as it is (no processing) and describes it for the entry. */
+  function prepareAttachment(key: string, pending: PendingAttachment, blobs: Record<string, Blob>): Attachment {
+    const { file, name, durationMs } = pending;
+    blobs[key] = file;
+    return { key, kind: attachmentKind(file.type), name, type: file.type || "application/octet-stream", size: file.size, durationMs, createdAt: Date.now() };
+  }
+
+  function saveError(err: unknown): string {
+    return err instanceof DOMException && err.name === "QuotaExceededError"
+      ? "Storage is full. Nothing was saved. Free up space on the Storage screen."
+      : "Could not save the inspection. Nothing was stored.";
+  }
+
+  /*************** Sync ***************/
+  /** One sync run. Overlapping requests are folded into a follow-up run; failures retry with backoff. */
+  async function runSync(choices: Record<string, SyncChoice> = {}) {
+    const run = syncRun.current;
+    const { projects: before, inspections: beforeEntries, syncSettings: settings, syncState: state } = syncLatest.current;
+    if (!settings.endpoint || !hasSessionKey()) return;
+    if (run.running) {
+      run.again = true;
+      return;
+    }
+    if (!navigator.onLine) return setSyncStatus("offline");
+
+    run.running = true;
+    window.clearTimeout(run.retryTimer);
+    setSyncStatus("syncing");
+    try {
+      const result = await syncOnce({ settings, state, projects: before, inspections: beforeEntries, choices, loadPhoto: idbGet, hasPhoto: idbHas });
+      if (!hasSessionKey()) return; // locked meanwhile
+      await applySynced(result, localRecords(before, beforeEntries));
+      await quarantineSkipped(result.skipped);
+      setSyncState(result.state);
+      await saveSealed(LS_SYNC_STATE_KEY, result.state);
+      run.attempts = 0;
+      setSyncError(undefined);
+      setSyncStatus(result.state.conflicts.length > 0 ? "conflict" : "idle");
+    } catch (err) {
+      setSyncError((err as Error).message);
+      setSyncStatus(navigator.onLine ? "error" : "offline");
+      run.retryTimer = window.setTimeout(() => runSync(), Math.min(SYNC_MAX_RETRY_MS, SYNC_RETRY_MS * 2 ** run.attempts++));
+    } finally {
+      run.running = false;
+    }
+    if (run.again) {
+      run.again = false;
+      runSync();
+    }
+  }
+
+  /** Sets aside pulled records that failed validation: the cursor has moved past them, so they would be lost otherwise. */
+  async function quarantineSkipped(skipped: SyncResult["skipped"]) {
+    if (skipped.length === 0) return;
+    const quarantinedAt = Date.now();
+    const quarantine = await Promise.all(skipped.map(async ({ id, reason, record }) => ({ source: "sync", label: id, reason, data: await encryptJSON(record), quarantinedAt })));
+    await idbCommit({ quarantine });
+    toast.warning(`${skipped.length} damaged record(s) from the sync server were set aside.`, {
+      action: { label: "Review", onClick: () => setView("storage") },
+    });
+  }
+
+  /** Writes what a run took from the server. Records edited locally while it ran are left alone; they are pushed next run. */
+  async function applySynced({ take, photos }: SyncResult, before: ReturnType<typeof localRecords>) {
+    const { projects: curProjects, inspections: curEntries } = syncLatest.current;
+    const current = localRecords(curProjects, curEntries);
+    const records = take.filter((rec) => before.get(rec.id)?.updatedAt === current.get(rec.id)?.updatedAt);
+    if (records.length === 0) return;
+
+    const putEntries: { projectId: string; entry: InspectionEntry }[] = [];
+    const deleteEntries: { projectId: string; entryId: string }[] = [];
+    const deletePhotos: string[] = [];
+    records.forEach((rec) => {
+      if (!rec.id.startsWith("entry:")) return;
+      const entryId = rec.id.slice(`entry:${rec.projectId}/`.length);
+      const old = current.get(rec.id)?.entry;
+      const kept = new Set(rec.entry && !rec.deleted ? entryBlobKeys(rec.entry) : []);
+      if (old) deletePhotos.push(...entryBlobKeys(old).filter((k) => !kept.has(k)));
+      if (rec.deleted) deleteEntries.push({ projectId: rec.projectId, entryId });
+      else if (rec.entry) putEntries.push({ projectId: rec.projectId, entry: rec.entry });
     });
+    await idbCommit({ deleteEntries, putEntries, deletePhotos, putPhotos: photos });
+    forgetPhotoURLs(deletePhotos);
+    auditVia.current = "sync";
+
+    setProjects((cur) => {
+      const next = { ...cur };
+      records.forEach((rec) => {
+        if (!rec.id.startsWith("project:")) return;
+        if (rec.deleted) delete next[rec.projectId];
+        else if (rec.project) next[rec.projectId] = rec.project;
+      });
+      return next;
+    });
+    setInspections((cur) => {
+      const next = { ...cur };
+      deleteEntries.forEach(({ projectId, entryId }) => (next[projectId] = (next[projectId] || []).filter((e) => e.id !== entryId)));
+      putEntries.forEach(({ projectId, entry }) => (next[projectId] = sortEntries([...(next[projectId] || []).filter((e) => e.id !== entry.id), entry])));
+      Object.keys(next).forEach((id) => next[id].length === 0 && delete next[id]);
+      return next;
+    });
+  }
+
+  async function updateSyncSettings(next: SyncSettings) {
+    const serverChanged = next.endpoint !== syncSettings.endpoint;
+    setSyncSettings(next);
+    await saveSealed(LS_SYNC_SETTINGS_KEY, next);
+    if (serverChanged) {
+      // A different server shares no history with this one
+      setSyncState(EMPTY_SYNC_STATE);
+      await saveSealed(LS_SYNC_STATE_KEY, EMPTY_SYNC_STATE);
+    }
+    setSyncError(undefined);
+    setSyncStatus(next.endpoint ? "idle" : "off");
+    toast.success(next.endpoint ? "Sync settings saved." : "Sync turned off.");
+  }
+
+  /*************** Storage ***************/
+  async function discardQuarantined(ids: number[]) {
+    await idbCommit({ discardQuarantined: ids });
+  }
+
+  async function purgePhotos(keys: string[]) {
+    await idbCommit({ deletePhotos: keys });
+    forgetPhotoURLs(keys);
+  }
 
+  /** Drops references to photos whose Blob no longer exists. */
+  async function repairMissingPhotos(missing: MissingPhoto[]) {
+    const next = { ...inspections };
+    missing.forEach(({ projectId, entryId, key }) => {
+      next[projectId] = (next[projectId] || []).map((e) => (e.id === entryId ? removePhoto(e, key) : e));
+    });
+    const putEntries = Object.entries(next).flatMap(([projectId, list]) => list.filter((e) => !inspections[projectId]?.includes(e)).map((entry) => ({ projectId, entry })));
+    try {
+      await idbCommit({ putEntries });
+    } catch {
+      return toast.error("Could not repair the entries.");
+    }
     setInspections(next);
-    if (notesRef.current) notesRef.current.value = "";
-    setEntryPhotos([]);
-    if (fileInputRef.current) fileInputRef.current.value = "";
-    toast.success("Inspection saved.");
+    Array.from(new Set(missing.map((m) => m.projectId))).forEach((projectId) =>
+      dropDeficiencyPhotos(projectId, missing.filter((m) => m.projectId === projectId).map((m) => m.key))
+    );
+    toast.success(`Removed ${missing.length} missing file reference(s).`);
+  }
+
+  function updateCaptureLocation(next: boolean) {
+    setCaptureLocation(next);
+    localStorage.setItem(LS_LOCATION_KEY, next ? "1" : "0");
+  }
+
+  function updatePhotoSettings(next: PhotoSettings) {
+    setPhotoSettings(next);
+    localStorage.setItem(LS_PHOTO_SETTINGS_KEY, JSON.stringify(next));
   }
 
   async function photoURLFromKey(key: string): Promise<string> {
@@ -388,10 +1643,41 @@ export default function App() {
     return url;
   }
 
+  /** Thumbnail URL for grids. Photos saved before thumbnails existed get one built (and stored) on first view. */
+  async function thumbURLFromKey(key: string): Promise<string> {
+    const tk = thumbKey(key);
+    if (photoURLCache.has(tk)) return photoURLCache.get(tk)!;
+    let thumb = await idbGet(tk);
+    if (!thumb) {
+      const full = await idbGet(key);
+      if (!full) return "";
+      thumb = await createThumbnail(full);
+      if (!thumb) return photoURLFromKey(key);
+      await idbCommit({ putPhotos: { [tk]: thumb } }).catch(() => undefined); // best effort: rebuilt next time if this fails
+    }
+    const url = URL.createObjectURL(thumb);
+    photoURLCache.set(tk, url);
+    return url;
+  }
+
+  /** Drops cached object URLs for keys whose Blobs were moved or deleted. */
+  function forgetPhotoURLs(keys: string[]) {
+    forgetPhotoHashes(keys);
+    keys.flatMap((k) => [k, thumbKey(k)]).forEach((k) => {
+      const url = photoURLCache.get(k);
+      if (url) URL.revokeObjectURL(url);
+      photoURLCache.delete(k);
+    });
+  }
+
   function removePendingPhoto(index: number) {
     setEntryPhotos((prev) => prev.filter((_, i) => i !== index));
   }
 
+  function removePendingAttachment(index: number) {
+    setEntryAttachments((prev) => prev.filter((_, i) => i !== index));
+  }
+
   function ProjectHeader({ id }: { id: string }) {
     const meta = projects[id];
     return (
@@ -404,6 +1690,13 @@ export default function App() {
           <div className="text-sm text-muted-foreground">
             <div><span className="font-medium">Address:</span> {meta.address || "—"}</div>
             <div><span className="font-medium">Scope:</span> {meta.scope || "—"}</div>
+            {(meta.client || meta.status) && (
+              <div>
+                {meta.client && <><span className="font-medium">Client:</span> {meta.client}</>}
+                {meta.client && meta.status && " · "}
+                {meta.status && PROJECT_STATUS_LABELS[meta.status]}
+              </div>
+            )}
           </div>
         ) : (
           <div className="text-sm text-amber-600">No metadata found. Create it in <span className="font-medium">Data</span>.</div>
@@ -413,8 +1706,31 @@ export default function App() {
   }
 
   function InspectionForm() {
+    const visits = [...(projects[activeProjectId || ""]?.visits || [])].sort((a, b) => a.date.localeCompare(b.date) || (a.time || "").localeCompare(b.time || ""));
+    const recording = startedVisit?.projectId === activeProjectId ? visits.find((v) => v.id === startedVisit.visitId) : undefined;
     return (
       <Section title="New Inspection Entry">
+        {recording ? (
+          <div className="flex items-center justify-between gap-2 bg-blue-50 border border-blue-200 text-blue-800 rounded-xl px-3 py-2">
+            <div className="text-sm">
+              Recording the visit planned for <span className="font-medium">{recording.date}{recording.time ? ` ${recording.time}` : ""}</span>
+              {recording.purpose ? `: ${recording.purpose}` : ""}
+            </div>
+            <Button size="sm" variant="outline" onClick={() => setStartedVisit(null)}>Unlink</Button>
+          </div>
+        ) : (
+          visits.length > 0 && (
+            <div className="space-y-1 rounded-xl border px-3 py-2">
+              <div className="text-xs font-medium text-muted-foreground">Planned visits</div>
+              {visits.slice(0, 3).map((v) => (
+                <div key={v.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{v.date}{v.time ? ` ${v.time}` : ""}{v.purpose ? ` · ${v.purpose}` : ""}</span>
+                  <Button size="sm" variant="ghost" onClick={() => startVisit(activeProjectId || "", v)}>Record</Button>
+                </div>
+              ))}
+            </div>
+          )
+        )}
         <div className="grid grid-cols-2 gap-3">
           <div className="space-y-1">
             <Label htmlFor="date"><Calendar className="inline h-4 w-4 mr-1" /> Date</Label>
@@ -452,31 +1768,61 @@ export default function App() {
               <div className="text-sm text-muted-foreground">{entryPhotos.length} file(s) selected.</div>
               <div className="grid grid-cols-4 gap-2">
                 {entryPhotos.map((f, i) => (
-                  <div key={`${f.name}-${i}`} className="relative aspect-square w-full overflow-hidden rounded-xl bg-neutral-100">
-                    <img src={URL.createObjectURL(f)} alt="preview" className="h-full w-full object-cover" />
-                    <button type="button" onClick={() => removePendingPhoto(i)} className="absolute top-1 right-1 bg-white/80 rounded-full p-1 shadow" title="Remove">
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </button>
-                  </div>
+                  <PendingPhoto
+                    key={`${f.name}-${i}`}
+                    file={f}
+                    annotations={pendingAnnotations.get(f)}
+                    onRemove={() => removePendingPhoto(i)}
+                    onAnnotate={() => setAnnotating({ src: URL.createObjectURL(f), shapes: pendingAnnotations.get(f) || [], file: f })}
+                  />
                 ))}
               </div>
             </div>
           )}
         </div>
 
-        <Button onClick={saveInspectionEntry} className="w-full h-12 rounded-xl"><Save className="h-4 w-4 mr-2" /> Save</Button>
+        <div className="space-y-2">
+          <Label htmlFor="attachments"><Paperclip className="inline h-4 w-4 mr-1" /> Voice notes and attachments</Label>
+          <VoiceRecorder onRecorded={(file, durationMs) => setEntryAttachments((prev) => [...prev, { file, name: nextVoiceNoteName(prev), durationMs }])} />
+          <Input
+            id="attachments"
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            onChange={(e) => {
+              const files = pickAttachments(e.target.files);
+              e.target.value = "";
+              if (files.length > 0) setEntryAttachments((prev) => [...prev, ...files]);
+            }}
+          />
+          {entryAttachments.length > 0 && <PendingAttachments pending={entryAttachments} onRemove={removePendingAttachment} />}
+        </div>
+
+        {entryChecklist && (
+          <div className="space-y-2">
+            <Label><ListChecks className="inline h-4 w-4 mr-1" /> Checklist — {entryChecklist.templateName}</Label>
+            <ChecklistForm value={entryChecklist} onChange={setEntryChecklist} pendingPhotos={checklistPhotos} onPendingPhotosChange={setChecklistPhotos} />
+          </div>
+        )}
+
+        <label className="flex items-center gap-3 text-sm">
+          <input type="checkbox" className="h-4 w-4" checked={captureLocation} onChange={(e) => updateCaptureLocation(e.target.checked)} />
+          <span><MapPin className="inline h-4 w-4 mr-1" /> Record my location with the entry</span>
+        </label>
+
+        <Button onClick={saveInspectionEntry} className="w-full h-12 rounded-xl" disabled={saving}><Save className="h-4 w-4 mr-2" /> {saving ? "Saving..." : "Save"}</Button>
       </Section>
     );
   }
 
-  function InspectionList({ projectId, filterDate }: { projectId: string; filterDate?: string | null }) {
-    let list = inspections[projectId] || [];
-    if (filterDate) list = list.filter((e) => e.date === filterDate);
+  function InspectionList({ projectId, filter }: { projectId: string; filter: EntryFilter }) {
+    const list = filterEntries(inspections[projectId] || [], filter);
+    const deficiencies = projects[projectId]?.deficiencies || [];
 
     if (list.length === 0) {
       return (
         <Card className="border-0 shadow-sm">
-          <CardContent className="py-10 text-center text-sm text-muted-foreground">No inspections{filterDate ? ` on ${filterDate}` : ''}.</CardContent>
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">No inspections{hasFilter(filter) ? " match these filters" : ""}.</CardContent>
         </Card>
       );
     }
@@ -484,7 +1830,7 @@ export default function App() {
     return (
       <div className="space-y-3">
         {list.map((entry) => (
-          <Card key={entry.id} className="border-0 shadow-sm">
+          <Card key={entry.id} id={`entry-${entry.id}`} className={`border-0 shadow-sm transition-shadow ${entry.id === focusEntryId ? "ring-2 ring-amber-400" : ""}`}>
             <CardHeader className="pb-2">
               <CardTitle className="text-base">
                 <div className="flex items-center justify-between">
@@ -492,25 +1838,90 @@ export default function App() {
                     <Calendar className="h-4 w-4" />
                     <span>{entry.date}</span>
                   </div>
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
                     <Clock className="h-4 w-4" />
-                    <span>{entry.time}</span>
+                    <span className="mr-1">{entry.time}</span>
+                    <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full" title="Sign off" onClick={() => openSignOff({ projectId, entryId: entry.id })}>
+                      <PenLine className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full" title="Edit" onClick={() => setEditingEntry(entry)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full" title="Delete" onClick={() => setDeletingEntry(entry)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </div>
                 </div>
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
+              {entry.author && (
+                <div className="text-xs text-muted-foreground">
+                  Inspected by {entry.author.name}
+                  {entry.updatedBy && entry.updatedBy.id !== entry.author.id ? ` · last edited by ${entry.updatedBy.name}` : ""}
+                </div>
+              )}
+
               {entry.notes && (
                 <div className="text-sm leading-relaxed whitespace-pre-wrap">{entry.notes}</div>
               )}
 
+              {entry.location && (
+                <a href={mapURL(entry.location.lat, entry.location.lng)} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-xs text-muted-foreground underline-offset-2 hover:underline">
+                  <MapPin className="h-3.5 w-3.5" /> {formatPosition(entry.location.lat, entry.location.lng)} (±{entry.location.accuracy} m)
+                </a>
+              )}
+
               {entry.photoKeys.length > 0 && (
                 <div className="grid grid-cols-3 gap-2">
                   {entry.photoKeys.map((k) => (
-                    <AsyncImage key={k} idKey={k} photoURLFromKey={photoURLFromKey} />
+                    <AsyncImage
+                      key={k}
+                      idKey={k}
+                      photoURLFromKey={thumbURLFromKey}
+                      annotations={entry.annotations?.[k]}
+                      onAnnotate={() => openSavedAnnotator(projectId, entry, k)}
+                      onOpen={() => setViewer({ projectId, key: k, scope: "entry" })}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {entry.attachments && entry.attachments.length > 0 && <AttachmentList attachments={entry.attachments} urlFromKey={photoURLFromKey} />}
+
+              {entry.checklist && (
+                <ChecklistSummary
+                  checklist={entry.checklist}
+                  photoURLFromKey={thumbURLFromKey}
+                  annotations={entry.annotations}
+                  onAnnotate={(k) => openSavedAnnotator(projectId, entry, k)}
+                  onOpenPhoto={(k) => setViewer({ projectId, key: k, scope: "entry" })}
+                />
+              )}
+
+              {deficiencies.some((d) => d.foundIn === entry.id || d.closedIn === entry.id) && (
+                <div className="space-y-1 text-sm">
+                  {deficiencies.filter((d) => d.foundIn === entry.id).map((d) => (
+                    <div key={d.id} className="flex items-center gap-2"><AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" /> {d.title} <span className="text-xs text-muted-foreground">({STATUS_LABELS[d.status].toLowerCase()})</span></div>
+                  ))}
+                  {deficiencies.filter((d) => d.closedIn === entry.id).map((d) => (
+                    <div key={d.id} className="flex items-center gap-2"><CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" /> Resolved: {d.title}</div>
                   ))}
                 </div>
               )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => setDeficiencyEdit({ projectId, entryId: entry.id })}><AlertTriangle /> Log deficiency</Button>
+                {deficiencies.some((d) => isOutstanding(d) && d.foundIn !== entry.id) && (
+                  <Button size="sm" variant="outline" onClick={() => setResolving({ projectId, entryId: entry.id })}><CheckCircle2 /> Resolve deficiency</Button>
+                )}
+              </div>
+
+              {entry.signOffs && entry.signOffs.length > 0 && (
+                <SignOffList signOffs={entry.signOffs} hash={() => entryContentHash(entry, idbGet)} version={entry.updatedAt} />
+              )}
+
+              {entry.revisions && entry.revisions.length > 0 && <RevisionHistory revisions={entry.revisions} />}
             </CardContent>
           </Card>
         ))}
@@ -518,18 +1929,50 @@ export default function App() {
     );
   }
 
+  function DeficiencyDialogs() {
+    const entryOf = (target: { projectId: string; entryId: string } | null) => target && (inspections[target.projectId] || []).find((e) => e.id === target.entryId);
+    const found = entryOf(deficiencyEdit);
+    const resolvingEntry = entryOf(resolving);
+    const editing = deficiencyEdit?.deficiencyId ? projects[deficiencyEdit.projectId]?.deficiencies?.find((d) => d.id === deficiencyEdit.deficiencyId) : undefined;
+    const outstanding = resolving ? (projects[resolving.projectId]?.deficiencies || []).filter((d) => isOutstanding(d) && d.foundIn !== resolving.entryId) : [];
+    return (
+      <>
+        <DeficiencyDialog
+          subject={deficiencyEdit ? (found ? `Found in inspection ${found.date} ${found.time}` : "Found in a deleted inspection") : null}
+          initial={editing}
+          photoKeys={found ? visiblePhotoKeys(found) : []}
+          photoURLFromKey={thumbURLFromKey}
+          onOpenChange={(open) => { if (!open) setDeficiencyEdit(null); }}
+          onSave={saveDeficiency}
+        />
+        <ResolveDeficiencyDialog
+          subject={resolvingEntry ? `Inspection ${resolvingEntry.date} ${resolvingEntry.time}` : null}
+          deficiencies={outstanding}
+          photoKeys={resolvingEntry ? visiblePhotoKeys(resolvingEntry) : []}
+          photoURLFromKey={thumbURLFromKey}
+          onOpenChange={(open) => { if (!open) setResolving(null); }}
+          onResolve={resolveDeficiency}
+        />
+      </>
+    );
+  }
+
   function HomeView() {
     return (
       <div className="max-w-md mx-auto p-4 space-y-4">
         <div className="text-center space-y-1">
           <h1 className="text-xl font-bold tracking-tight">XiHPD</h1>
           <p className="text-sm text-muted-foreground">Mobile-friendly project data, inspections, and reports. Stored locally.</p>
+          {user && <p className="text-xs text-muted-foreground">Signed in as {user.name}</p>}
         </div>
 
         <div className="grid grid-cols-1 gap-3">
           <BigActionButton icon={FileText} label="Data" onClick={() => { setView("data"); openDataPrompt(); }} />
+          <BigActionButton icon={FolderOpen} label="Projects" onClick={() => setView("projects")} />
           <BigActionButton icon={Pencil} label="Inspection" onClick={() => { setView("inspection"); openInspectionPrompt(); }} />
           <BigActionButton icon={ClipboardList} label="Report" onClick={() => { setView("report"); setReportDialogOpen(true); }} />
+          <BigActionButton icon={CalendarDays} label="Calendar" onClick={() => setView("calendar")} />
+          <BigActionButton icon={Search} label="Search" onClick={() => setView("search")} />
         </div>
 
         <Separator className="my-4" />
@@ -540,6 +1983,7 @@ export default function App() {
           ) : (
             <div className="space-y-2">
               {Object.values(projects)
+                .filter((p) => !p.archived)
                 .sort((a, b) => b.updatedAt - a.updatedAt)
                 .slice(0, 5)
                 .map((p) => (
@@ -549,50 +1993,89 @@ export default function App() {
                       <span className="text-muted-foreground"> — {p.address || "(no address)"}</span>
                     </div>
                     <div className="flex gap-2">
-                      <Button size="sm" variant="outline" onClick={() => { setActiveProjectId(p.id); setFilterDate(null); setView("inspectionProject"); }}>Open</Button>
+                      <Button size="sm" variant="outline" onClick={() => { setActiveProjectId(p.id); setTimelineFilter({}); setView("inspectionProject"); }}>Open</Button>
                     </div>
                   </div>
                 ))}
+              <Button size="sm" variant="ghost" className="w-full" onClick={() => setView("projects")}>View all projects</Button>
             </div>
           )}
         </Section>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("backup")}>
+            <DatabaseBackup className="h-4 w-4 mr-2" /> Backup
+          </Button>
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("security")}>
+            <ShieldCheck className="h-4 w-4 mr-2" /> Security
+          </Button>
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("templates")}>
+            <ListChecks className="h-4 w-4 mr-2" /> Checklists
+          </Button>
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("photos")}>
+            <ImageDown className="h-4 w-4 mr-2" /> Photos
+          </Button>
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("storage")}>
+            <HardDrive className="h-4 w-4 mr-2" /> Storage
+          </Button>
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("sync")}>
+            <Cloud className="h-4 w-4 mr-2" /> Sync
+          </Button>
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("profiles")}>
+            <Users className="h-4 w-4 mr-2" /> {user?.role === "admin" ? "Profiles" : "My profile"}
+          </Button>
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("audit")}>
+            <FileClock className="h-4 w-4 mr-2" /> Audit log
+          </Button>
+          {user?.role === "admin" && (
+            <Button variant="outline" className="h-12 rounded-xl" onClick={() => setView("projectFields")}>
+              <SlidersHorizontal className="h-4 w-4 mr-2" /> Project fields
+            </Button>
+          )}
+        </div>
       </div>
     );
   }
 
-  if (!authed && view === "auth") return <AuthView />;
+  // Called as a function (not <AuthView />) so the passcode input keeps focus across re-renders
+  if (!authed && view === "auth") return AuthView();
 
   return (
     <div className="min-h-screen bg-neutral-50">
-      {view === "home" && <Header title="Home" authed={authed} onSignOut={handleSignOut} />}
-      {view !== "home" && <Header title={view === "data" ? "Data" : view === "inspection" || view === "inspectionProject" ? "Inspection" : "Report"} onHome={goHome} authed={authed} onSignOut={handleSignOut} />}
+      {view === "home" && <Header title="Home" authed={authed} onSignOut={handleSignOut} sync={syncStatus} onSync={() => setView("sync")} />}
+      {view !== "home" && <Header title={VIEW_TITLES[view]} onHome={goHome} authed={authed} onSignOut={handleSignOut} sync={syncStatus} onSync={() => setView("sync")} />}
 
       {view === "home" && <HomeView />}
 
+      {view === "projects" && (
+        <ProjectsView
+          projects={projects}
+          inspections={inspections}
+          onOpen={(id) => { setActiveProjectId(id); setTimelineFilter({}); setView("inspectionProject"); }}
+          // Projects with only inspections get their details for the first time; the ID is filled in
+          onEdit={(id) => openDataPrompt(projects[id] ?? { id, address: "", scope: "", createdAt: Date.now(), updatedAt: Date.now() })}
+          onToggleArchive={toggleArchiveProject}
+          onRename={renameProject}
+          onDelete={deleteProject}
+        />
+      )}
+
       {/* Data Dialog */}
-      <Dialog open={dataDialogOpen} onOpenChange={setDataDialogOpen}>
-        <DialogContent className="sm:max-w-md rounded-2xl">
-          <DialogHeader>
-            <DialogTitle>Project Data</DialogTitle>
-            <DialogDescription>Enter a Project ID and its details. If the ID exists, it will be updated.</DialogDescription>
-          </DialogHeader>
-          <div className="space-y-3">
-            <div className="space-y-1">
-              <Label htmlFor="pid">Project ID</Label>
-              <Input id="pid" placeholder="e.g., 10234" value={dataForm.id} onChange={(e) => setDataForm({ ...dataForm, id: e.target.value })} />
-            </div>
-            <div className="space-y-1">
-              <Label htmlFor="addr">Address</Label>
-              <Input id="addr" placeholder="123 Main St, City, ST" value={dataForm.address} onChange={(e) => setDataForm({ ...dataForm, address: e.target.value })} />
-            </div>
-            <div className="space-y-1">
-              <Label htmlFor="scope">Scope</Label>
-              <Textarea id="scope" placeholder="Describe the scope..." value={dataForm.scope} onChange={(e) => setDataForm({ ...dataForm, scope: e.target.value })} />
-            </div>
-            <Button className="w-full h-12 rounded-xl" onClick={saveProject}><Save className="h-4 w-4 mr-2" /> Save</Button>
-          </div>
-        </DialogContent>
-      </Dialog>
+      <ProjectDialog
+        open={dataDialogOpen}
+        project={editingProject}
+        templates={templates}
+        fields={sortFields(projectFields)}
+        onOpenChange={setDataDialogOpen}
+        onSave={saveProject}
+      />
+
+      {/* Suggestions for the Project ID inputs below */}
+      <datalist id="project-ids">
+        {Array.from(new Set([...Object.keys(projects), ...Object.keys(inspections)])).sort().map((id) => (
+          <option key={id} value={id}>{projects[id]?.address || undefined}</option>
+        ))}
+      </datalist>
 
       {/* Inspection Dialog */}
       <Dialog open={inspectionDialogOpen} onOpenChange={setInspectionDialogOpen}>
@@ -604,108 +2087,338 @@ export default function App() {
           <div className="space-y-3">
             <div className="space-y-1">
               <Label htmlFor="inspid">Project ID</Label>
-              <Input id="inspid" placeholder="e.g., 10234" value={inspectionId} onChange={(e) => setInspectionId(e.target.value)} />
+              <Input id="inspid" list="project-ids" placeholder="e.g., 10234" value={inspectionId} onChange={(e) => setInspectionId(e.target.value)} />
             </div>
             <Button className="w-full h-12 rounded-xl" onClick={proceedInspection}><Pencil className="h-4 w-4 mr-2" /> Continue</Button>
           </div>
         </DialogContent>
       </Dialog>
 
-      {/* Report Dialog: supports ID-only or ID+Date */}
-      <Dialog open={reportDialogOpen} onOpenChange={(open) => { setReportDialogOpen(open); if (!open) { setReportId(""); setReportDate(""); } }}>
-        <DialogContent className="sm:max-w-md rounded-2xl">
+      {/* Report Dialog: the full timeline by ID, or the entries matching the filters */}
+      <Dialog open={reportDialogOpen} onOpenChange={(open) => { setReportDialogOpen(open); if (!open) { setReportId(""); setReportDraft({}); } }}>
+        <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Open Report</DialogTitle>
-            <DialogDescription>View full timeline by ID, or filter by a specific date.</DialogDescription>
+            <DialogDescription>Leave the filters empty to report the full timeline. Only date ranges can be signed off.</DialogDescription>
           </DialogHeader>
           <div className="space-y-3">
             <div className="space-y-1">
               <Label htmlFor="repid">Project ID</Label>
-              <Input id="repid" placeholder="e.g., 10234" value={reportId} onChange={(e) => setReportId(e.target.value)} />
-            </div>
-            <div className="space-y-1">
-              <Label htmlFor="repdate">Date (optional)</Label>
-              <Input id="repdate" type="date" value={reportDate} onChange={(e) => setReportDate(e.target.value)} />
-            </div>
-            <div className="grid grid-cols-2 gap-2">
-              <Button
-                className="h-12 rounded-xl"
-                onClick={() => {
-                  if (!reportId.trim()) return toast.error("Enter a Project ID.");
-                  setActiveProjectId(reportId.trim());
-                  setFilterDate(null);
-                  setReportDialogOpen(false);
-                  setView("inspectionProject");
-                }}
-              >
-                <FileText className="h-4 w-4 mr-2" /> Full Timeline
-              </Button>
-              <Button
-                className="h-12 rounded-xl"
-                variant="outline"
-                onClick={() => {
-                  if (!reportId.trim()) return toast.error("Enter a Project ID.");
-                  if (!reportDate) return toast.error("Pick a date.");
-                  setActiveProjectId(reportId.trim());
-                  setFilterDate(reportDate);
-                  setReportDialogOpen(false);
-                  setView("inspectionProject");
-                }}
-              >
-                <Calendar className="h-4 w-4 mr-2" /> By Date
-              </Button>
+              <Input id="repid" list="project-ids" placeholder="e.g., 10234" value={reportId} onChange={(e) => setReportId(e.target.value)} />
             </div>
+            <EntryFilterForm id="rep" filter={reportDraft} options={filterOptions(inspections[reportId.trim()] || [])} onChange={setReportDraft} />
+            <Button className="w-full h-12 rounded-xl" onClick={openReport}>
+              <FileText className="h-4 w-4 mr-2" /> {hasFilter(reportDraft) ? "Open Filtered Report" : "Open Full Timeline"}
+            </Button>
           </div>
         </DialogContent>
       </Dialog>
 
+      {view === "templates" && <TemplatesView templates={templates} projects={projects} onSave={saveTemplate} onDelete={deleteTemplate} />}
+
+      {view === "security" && <SecurityView autoLock={autoLock} onAutoLockChange={updateAutoLock} onChangePasscode={changePasscode} />}
+
+      {view === "sync" && (
+        <SyncView
+          settings={syncSettings}
+          status={syncStatus}
+          error={syncError}
+          pending={pendingChanges(syncState, projects, inspections)}
+          lastSyncedAt={syncState.lastSyncedAt}
+          conflicts={syncState.conflicts}
+          onSave={updateSyncSettings}
+          onSync={() => runSync()}
+          onResolve={(id, choice) => runSync({ [id]: choice })}
+        />
+      )}
+
+      {view === "profiles" && user && <ProfilesView profiles={profiles} user={user} onSave={saveProfile} onSignature={saveSignature} onDelete={deleteProfile} />}
+
+      {view === "audit" && <AuditLogView load={idbLoadAudit} />}
+
+      {view === "projectFields" && user?.role === "admin" && <ProjectFieldsView fields={projectFields} projects={projects} onSave={saveProjectField} onDelete={deleteProjectField} />}
+
+      {view === "storage" && <StorageView projects={projects} inspections={inspections} loadSizes={idbSizes} onPurge={purgePhotos} onRepair={repairMissingPhotos} loadQuarantine={idbLoadQuarantine} onDiscardQuarantined={discardQuarantined} />}
+
+      {view === "photos" && <PhotoSettingsView settings={photoSettings} onChange={updatePhotoSettings} />}
+
+      {view === "backup" && <BackupView projects={projects} inspections={inspections} templates={templates} projectFields={projectFields} loadPhoto={idbGet} loadAudit={idbLoadAudit} onApply={applyImport} />}
+
+      {/* Report View */}
+      {view === "report" && activeProjectId && (
+        <ReportView
+          projectId={activeProjectId}
+          project={projects[activeProjectId]}
+          entries={reportEntries(inspections[activeProjectId] || [], reportFilter)}
+          filter={reportFilter}
+          filterOptions={filterOptions(inspections[activeProjectId] || [])}
+          signOffs={isDateOnly(reportFilter) ? reportSignOffs(projects[activeProjectId], reportFilter) : []}
+          fields={sortFields(projectFields)}
+          deficiencies={reportDeficiencies(projects[activeProjectId]?.deficiencies, reportEntries(inspections[activeProjectId] || [], reportFilter), inspections[activeProjectId] || [])}
+          photoURLFromKey={photoURLFromKey}
+          loadPhoto={idbGet}
+          onFilterChange={setReportFilter}
+          onSignOff={isDateOnly(reportFilter) ? () => openSignOff({ projectId: activeProjectId, range: { from: reportFilter.from, to: reportFilter.to } }) : undefined}
+          onOpenTimeline={() => {
+            setTimelineFilter(reportFilter);
+            setView("inspectionProject");
+          }}
+        />
+      )}
+
+      {view === "search" && <SearchView index={searchIndex.current} projects={projects} inspections={inspections} onOpen={openInTimeline} />}
+
+      {view === "calendar" && (
+        <CalendarView
+          projects={projects}
+          inspections={inspections}
+          onOpenDay={(projectId, date) => { setActiveProjectId(projectId); setTimelineFilter({ from: date, to: date }); setView("inspectionProject"); }}
+          onPlanVisit={planVisit}
+          onDeleteVisit={deleteVisit}
+          onStartVisit={startVisit}
+        />
+      )}
+
+      {view === "punchList" && activeProjectId && (
+        <PunchListView
+          projectId={activeProjectId}
+          deficiencies={projects[activeProjectId]?.deficiencies || []}
+          entries={inspections[activeProjectId] || []}
+          photoURLFromKey={thumbURLFromKey}
+          onEdit={(d) => setDeficiencyEdit({ projectId: activeProjectId, entryId: d.foundIn, deficiencyId: d.id })}
+          onStatusChange={(d, status) => setDeficiencyStatus(activeProjectId, d, status)}
+          onDelete={(d) => deleteDeficiency(activeProjectId, d)}
+          onOpenTimeline={() => setView("inspectionProject")}
+        />
+      )}
+
       {/* Inspection Project View */}
       {view === "inspectionProject" && (
         <div className="max-w-md mx-auto p-4 space-y-4">
           <ProjectHeader id={activeProjectId || ""} />
+          <Button variant="outline" className="w-full rounded-xl" onClick={() => setView("punchList")}>
+            <ListTodo className="h-4 w-4 mr-2" /> Punch list · {(projects[activeProjectId || ""]?.deficiencies || []).filter(isOutstanding).length} outstanding
+          </Button>
 
-          {filterDate && (
-            <div className="flex items-center justify-between bg-amber-50 border border-amber-200 text-amber-800 rounded-xl px-3 py-2">
-              <div className="text-sm">Filtered by date: <span className="font-medium">{filterDate}</span></div>
-              <Button size="sm" variant="outline" onClick={() => setFilterDate(null)}>Clear</Button>
+          {/* Called as a function so its inputs keep their values and focus across re-renders */}
+          {InspectionForm()}
+          <Section title={hasFilter(timelineFilter) ? `Timeline — ${filterEntries(inspections[activeProjectId || ""] || [], timelineFilter).length} of ${(inspections[activeProjectId || ""] || []).length}` : "Timeline"}>
+            <div className="space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <FilterChips filter={timelineFilter} options={filterOptions(inspections[activeProjectId || ""] || [])} onChange={setTimelineFilter} />
+                <Button size="sm" variant="outline" className="ml-auto shrink-0" onClick={() => setTimelineFiltersOpen(!timelineFiltersOpen)}>
+                  <ListFilter className="h-4 w-4 mr-1" /> {timelineFiltersOpen ? "Hide filters" : "Filter"}
+                </Button>
+              </div>
+              {timelineFiltersOpen && (
+                <Card className="border-0 shadow-sm">
+                  <CardContent className="p-4">
+                    <EntryFilterForm id="timeline" filter={timelineFilter} options={filterOptions(inspections[activeProjectId || ""] || [])} onChange={setTimelineFilter} />
+                  </CardContent>
+                </Card>
+              )}
+              <InspectionList projectId={activeProjectId || ""} filter={timelineFilter} />
             </div>
-          )}
-
-          <InspectionForm />
-          <Section title={filterDate ? `Timeline — ${filterDate}` : "Timeline"}>
-            <InspectionList projectId={activeProjectId || ""} filterDate={filterDate} />
           </Section>
         </div>
       )}
 
+      {/* Edit / delete timeline entries */}
+      <EditEntryDialog
+        entry={editingEntry}
+        onOpenChange={(open) => { if (!open) setEditingEntry(null); }}
+        onSave={async (draft) => { if (editingEntry && activeProjectId) await updateInspectionEntry(activeProjectId, editingEntry.id, draft); }}
+        photoURLFromKey={thumbURLFromKey}
+        attachmentURLFromKey={photoURLFromKey}
+      />
+      {DeficiencyDialogs()}
+      <SignOffDialog subject={signing?.subject ?? null} own={signing?.own} onOpenChange={(open) => { if (!open) setSigning(null); }} onSign={signOff} />
+      <PhotoViewer
+        photos={viewerPhotos()}
+        current={viewer?.key ?? null}
+        scope={viewer?.scope ?? "entry"}
+        photoURLFromKey={photoURLFromKey}
+        onSelect={(key) => setViewer((v) => v && { ...v, key })}
+        onScopeChange={(scope) => setViewer((v) => v && { ...v, scope })}
+        onClose={() => setViewer(null)}
+        onSaveMeta={savePhotoMeta}
+        onAnnotate={(photo) => {
+          const entry = viewer && (inspections[viewer.projectId] || []).find((e) => e.id === photo.entryId);
+          if (viewer && entry) openSavedAnnotator(viewer.projectId, entry, photo.key);
+        }}
+        onDelete={setDeletingPhoto}
+      />
+      <ConfirmDialog
+        open={!!deletingPhoto}
+        onOpenChange={(open) => { if (!open) setDeletingPhoto(null); }}
+        title="Delete photo?"
+        description="The photo, its annotations and caption will be permanently removed from the entry and its history."
+        confirmLabel="Delete"
+        onConfirm={() => { if (deletingPhoto) deletePhoto(deletingPhoto); }}
+      />
+      <AnnotationEditor
+        src={annotating?.src ?? null}
+        shapes={annotating?.shapes ?? []}
+        onOpenChange={(open) => {
+          if (open || !annotating) return;
+          if ("file" in annotating) URL.revokeObjectURL(annotating.src);
+          setAnnotating(null);
+        }}
+        onSave={saveAnnotations}
+      />
+      <ConfirmDialog
+        open={!!deletingEntry}
+        onOpenChange={(open) => { if (!open) setDeletingEntry(null); }}
+        title="Delete inspection?"
+        description={deletingEntry ? `The ${deletingEntry.date} ${deletingEntry.time} entry and its photos will be permanently removed.` : ""}
+        confirmLabel="Delete"
+        onConfirm={() => { if (deletingEntry && activeProjectId) deleteInspectionEntry(activeProjectId, deletingEntry.id); }}
+      />
+
       <div id="sonner" />
     </div>
   );
 }
 
 /**
- * Async image loader for photos stored in IndexedDB.
+ * Dialog for editing an existing entry. Lives outside App so its inputs keep focus across App re-renders.
  */
-function AsyncImage({ idKey, photoURLFromKey }: { idKey: string; photoURLFromKey: (k: string) => Promise<string> }) {
-  const [url, setUrl] = useState<string>("");
+function EditEntryDialog({ entry, onOpenChange, onSave, photoURLFromKey, attachmentURLFromKey }: {
+  entry: InspectionEntry | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (draft: EntryDraft) => Promise<void>;
+  photoURLFromKey: (k: string) => Promise<string>;
+  attachmentURLFromKey: (k: string) => Promise<string>;
+}) {
+  const [draft, setDraft] = useState<EntryDraft>({ date: "", time: "", notes: "", photoKeys: [], newPhotos: [], attachments: [], newAttachments: [] });
+  const [saving, setSaving] = useState(false);
+
   useEffect(() => {
-    let active = true;
-    (async () => {
-      const u = await photoURLFromKey(idKey);
-      if (active) setUrl(u);
-    })();
-    return () => {
-      active = false;
-      if (url) URL.revokeObjectURL(url);
-    };
-  }, [idKey]);
+    if (entry) setDraft({ date: entry.date, time: entry.time, notes: entry.notes, photoKeys: entry.photoKeys, newPhotos: [], attachments: entry.attachments || [], newAttachments: [] });
+  }, [entry]);
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setSaving(false);
+    }
+  }
+
   return (
-    <div className="aspect-square w-full overflow-hidden rounded-xl bg-neutral-100">
-      {url ? (
-        <img src={url} alt="inspection" className="h-full w-full object-cover" />
-      ) : (
-        <div className="h-full w-full animate-pulse" />
-      )}
-    </div>
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Inspection</DialogTitle>
+          <DialogDescription>The previous version is kept in the entry's history.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {entry?.signOffs && entry.signOffs.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl px-3 py-2 text-sm">
+              This entry has been signed off. Changing the date, time, notes, photos or attachments will show its signature(s) as broken.
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="edit-date"><Calendar className="inline h-4 w-4 mr-1" /> Date</Label>
+              <Input id="edit-date" type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="edit-time"><Clock className="inline h-4 w-4 mr-1" /> Time</Label>
+              <Input id="edit-time" type="time" value={draft.time} onChange={(e) => setDraft({ ...draft, time: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="edit-notes"><ClipboardList className="inline h-4 w-4 mr-1" /> Observations</Label>
+            <Textarea id="edit-notes" rows={4} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-photos"><Images className="inline h-4 w-4 mr-1" /> Photos</Label>
+            {(draft.photoKeys.length > 0 || draft.newPhotos.length > 0) && (
+              <div className="grid grid-cols-4 gap-2">
+                {draft.photoKeys.map((k) => (
+                  <div key={k} className="relative">
+                    <AsyncImage idKey={k} photoURLFromKey={photoURLFromKey} annotations={entry?.annotations?.[k]} />
+                    <button type="button" onClick={() => setDraft({ ...draft, photoKeys: draft.photoKeys.filter((x) => x !== k) })} className="absolute top-1 right-1 bg-white/80 rounded-full p-1 shadow" title="Remove">
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                ))}
+                {draft.newPhotos.map((f, i) => (
+                  <PendingPhoto key={`${f.name}-${i}`} file={f} onRemove={() => setDraft({ ...draft, newPhotos: draft.newPhotos.filter((_, j) => j !== i) })} />
+                ))}
+              </div>
+            )}
+            <Input
+              id="edit-photos"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = "";
+                if (files.length === 0) return;
+                setDraft((prev) => ({ ...prev, newPhotos: [...prev.newPhotos, ...files] }));
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-attachments"><Paperclip className="inline h-4 w-4 mr-1" /> Voice notes and attachments</Label>
+            {draft.attachments.length > 0 && (
+              <AttachmentList attachments={draft.attachments} urlFromKey={attachmentURLFromKey} onRemove={(key) => setDraft({ ...draft, attachments: draft.attachments.filter((a) => a.key !== key) })} />
+            )}
+            {draft.newAttachments.length > 0 && (
+              <PendingAttachments pending={draft.newAttachments} onRemove={(i) => setDraft({ ...draft, newAttachments: draft.newAttachments.filter((_, j) => j !== i) })} />
+            )}
+            <VoiceRecorder
+              onRecorded={(file, durationMs) =>
+                setDraft((prev) => ({ ...prev, newAttachments: [...prev.newAttachments, { file, name: nextVoiceNoteName([...prev.attachments, ...prev.newAttachments]), durationMs }] }))
+              }
+            />
+            <Input
+              id="edit-attachments"
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              onChange={(e) => {
+                const files = pickAttachments(e.target.files);
+                e.target.value = "";
+                if (files.length > 0) setDraft((prev) => ({ ...prev, newAttachments: [...prev.newAttachments, ...files] }));
+              }}
+            />
+          </div>
+
+          <Button className="w-full h-12 rounded-xl" onClick={handleSave} disabled={saving}><Save className="h-4 w-4 mr-2" /> Save Changes</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Collapsible list of an entry's previous versions, newest first.
+ */
+function RevisionHistory({ revisions }: { revisions: InspectionRevision[] }) {
+  return (
+    <details className="rounded-xl bg-neutral-50 px-3 py-2 text-sm">
+      <summary className="cursor-pointer text-muted-foreground flex items-center gap-2">
+        <History className="h-4 w-4" /> Edited {revisions.length} time{revisions.length === 1 ? "" : "s"}
+      </summary>
+      <div className="mt-2 space-y-2">
+        {[...revisions].reverse().map((r) => (
+          <div key={r.revisedAt} className="border-l-2 border-neutral-200 pl-2">
+            <div className="text-xs text-muted-foreground">
+              Replaced {new Date(r.revisedAt).toLocaleString()}{r.revisedBy ? ` by ${r.revisedBy.name}` : ""} — was {r.date} {r.time}, {r.photoKeys.length} photo(s){r.attachments?.length ? `, ${r.attachments.length} attachment(s)` : ""}
+            </div>
+            <div className="whitespace-pre-wrap">{r.notes || "(no notes)"}</div>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
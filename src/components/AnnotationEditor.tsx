@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowUpRight, Eraser, PenLine, Save, Square, Type, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ANNOTATION_COLORS, drawAnnotations } from "@/lib/annotations";
+import type { Annotation, Point } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+type Tool = Annotation["kind"];
+
+const TOOLS: { tool: Tool; label: string; icon: typeof PenLine }[] = [
+  { tool: "pen", label: "Freehand", icon: PenLine },
+  { tool: "arrow", label: "Arrow", icon: ArrowUpRight },
+  { tool: "rect", label: "Rectangle", icon: Square },
+  { tool: "text", label: "Text", icon: Type },
+];
+
+const MAX_CANVAS_PX = 1600; // editing resolution only; the stored layer is resolution-independent
+
+/**
+ * Canvas editor for a photo's annotation layer. Draws over the image at `src`
+ * and hands back the vector shapes; the photo itself is never modified.
+ */
+export function AnnotationEditor({ src, shapes, onOpenChange, onSave }: {
+  src: string | null; // object URL of the photo being annotated; null closes the editor
+  shapes: Annotation[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (shapes: Annotation[]) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const [layer, setLayer] = useState<Annotation[]>([]);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [tool, setTool] = useState<Tool>("pen");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [label, setLabel] = useState("");
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    setLayer(shapes);
+    setDraft(null);
+    setReady(false);
+    imageRef.current = null;
+    if (!src) return;
+    const img = new Image();
+    img.onload = () => {
+      imageRef.current = img;
+      setReady(true);
+    };
+    img.onerror = () => toast.error("Could not open the photo.");
+    img.src = src;
+  }, [src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const img = imageRef.current;
+    if (!ready || !canvas || !img) return;
+    const scale = Math.min(1, MAX_CANVAS_PX / Math.max(img.naturalWidth, img.naturalHeight));
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    drawAnnotations(ctx, draft ? [...layer, draft] : layer, canvas.width, canvas.height);
+  }, [ready, layer, draft]);
+
+  function pointFrom(e: React.PointerEvent<HTMLCanvasElement>): Point {
+    const r = e.currentTarget.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    return [clamp((e.clientX - r.left) / r.width), clamp((e.clientY - r.top) / r.height)];
+  }
+
+  function handleDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    const p = pointFrom(e);
+    if (tool === "text") {
+      if (!label.trim()) return toast.error("Type the label first, then tap where it goes.");
+      setLayer([...layer, { kind: "text", color, at: p, text: label.trim() }]);
+      setLabel("");
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(tool === "pen" ? { kind: "pen", color, points: [p] } : { kind: tool, color, from: p, to: p });
+  }
+
+  function handleMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!draft) return;
+    const p = pointFrom(e);
+    setDraft(draft.kind === "pen" ? { ...draft, points: [...draft.points, p] } : draft.kind === "text" ? draft : { ...draft, to: p });
+  }
+
+  function handleUp() {
+    if (!draft) return;
+    // Ignore taps that did not draw anything
+    const empty = draft.kind === "pen" ? draft.points.length < 2 : draft.kind !== "text" && draft.from[0] === draft.to[0] && draft.from[1] === draft.to[1];
+    if (!empty) setLayer([...layer, draft]);
+    setDraft(null);
+  }
+
+  return (
+    <Dialog open={!!src} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-2xl max-h-[95vh] overflow-y-auto p-4">
+        <DialogHeader>
+          <DialogTitle>Annotate Photo</DialogTitle>
+          <DialogDescription>Drawings are saved as a separate layer; the original photo is kept as taken.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-1">
+          {TOOLS.map(({ tool: t, label: name, icon: Icon }) => (
+            <Button key={t} size="icon" variant={tool === t ? "default" : "outline"} title={name} onClick={() => setTool(t)}>
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <div className="mx-1 h-6 w-px bg-neutral-200" />
+          {ANNOTATION_COLORS.map((c) => (
+            <button
+              key={c}
+              type="button"
+              title={c}
+              onClick={() => setColor(c)}
+              className={cn("h-7 w-7 rounded-full border", color === c ? "ring-2 ring-offset-2 ring-neutral-900" : "")}
+              style={{ backgroundColor: c }}
+            />
+          ))}
+        </div>
+
+        {tool === "text" && <Input placeholder="Label text, then tap the photo" value={label} onChange={(e) => setLabel(e.target.value)} />}
+
+        <div className="overflow-hidden rounded-xl bg-neutral-900">
+          {ready ? (
+            <canvas
+              ref={canvasRef}
+              className="block h-auto w-full touch-none"
+              onPointerDown={handleDown}
+              onPointerMove={handleMove}
+              onPointerUp={handleUp}
+              onPointerCancel={handleUp}
+            />
+          ) : (
+            <div className="aspect-[4/3] w-full animate-pulse" />
+          )}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <Button variant="outline" onClick={() => setLayer(layer.slice(0, -1))} disabled={layer.length === 0}><Undo2 className="h-4 w-4 mr-1" /> Undo</Button>
+          <Button variant="outline" onClick={() => setLayer([])} disabled={layer.length === 0}><Eraser className="h-4 w-4 mr-1" /> Clear</Button>
+          <Button onClick={() => onSave(layer)}><Save className="h-4 w-4 mr-1" /> Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { arrowHead, fontSize, strokeWidth } from "@/lib/annotations";
+import type { Annotation } from "@/lib/types";
+
+/**
+ * SVG rendering of an annotation layer, laid over an <img> of `width` x `height` natural pixels.
+ * `fit` must match the image's object-fit so the shapes line up with the photo.
+ */
+export function AnnotationOverlay({ shapes, width, height, fit = "cover" }: { shapes: Annotation[]; width: number; height: number; fit?: "cover" | "contain" }) {
+  if (shapes.length === 0 || !width || !height) return null;
+  const sw = strokeWidth(width, height);
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 h-full w-full"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio={fit === "cover" ? "xMidYMid slice" : "xMidYMid meet"}
+      fill="none"
+      strokeWidth={sw}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      {shapes.map((s, i) => {
+        if (s.kind === "pen") {
+          return <polyline key={i} stroke={s.color} points={s.points.map(([x, y]) => `${x * width},${y * height}`).join(" ")} />;
+        }
+        if (s.kind === "rect") {
+          return (
+            <rect
+              key={i}
+              stroke={s.color}
+              x={Math.min(s.from[0], s.to[0]) * width}
+              y={Math.min(s.from[1], s.to[1]) * height}
+              width={Math.abs(s.to[0] - s.from[0]) * width}
+              height={Math.abs(s.to[1] - s.from[1]) * height}
+            />
+          );
+        }
+        if (s.kind === "arrow") {
+          const [a, b] = arrowHead(s.from, s.to, width, height);
+          return (
+            <g key={i} stroke={s.color}>
+              <line x1={s.from[0] * width} y1={s.from[1] * height} x2={s.to[0] * width} y2={s.to[1] * height} />
+              <polygon fill={s.color} points={`${s.to[0] * width},${s.to[1] * height} ${a[0]},${a[1]} ${b[0]},${b[1]}`} />
+            </g>
+          );
+        }
+        return (
+          <text
+            key={i}
+            x={s.at[0] * width}
+            y={s.at[1] * height}
+            dominantBaseline="hanging"
+            fontFamily="sans-serif"
+            fontWeight="bold"
+            fontSize={fontSize(width, height)}
+            fill={s.color}
+            stroke={s.color === "#171717" ? "#ffffff" : "#171717"}
+            strokeWidth={sw * 0.75}
+            paintOrder="stroke"
+          >
+            {s.text}
+          </text>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { PenLine } from "lucide-react";
+import { AnnotationOverlay } from "@/components/AnnotationOverlay";
+import type { Annotation } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+/**
+ * Async image loader for photos stored in IndexedDB, with the photo's annotation layer drawn on top.
+ */
+export function AsyncImage({ idKey, photoURLFromKey, className, fit = "cover", alt = "inspection", annotations, onAnnotate, onOpen }: {
+  idKey: string;
+  photoURLFromKey: (k: string) => Promise<string>;
+  className?: string;
+  fit?: "cover" | "contain";
+  alt?: string;
+  annotations?: Annotation[];
+  onAnnotate?: () => void; // shows an annotate button over the photo
+  onOpen?: () => void; // tapping the photo, e.g. to view it full size
+}) {
+  const [url, setUrl] = useState<string>("");
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      const u = await photoURLFromKey(idKey);
+      if (active) setUrl(u);
+    })();
+    return () => {
+      active = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [idKey]);
+  return (
+    <div className={cn("relative aspect-square w-full overflow-hidden rounded-xl bg-neutral-100", className)}>
+      {url ? (
+        <>
+          <img
+            src={url}
+            alt={alt}
+            className={cn("h-full w-full", fit === "cover" ? "object-cover" : "object-contain", onOpen && "cursor-zoom-in")}
+            onClick={onOpen}
+            onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {annotations && <AnnotationOverlay shapes={annotations} width={size.width} height={size.height} fit={fit} />}
+          {onAnnotate && (
+            <button type="button" onClick={onAnnotate} className="absolute bottom-1 right-1 bg-white/80 rounded-full p-1 shadow print:hidden" title="Annotate">
+              <PenLine className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </>
+      ) : (
+        <div className="h-full w-full animate-pulse" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Download, ExternalLink, FileText, Film, Mic, Trash2 } from "lucide-react";
+import { attachmentKind } from "@/lib/entries";
+import { formatDuration } from "@/lib/report";
+import { formatBytes } from "@/lib/storage";
+import type { Attachment } from "@/lib/types";
+
+/** A picked or recorded file not saved yet. */
+export type PendingAttachment = { file: File; name: string; durationMs?: number };
+
+const KIND_ICONS = { audio: Mic, video: Film, document: FileText };
+
+/** One attachment, played or opened inline. `src` is an object URL, empty while it loads. */
+function AttachmentItem({ attachment, src, onRemove }: { attachment: Attachment; src: string; onRemove?: () => void }) {
+  const Icon = KIND_ICONS[attachment.kind];
+  return (
+    <div className="rounded-xl border p-2 space-y-2 break-inside-avoid">
+      <div className="flex items-center gap-2 text-sm">
+        <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="min-w-0 flex-1 truncate">{attachment.name}</span>
+        <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+          {attachment.durationMs !== undefined ? `${formatDuration(attachment.durationMs)} · ` : ""}
+          {formatBytes(attachment.size)}
+        </span>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="shrink-0 rounded-full p-1 hover:bg-neutral-100" title="Remove">
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      {!src ? (
+        <div className="h-10 rounded-lg bg-neutral-100 animate-pulse" />
+      ) : attachment.kind === "audio" ? (
+        <audio controls preload="metadata" src={src} className="w-full" />
+      ) : attachment.kind === "video" ? (
+        <video controls playsInline preload="metadata" src={src} className="w-full max-h-64 rounded-lg bg-black" />
+      ) : attachment.type === "application/pdf" ? (
+        <a href={src} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-sm underline-offset-2 hover:underline">
+          <ExternalLink className="h-3.5 w-3.5" /> Open
+        </a>
+      ) : (
+        <a href={src} download={attachment.name} className="flex items-center gap-1 text-sm underline-offset-2 hover:underline">
+          <Download className="h-3.5 w-3.5" /> Download
+        </a>
+      )}
+    </div>
+  );
+}
+
+/**
+ * An entry's saved attachments: voice notes and video clips play inline, documents open or download.
+ * `urlFromKey` returns an object URL for a stored Blob; the caller owns (and revokes) those URLs.
+ */
+export function AttachmentList({ attachments, urlFromKey, onRemove }: { attachments: Attachment[]; urlFromKey: (key: string) => Promise<string>; onRemove?: (key: string) => void }) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let active = true;
+    attachments.forEach(async (a) => {
+      const url = await urlFromKey(a.key);
+      if (active) setUrls((cur) => ({ ...cur, [a.key]: url }));
+    });
+    return () => {
+      active = false;
+    };
+  }, [attachments.map((a) => a.key).join("|")]);
+
+  return (
+    <div className="space-y-2">
+      {attachments.map((a) => (
+        <AttachmentItem key={a.key} attachment={a} src={urls[a.key] || ""} onRemove={onRemove && (() => onRemove(a.key))} />
+      ))}
+    </div>
+  );
+}
+
+/** Attachments picked or recorded for an entry that is not saved yet, playable before saving. */
+export function PendingAttachments({ pending, onRemove }: { pending: PendingAttachment[]; onRemove: (index: number) => void }) {
+  const [urls, setUrls] = useState<Map<File, string>>(new Map());
+
+  useEffect(() => {
+    const next = new Map(pending.map((p) => [p.file, URL.createObjectURL(p.file)]));
+    setUrls(next);
+    return () => next.forEach((url) => URL.revokeObjectURL(url));
+  }, [pending]);
+
+  return (
+    <div className="space-y-2">
+      {pending.map((p, i) => (
+        <AttachmentItem
+          key={`${p.file.name}-${i}`}
+          attachment={{ key: "", kind: attachmentKind(p.file.type), name: p.name, type: p.file.type, size: p.file.size, durationMs: p.durationMs, createdAt: 0 }}
+          src={urls.get(p.file) || ""}
+          onRemove={() => onRemove(i)}
+        />
+      ))}
+    </div>
+  );
+}
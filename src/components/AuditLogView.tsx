@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Download, RefreshCw, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { describeAuditEvent, verifyAudit, type AuditRecord, type AuditVerification } from "@/lib/audit";
+import { downloadBlob } from "@/lib/utils";
+
+const PAGE = 50;
+
+/**
+ * The audit log, newest first, with a check of its hash chain and an export for use outside the app.
+ */
+export function AuditLogView({ load }: { load: () => Promise<AuditRecord[]> }) {
+  const [records, setRecords] = useState<AuditRecord[] | null>(null);
+  const [shown, setShown] = useState(PAGE);
+  const [result, setResult] = useState<AuditVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function refresh() {
+    setBusy(true);
+    try {
+      setRecords(await load());
+      setResult(null);
+    } catch {
+      toast.error("Could not read the audit log.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function handleVerify() {
+    setBusy(true);
+    try {
+      const list = await load();
+      setRecords(list);
+      setResult(await verifyAudit(list));
+    } catch {
+      toast.error("Could not read the audit log.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleExport() {
+    if (!records) return;
+    downloadBlob(new Blob([JSON.stringify(records, null, 2)], { type: "application/json" }), `mia-audit-${new Date().toISOString().slice(0, 10)}.json`);
+  }
+
+  const newestFirst = records ? [...records].reverse().slice(0, shown) : [];
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold">Integrity</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="text-muted-foreground">
+            Every change to projects, inspections and photos is logged with who made it and what it was before and after.
+            Each record is chained to the previous one by a hash, so altering or removing any of them is detected.
+          </div>
+          {result?.ok === true && (
+            <div className="flex items-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-emerald-800">
+              <ShieldCheck className="h-4 w-4 shrink-0" /> Chain intact: {result.count} record(s) verified.
+            </div>
+          )}
+          {result?.ok === false && (
+            <div className="flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-red-800">
+              <ShieldAlert className="h-4 w-4 shrink-0" /> Chain broken at record #{result.seq}: {result.reason}
+            </div>
+          )}
+          {records && records.length > 0 && (
+            <div className="text-xs text-muted-foreground break-all">Latest hash {records[records.length - 1].hash}</div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={handleVerify} disabled={busy}><ShieldCheck className="h-4 w-4 mr-2" /> Verify</Button>
+            <Button variant="outline" onClick={handleExport} disabled={!records?.length}><Download className="h-4 w-4 mr-2" /> Export</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold flex items-center justify-between">
+            <span>Log{records ? ` (${records.length})` : ""}</span>
+            <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full" title="Reload" onClick={refresh} disabled={busy}>
+              <RefreshCw className={busy ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {records && records.length === 0 && <div className="text-sm text-muted-foreground">No changes logged yet.</div>}
+          {newestFirst.map((r) => (
+            <details key={r.seq} className="rounded-xl border px-3 py-2 text-sm">
+              <summary className="cursor-pointer list-none space-y-0.5">
+                <div className="font-medium break-words">{r.event ? describeAuditEvent(r.event) : "(unreadable record)"}</div>
+                <div className="text-xs text-muted-foreground">
+                  #{r.seq} · {new Date(r.at).toLocaleString()}
+                  {r.event?.by ? ` · ${r.event.by.name}` : ""}
+                  {r.event?.via ? ` · via ${r.event.via}` : ""}
+                </div>
+              </summary>
+              <div className="mt-2 space-y-2 text-xs">
+                {r.event?.before && (
+                  <div>
+                    <div className="font-medium">Before</div>
+                    <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded-lg bg-neutral-50 p-2">{JSON.stringify(r.event.before, null, 2)}</pre>
+                  </div>
+                )}
+                {r.event?.after && (
+                  <div>
+                    <div className="font-medium">After</div>
+                    <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded-lg bg-neutral-50 p-2">{JSON.stringify(r.event.after, null, 2)}</pre>
+                  </div>
+                )}
+                <div className="break-all text-muted-foreground">Hash {r.hash}</div>
+              </div>
+            </details>
+          ))}
+          {records && records.length > shown && (
+            <Button variant="ghost" className="w-full" onClick={() => setShown(shown + PAGE)}>Show older</Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
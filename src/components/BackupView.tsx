@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, DatabaseBackup, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  buildBackup,
+  defaultChoices,
+  planImport,
+  previewBackup,
+  readBackup,
+  type BackupArchive,
+  type BackupPreview,
+  type ConflictChoice,
+  type ImportMode,
+  type ImportPlan,
+} from "@/lib/backup";
+import type { AuditRecord } from "@/lib/audit";
+import type { ChecklistTemplate, InspectionEntry, ProjectField, ProjectMeta } from "@/lib/types";
+import { downloadBlob } from "@/lib/utils";
+
+/**
+ * Export all local data as one zip, or import one with a preview,
+ * merge/replace choice and per-item conflict resolution.
+ */
+export function BackupView({ projects, inspections, templates, projectFields, loadPhoto, loadAudit, onApply }: {
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  templates: Record<string, ChecklistTemplate>;
+  projectFields: Record<string, ProjectField>;
+  loadPhoto: (key: string) => Promise<Blob | undefined>;
+  loadAudit: () => Promise<AuditRecord[]>;
+  onApply: (plan: ImportPlan) => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [unencryptedOk, setUnencryptedOk] = useState(false); // the export leaves the encrypted store, so it is confirmed each time
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const entryCount = Object.values(inspections).reduce((n, l) => n + l.length, 0);
+
+  async function handleExport() {
+    setBusy(true);
+    try {
+      const blob = await buildBackup(projects, inspections, templates, projectFields, loadPhoto, await loadAudit());
+      downloadBlob(blob, `mia-backup-${new Date().toISOString().slice(0, 10)}.zip`);
+      setUnencryptedOk(false);
+      toast.success("Backup exported.");
+    } catch {
+      toast.error("Could not create the backup.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleFile(file: File) {
+    setBusy(true);
+    try {
+      const next = await readBackup(file);
+      const p = previewBackup(next, projects, inspections);
+      setArchive(next);
+      setPreview(p);
+      setChoices(defaultChoices(p.conflicts));
+      setMode("merge");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not read the backup.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleImport() {
+    if (!archive) return;
+    setBusy(true);
+    try {
+      await onApply(planImport(archive, projects, inspections, templates, projectFields, mode, choices));
+      setArchive(null);
+      setPreview(null);
+      toast.success("Backup imported.");
+    } catch {
+      toast.error("Import failed. Local data was left unchanged.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold">Export backup</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-sm text-muted-foreground">
+            {Object.keys(projects).length} project(s) and {entryCount} inspection(s) with their photos and attachments, plus checklist templates, custom project fields and the audit log, in a single .zip file.
+          </div>
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl px-3 py-2 text-sm space-y-2">
+            <div className="flex items-center gap-2 font-medium"><AlertTriangle className="h-4 w-4" /> The backup file is not encrypted</div>
+            <div>Anyone who gets the file can read every note, photo, attachment and the audit log without your passcode. Store and share it only somewhere you trust.</div>
+            <label className="flex items-center gap-3">
+              <input type="checkbox" className="h-4 w-4" checked={unencryptedOk} onChange={(e) => setUnencryptedOk(e.target.checked)} />
+              <span>I understand the file is unencrypted</span>
+            </label>
+          </div>
+          <Button className="w-full h-12 rounded-xl" onClick={handleExport} disabled={busy || !unencryptedOk}><DatabaseBackup className="h-4 w-4 mr-2" /> Export backup</Button>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold">Import backup</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="backup-file">Backup file</Label>
+            <Input
+              id="backup-file"
+              type="file"
+              accept=".zip,application/zip"
+              disabled={busy}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) handleFile(file);
+              }}
+            />
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="rounded-xl bg-neutral-50 px-3 py-2 text-sm space-y-1">
+                <div>Exported {new Date(preview.exportedAt).toLocaleString()}</div>
+                <div className="text-muted-foreground">{preview.projectCount} project(s), {preview.entryCount} inspection(s), {preview.photoCount} file(s)</div>
+              </div>
+
+              {preview.missingPhotos.length === 0 ? (
+                <div className="flex items-center gap-2 text-sm text-emerald-700"><CheckCircle2 className="h-4 w-4" /> Every photo and attachment reference resolves.</div>
+              ) : (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl px-3 py-2 text-sm space-y-1">
+                  <div className="flex items-center gap-2 font-medium"><AlertTriangle className="h-4 w-4" /> {preview.missingPhotos.length} file reference(s) have no file in the backup</div>
+                  <div className="text-xs break-all max-h-24 overflow-y-auto">{preview.missingPhotos.join(", ")}</div>
+                </div>
+              )}
+
+              {preview.invalid.length > 0 && (
+                <div className="bg-red-50 border border-red-200 text-red-800 rounded-xl px-3 py-2 text-sm space-y-1">
+                  <div className="flex items-center gap-2 font-medium"><AlertTriangle className="h-4 w-4" /> {preview.invalid.length} damaged record(s) will be skipped</div>
+                  <ul className="text-xs max-h-24 overflow-y-auto list-disc pl-5">
+                    {preview.invalid.map((problem, i) => <li key={i}>{problem}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <Tabs value={mode} onValueChange={(v) => setMode(v as ImportMode)}>
+                <TabsList className="w-full">
+                  <TabsTrigger value="merge" className="flex-1">Merge</TabsTrigger>
+                  <TabsTrigger value="replace" className="flex-1">Replace</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              {mode === "replace" ? (
+                <div className="bg-red-50 border border-red-200 text-red-800 rounded-xl px-3 py-2 text-sm">
+                  All local projects, inspections and photos will be replaced by the backup.
+                </div>
+              ) : preview.conflicts.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No conflicts. Backup items will be added alongside local data.</div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">{preview.conflicts.length} conflict(s) — choose which version to keep</div>
+                  <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {preview.conflicts.map((c) => (
+                      <div key={c.id} className="rounded-xl border px-3 py-2 text-sm space-y-2">
+                        <div className="font-medium truncate">
+                          {c.kind === "project" ? `Project ${c.projectId}` : `Entry ${c.entryId} in ${c.projectId}`}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          {(["local", "backup"] as const).map((side) => (
+                            <Button
+                              key={side}
+                              size="sm"
+                              variant={choices[c.id] === side ? "default" : "outline"}
+                              className="h-auto flex-col py-1"
+                              onClick={() => setChoices({ ...choices, [c.id]: side })}
+                            >
+                              <span>{side === "local" ? "This device" : "Backup"}</span>
+                              <span className="text-[10px] opacity-80">{new Date(side === "local" ? c.localUpdatedAt : c.backupUpdatedAt).toLocaleString()}</span>
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Button className="w-full h-12 rounded-xl" variant={mode === "replace" ? "destructive" : "default"} onClick={handleImport} disabled={busy}>
+                <Upload className="h-4 w-4 mr-2" /> {mode === "replace" ? "Replace all data" : "Merge backup"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { CalendarPlus, ChevronLeft, ChevronRight, Clock, Images, PlayCircle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  addDays,
+  addMonths,
+  calendarDays,
+  dayLabel,
+  monthLabel,
+  monthWeeks,
+  projectCounts,
+  upcomingVisits,
+  WEEKDAY_LABELS,
+  weekDays,
+  type CalendarVisit,
+} from "@/lib/calendar";
+import { localDate } from "@/lib/report";
+import type { InspectionEntry, PlannedVisit, ProjectMeta } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+type CalendarMode = "month" | "week";
+
+/**
+ * Month or week calendar of all projects: inspection counts per project on each day and planned visits.
+ * Tapping a day lists its entries and visits, and visits can be planned for it.
+ */
+export function CalendarView({ projects, inspections, onOpenDay, onPlanVisit, onDeleteVisit, onStartVisit }: {
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  onOpenDay: (projectId: string, date: string) => void; // the project's timeline filtered to the day
+  onPlanVisit: (projectId: string, visit: Pick<PlannedVisit, "date" | "time" | "purpose">) => void;
+  onDeleteVisit: (projectId: string, visitId: string) => void;
+  onStartVisit: (projectId: string, visit: PlannedVisit) => void; // opens the inspection form for it
+}) {
+  const today = localDate();
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(today);
+  const [selected, setSelected] = useState(today);
+  const [plan, setPlan] = useState({ projectId: "", time: "", purpose: "" });
+
+  const days = useMemo(() => calendarDays(inspections, projects), [inspections, projects]);
+  const weeks = mode === "month" ? monthWeeks(anchor) : [weekDays(anchor)];
+  const month = anchor.slice(0, 7);
+  const perCell = mode === "month" ? 1 : 4; // project names that fit in a day cell
+  const day = days.get(selected);
+  const upcoming = upcomingVisits(projects, today);
+  const projectIds = Array.from(new Set([...Object.values(projects).filter((p) => !p.archived).map((p) => p.id), ...Object.keys(inspections)])).sort();
+
+  function move(step: number) {
+    const next = mode === "month" ? addMonths(anchor, step) : addDays(anchor, step * 7);
+    setAnchor(next);
+    setSelected(mode === "month" ? (next.slice(0, 7) === today.slice(0, 7) ? today : next) : addDays(selected, step * 7));
+  }
+
+  function submitPlan() {
+    if (!plan.projectId) return toast.error("Choose a project.");
+    if (selected < today) return toast.error("Visits can only be planned for today or later.");
+    onPlanVisit(plan.projectId, { date: selected, time: plan.time || undefined, purpose: plan.purpose.trim() });
+    setPlan({ ...plan, time: "", purpose: "" });
+  }
+
+  const visitRow = ({ projectId, visit }: CalendarVisit, withDate: boolean) => (
+    <div key={visit.id} className="flex items-center gap-2 text-sm">
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate">
+          {withDate ? `${visit.date} · ` : ""}{visit.time ? `${visit.time} · ` : ""}Project {projectId}
+        </div>
+        {visit.purpose && <div className="text-xs text-muted-foreground truncate">{visit.purpose}</div>}
+      </div>
+      <Button size="sm" variant="outline" onClick={() => onStartVisit(projectId, visit)}><PlayCircle /> Inspect</Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8" title="Remove visit" onClick={() => onDeleteVisit(projectId, visit.id)}><Trash2 className="h-4 w-4" /></Button>
+    </div>
+  );
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Tabs value={mode} onValueChange={(v) => { setMode(v as CalendarMode); setAnchor(selected); }}>
+        <TabsList className="w-full">
+          <TabsTrigger value="month" className="flex-1">Month</TabsTrigger>
+          <TabsTrigger value="week" className="flex-1">Week</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <div className="flex items-center justify-between gap-2">
+        <Button size="icon" variant="ghost" title="Previous" onClick={() => move(-1)}><ChevronLeft className="h-4 w-4" /></Button>
+        <div className="text-sm font-semibold">{mode === "month" ? monthLabel(anchor) : `${weeks[0][0]} to ${weeks[0][6]}`}</div>
+        <div className="flex items-center">
+          <Button size="sm" variant="ghost" onClick={() => { setAnchor(today); setSelected(today); }}>Today</Button>
+          <Button size="icon" variant="ghost" title="Next" onClick={() => move(1)}><ChevronRight className="h-4 w-4" /></Button>
+        </div>
+      </div>
+
+      <Card className="border-0 shadow-sm">
+        <CardContent className="p-2">
+          <div className="grid grid-cols-7 text-center text-xs text-muted-foreground pb-1">
+            {WEEKDAY_LABELS.map((d) => <div key={d}>{d}</div>)}
+          </div>
+          {weeks.map((week) => (
+            <div key={week[0]} className="grid grid-cols-7 gap-1">
+              {week.map((date) => {
+                const d = days.get(date);
+                const counts = projectCounts(d);
+                const total = d?.entries.length || 0;
+                return (
+                  <button
+                    key={date}
+                    type="button"
+                    onClick={() => setSelected(date)}
+                    className={cn(
+                      "flex flex-col items-stretch gap-0.5 rounded-lg p-1 text-left text-xs",
+                      mode === "month" ? "min-h-16" : "min-h-28",
+                      mode === "month" && date.slice(0, 7) !== month && "opacity-40",
+                      date === selected ? "bg-neutral-900 text-white" : "hover:bg-neutral-100"
+                    )}
+                  >
+                    <span className={cn("font-medium", date === today && date !== selected && "text-blue-600")}>{Number(date.slice(8))}</span>
+                    {total > 0 && <span className="font-semibold">{total}</span>}
+                    {counts.slice(0, perCell).map((c) => (
+                      <span key={c.projectId} className="truncate">{c.projectId}{c.count > 1 ? ` ×${c.count}` : ""}</span>
+                    ))}
+                    {counts.length > perCell && <span>+{counts.length - perCell}</span>}
+                    {d && d.visits.length > 0 && (
+                      <span className={cn("truncate rounded px-0.5", date === selected ? "bg-white/20" : "bg-blue-50 text-blue-700")}>{d.visits.length} planned</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="font-semibold">{dayLabel(selected)}</div>
+          {!day || day.entries.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No inspections recorded.</div>
+          ) : (
+            <div className="space-y-2">
+              {day.entries.map(({ projectId, entry }) => (
+                <button key={`${projectId}/${entry.id}`} type="button" onClick={() => onOpenDay(projectId, selected)} className="w-full rounded-xl border px-3 py-2 text-left text-sm hover:bg-neutral-50">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">Project {projectId}</span>
+                    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {entry.photoKeys.length > 0 && <span className="flex items-center gap-1"><Images className="h-3.5 w-3.5" /> {entry.photoKeys.length}</span>}
+                      <span className="flex items-center gap-1"><Clock className="h-3.5 w-3.5" /> {entry.time}</span>
+                    </span>
+                  </div>
+                  {entry.author && <div className="text-xs text-muted-foreground">Inspected by {entry.author.name}</div>}
+                  {entry.notes && <div className="text-xs line-clamp-2">{entry.notes}</div>}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {day && day.visits.length > 0 && (
+            <div className="space-y-2">
+              <Label>Planned</Label>
+              {day.visits.map((v) => visitRow(v, false))}
+            </div>
+          )}
+
+          {selected >= today && (
+            <div className="space-y-2 rounded-xl border p-3">
+              <Label htmlFor="plan-project"><CalendarPlus className="inline h-4 w-4 mr-1" /> Plan a visit</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <NativeSelect id="plan-project" value={plan.projectId} onChange={(e) => setPlan({ ...plan, projectId: e.target.value })}>
+                  <option value="">Project...</option>
+                  {projectIds.map((id) => <option key={id} value={id}>{id}</option>)}
+                </NativeSelect>
+                <Input type="time" aria-label="Time" value={plan.time} onChange={(e) => setPlan({ ...plan, time: e.target.value })} />
+              </div>
+              <Input placeholder="Purpose, e.g. framing inspection" value={plan.purpose} onChange={(e) => setPlan({ ...plan, purpose: e.target.value })} />
+              <Button size="sm" className="w-full" onClick={submitPlan}><CalendarPlus /> Add to {selected}</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm">
+        <CardContent className="p-4 space-y-2">
+          <div className="font-semibold">Upcoming visits</div>
+          {upcoming.length === 0 ? (
+            <div className="text-sm text-muted-foreground">Nothing planned.</div>
+          ) : (
+            upcoming.map((v) => visitRow(v, true))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
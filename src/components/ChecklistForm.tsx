@@ -0,0 +1,102 @@
+import { Camera, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { STATUS_LABELS } from "@/lib/checklists";
+import type { ChecklistItemResult, ChecklistResult, ChecklistStatus } from "@/lib/types";
+
+const STATUS_STYLES: Record<ChecklistStatus, string> = {
+  pass: "bg-emerald-600 text-white hover:bg-emerald-600/90",
+  fail: "bg-red-600 text-white hover:bg-red-600/90",
+  na: "bg-neutral-500 text-white hover:bg-neutral-500/90",
+};
+
+/**
+ * Fill-in form for a project's checklist. Item photos stay pending (as Files keyed by item id)
+ * until the entry is saved.
+ */
+export function ChecklistForm({ value, onChange, pendingPhotos, onPendingPhotosChange }: {
+  value: ChecklistResult;
+  onChange: (next: ChecklistResult) => void;
+  pendingPhotos: Record<string, File[]>;
+  onPendingPhotosChange: (next: Record<string, File[]>) => void;
+}) {
+  function updateItem(sectionId: string, itemId: string, patch: Partial<ChecklistItemResult>) {
+    onChange({
+      ...value,
+      sections: value.sections.map((s) =>
+        s.id !== sectionId ? s : { ...s, items: s.items.map((i) => (i.id === itemId ? { ...i, ...patch } : i)) }
+      ),
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {value.sections.map((section) => (
+        <div key={section.id} className="space-y-2">
+          <div className="text-sm font-semibold">{section.title}</div>
+          {section.items.map((item) => {
+            const files = pendingPhotos[item.id] || [];
+            return (
+              <div key={item.id} className="rounded-xl border p-3 space-y-2">
+                <div className="text-sm">{item.label}</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(STATUS_LABELS) as ChecklistStatus[]).map((status) => (
+                    <Button
+                      key={status}
+                      type="button"
+                      size="sm"
+                      variant={item.status === status ? "default" : "outline"}
+                      className={item.status === status ? STATUS_STYLES[status] : ""}
+                      onClick={() => updateItem(section.id, item.id, { status: item.status === status ? undefined : status })}
+                    >
+                      {STATUS_LABELS[status]}
+                    </Button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder={item.status === "fail" ? "Describe the issue..." : "Comment (optional)"}
+                    value={item.comment}
+                    onChange={(e) => updateItem(section.id, item.id, { comment: e.target.value })}
+                  />
+                  <label className="inline-flex h-9 w-9 shrink-0 cursor-pointer items-center justify-center rounded-md border" title="Add photo">
+                    <Camera className="h-4 w-4" />
+                    <input
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        const added = Array.from(e.target.files || []);
+                        e.target.value = "";
+                        if (added.length) onPendingPhotosChange({ ...pendingPhotos, [item.id]: [...files, ...added] });
+                      }}
+                    />
+                  </label>
+                </div>
+                {files.length > 0 && (
+                  <div className="grid grid-cols-4 gap-2">
+                    {files.map((f, i) => (
+                      <div key={`${f.name}-${i}`} className="relative aspect-square w-full overflow-hidden rounded-xl bg-neutral-100">
+                        <img src={URL.createObjectURL(f)} alt="preview" className="h-full w-full object-cover" />
+                        <button
+                          type="button"
+                          onClick={() => onPendingPhotosChange({ ...pendingPhotos, [item.id]: files.filter((_, j) => j !== i) })}
+                          className="absolute top-1 right-1 bg-white/80 rounded-full p-1 shadow"
+                          title="Remove"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
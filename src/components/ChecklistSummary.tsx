@@ -0,0 +1,42 @@
+import { AsyncImage } from "@/components/AsyncImage";
+import { checklistCounts } from "@/lib/checklists";
+import type { Annotation, ChecklistResult } from "@/lib/types";
+
+/**
+ * Pass/fail/N/A counts for an entry's checklist, with failed items spelled out.
+ */
+export function ChecklistSummary({ checklist, photoURLFromKey, annotations, onAnnotate, onOpenPhoto }: {
+  checklist: ChecklistResult;
+  photoURLFromKey: (k: string) => Promise<string>;
+  annotations?: Record<string, Annotation[]>; // the entry's layers by photo key
+  onAnnotate?: (key: string) => void;
+  onOpenPhoto?: (key: string) => void;
+}) {
+  const counts = checklistCounts(checklist);
+  const failed = checklist.sections.flatMap((s) => s.items.filter((i) => i.status === "fail").map((item) => ({ section: s.title, item })));
+
+  return (
+    <div className="rounded-xl bg-neutral-50 px-3 py-2 text-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span className="font-medium">{checklist.templateName}</span>
+        <span className="text-emerald-700">{counts.pass} pass</span>
+        <span className="text-red-700">{counts.fail} fail</span>
+        <span className="text-muted-foreground">{counts.na} N/A</span>
+        {counts.unset > 0 && <span className="text-amber-700">{counts.unset} unanswered</span>}
+      </div>
+      {failed.map(({ section, item }) => (
+        <div key={item.id} className="border-l-2 border-red-300 pl-2 space-y-1 break-inside-avoid">
+          <div><span className="text-muted-foreground">{section} —</span> {item.label}</div>
+          {item.comment && <div className="text-muted-foreground whitespace-pre-wrap">{item.comment}</div>}
+          {item.photoKeys.length > 0 && (
+            <div className="grid grid-cols-3 gap-2">
+              {item.photoKeys.map((k) => (
+                <AsyncImage key={k} idKey={k} photoURLFromKey={photoURLFromKey} annotations={annotations?.[k]} onAnnotate={onAnnotate && (() => onAnnotate(k))} onOpen={onOpenPhoto && (() => onOpenPhoto(k))} />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
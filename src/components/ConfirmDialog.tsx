@@ -0,0 +1,21 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+/** Asks before a destructive action; confirming does not close it, the caller does once the action is done. */
+export function ConfirmDialog({ open, onOpenChange, title, description, confirmLabel, onConfirm }: { open: boolean; onOpenChange: (open: boolean) => void; title: string; description: string; confirmLabel: string; onConfirm: () => void }) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" className="h-12 rounded-xl" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" className="h-12 rounded-xl" onClick={onConfirm}><Trash2 className="h-4 w-4 mr-2" /> {confirmLabel}</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { PhotoPicker } from "@/components/PhotoPicker";
+import { SEVERITY_LABELS } from "@/lib/deficiencies";
+import type { Deficiency, DeficiencySeverity } from "@/lib/types";
+
+export type DeficiencyFields = Pick<Deficiency, "title" | "location" | "severity" | "dueDate" | "assignee" | "photoKeys">;
+
+const EMPTY: DeficiencyFields = { title: "", location: "", severity: "medium", dueDate: undefined, assignee: "", photoKeys: [] };
+
+/**
+ * Logs a deficiency found in an entry, or edits one. The "before" photos are picked from that entry.
+ */
+export function DeficiencyDialog({ subject, initial, photoKeys, photoURLFromKey, onOpenChange, onSave }: {
+  subject: string | null; // e.g. "Found in inspection 2024-05-01 09:30"; null closes the dialog
+  initial?: Deficiency; // editing
+  photoKeys: string[]; // the entry's photos to choose from
+  photoURLFromKey: (k: string) => Promise<string>;
+  onOpenChange: (open: boolean) => void;
+  onSave: (fields: DeficiencyFields) => void;
+}) {
+  const [fields, setFields] = useState<DeficiencyFields>(EMPTY);
+
+  useEffect(() => {
+    setFields(initial ? { title: initial.title, location: initial.location, severity: initial.severity, dueDate: initial.dueDate, assignee: initial.assignee, photoKeys: initial.photoKeys } : EMPTY);
+  }, [subject, initial]);
+
+  function handleSave() {
+    if (!fields.title.trim()) return toast.error("Enter a title.");
+    onSave({ ...fields, title: fields.title.trim(), location: fields.location.trim(), assignee: fields.assignee.trim(), dueDate: fields.dueDate || undefined });
+  }
+
+  return (
+    <Dialog open={!!subject} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? "Edit Deficiency" : "Log Deficiency"}</DialogTitle>
+          <DialogDescription>{subject}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="def-title">Title</Label>
+            <Input id="def-title" value={fields.title} onChange={(e) => setFields({ ...fields, title: e.target.value })} placeholder="e.g. Missing fire stopping at riser" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="def-location">Location</Label>
+            <Input id="def-location" value={fields.location} onChange={(e) => setFields({ ...fields, location: e.target.value })} placeholder="e.g. Level 2, north stair" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="def-severity">Severity</Label>
+              <NativeSelect id="def-severity" value={fields.severity} onChange={(e) => setFields({ ...fields, severity: e.target.value as DeficiencySeverity })}>
+                {Object.entries(SEVERITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="def-due">Due date</Label>
+              <Input id="def-due" type="date" value={fields.dueDate ?? ""} onChange={(e) => setFields({ ...fields, dueDate: e.target.value || undefined })} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="def-assignee">Assignee</Label>
+            <Input id="def-assignee" value={fields.assignee} onChange={(e) => setFields({ ...fields, assignee: e.target.value })} placeholder="Trade, company or person" />
+          </div>
+          <div className="space-y-1">
+            <Label>Photos showing it</Label>
+            <PhotoPicker keys={photoKeys} selected={fields.photoKeys} onChange={(keys) => setFields({ ...fields, photoKeys: keys })} photoURLFromKey={photoURLFromKey} />
+          </div>
+          <Button className="w-full h-12 rounded-xl" onClick={handleSave}><Save className="h-4 w-4 mr-2" /> Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { filterChips, hasFilter, withoutKeys, type EntryFilter, type FilterOptions } from "@/lib/filters";
+
+/** Active criteria as chips; each one's × removes it. Renders nothing when unfiltered. */
+export function FilterChips({ filter, options, onChange }: {
+  filter: EntryFilter;
+  options: FilterOptions;
+  onChange: (filter: EntryFilter) => void;
+}) {
+  const chips = filterChips(filter, options);
+  if (chips.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 print:hidden">
+      {chips.map((chip) => (
+        <span key={chip.keys.join()} className="flex items-center gap-1 rounded-full bg-amber-100 py-1 pl-3 pr-1 text-sm text-amber-900">
+          {chip.label}
+          <button type="button" title={`Remove ${chip.label}`} className="rounded-full p-0.5 hover:bg-amber-200" onClick={() => onChange(withoutKeys(filter, chip.keys))}>
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </span>
+      ))}
+      {chips.length > 1 && <Button size="sm" variant="ghost" onClick={() => onChange({})}>Clear all</Button>}
+    </div>
+  );
+}
+
+/** Inputs for every criterion; `id` prefixes the input ids so the form can appear in more than one place. */
+export function EntryFilterForm({ id, filter, options, onChange }: {
+  id: string;
+  filter: EntryFilter;
+  options: FilterOptions;
+  onChange: (filter: EntryFilter) => void;
+}) {
+  const set = (change: Partial<EntryFilter>) => onChange({ ...filter, ...change });
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-from`}>From date</Label>
+        <Input id={`${id}-from`} type="date" value={filter.from ?? ""} onChange={(e) => set({ from: e.target.value || undefined })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-to`}>To date</Label>
+        <Input id={`${id}-to`} type="date" value={filter.to ?? ""} onChange={(e) => set({ to: e.target.value || undefined })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-after`}>From time</Label>
+        <Input id={`${id}-after`} type="time" value={filter.timeFrom ?? ""} onChange={(e) => set({ timeFrom: e.target.value || undefined })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-before`}>To time</Label>
+        <Input id={`${id}-before`} type="time" value={filter.timeTo ?? ""} onChange={(e) => set({ timeTo: e.target.value || undefined })} />
+      </div>
+      <div className="col-span-2 space-y-1">
+        <Label htmlFor={`${id}-keyword`}>Keyword</Label>
+        <Input id={`${id}-keyword`} placeholder="In notes, captions and tags" value={filter.keyword ?? ""} onChange={(e) => set({ keyword: e.target.value || undefined })} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-author`}>Inspector</Label>
+        <NativeSelect id={`${id}-author`} value={filter.authorId ?? ""} onChange={(e) => set({ authorId: e.target.value || undefined })}>
+          <option value="">Anyone</option>
+          {options.authors.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
+        </NativeSelect>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-tag`}>Photo tag</Label>
+        <NativeSelect id={`${id}-tag`} value={filter.tag ?? ""} onChange={(e) => set({ tag: e.target.value || undefined })} disabled={options.tags.length === 0}>
+          <option value="">Any</option>
+          {options.tags.map((t) => <option key={t} value={t}>#{t}</option>)}
+        </NativeSelect>
+      </div>
+      <label className="flex items-center gap-3 text-sm">
+        <input type="checkbox" className="h-4 w-4" checked={!!filter.photos} onChange={(e) => set({ photos: e.target.checked || undefined })} />
+        <span>Has photos</span>
+      </label>
+      <label className="flex items-center gap-3 text-sm">
+        <input type="checkbox" className="h-4 w-4" checked={!!filter.notes} onChange={(e) => set({ notes: e.target.checked || undefined })} />
+        <span>Has notes</span>
+      </label>
+      {hasFilter(filter) && (
+        <Button size="sm" variant="ghost" className="col-span-2" onClick={() => onChange({})}>Clear filters</Button>
+      )}
+    </div>
+  );
+}
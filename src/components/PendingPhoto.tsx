@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { PenLine, Trash2 } from "lucide-react";
+import { AnnotationOverlay } from "@/components/AnnotationOverlay";
+import type { Annotation } from "@/lib/types";
+
+/**
+ * Preview of a selected but not yet saved photo, with remove and annotate buttons.
+ */
+export function PendingPhoto({ file, annotations, onRemove, onAnnotate }: { file: File; annotations?: Annotation[]; onRemove: () => void; onAnnotate?: () => void }) {
+  const [url, setUrl] = useState("");
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  useEffect(() => {
+    const u = URL.createObjectURL(file);
+    setUrl(u);
+    return () => URL.revokeObjectURL(u);
+  }, [file]);
+
+  return (
+    <div className="relative aspect-square w-full overflow-hidden rounded-xl bg-neutral-100">
+      {url && <img src={url} alt="preview" className="h-full w-full object-cover" onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })} />}
+      {annotations && <AnnotationOverlay shapes={annotations} width={size.width} height={size.height} />}
+      <button type="button" onClick={onRemove} className="absolute top-1 right-1 bg-white/80 rounded-full p-1 shadow" title="Remove">
+        <Trash2 className="h-3.5 w-3.5" />
+      </button>
+      {onAnnotate && (
+        <button type="button" onClick={onAnnotate} className="absolute bottom-1 right-1 bg-white/80 rounded-full p-1 shadow" title="Annotate">
+          <PenLine className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
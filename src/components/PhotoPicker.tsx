@@ -0,0 +1,34 @@
+import { CheckCircle2 } from "lucide-react";
+import { AsyncImage } from "@/components/AsyncImage";
+import { cn } from "@/lib/utils";
+
+/**
+ * Grid of saved photos to choose from by tapping; chosen ones are outlined and ticked.
+ */
+export function PhotoPicker({ keys, selected, onChange, photoURLFromKey }: {
+  keys: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  photoURLFromKey: (k: string) => Promise<string>;
+}) {
+  if (keys.length === 0) return <div className="text-sm text-muted-foreground">This entry has no photos.</div>;
+
+  function toggle(key: string) {
+    // Keep the entry's photo order rather than the order tapped
+    onChange(selected.includes(key) ? selected.filter((k) => k !== key) : keys.filter((k) => k === key || selected.includes(k)));
+  }
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {keys.map((k) => {
+        const on = selected.includes(k);
+        return (
+          <div key={k} className={cn("relative rounded-xl ring-offset-2", on && "ring-2 ring-neutral-900")}>
+            <AsyncImage idKey={k} photoURLFromKey={photoURLFromKey} onOpen={() => toggle(k)} />
+            {on && <CheckCircle2 className="pointer-events-none absolute top-1 right-1 h-5 w-5 rounded-full bg-white text-neutral-900" />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
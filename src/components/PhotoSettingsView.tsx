@@ -0,0 +1,57 @@
+import { ImageDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import type { PhotoSettings } from "@/lib/images";
+
+const SIZE_OPTIONS = [1280, 1920, 2560, 0];
+const QUALITY_OPTIONS = [0.6, 0.7, 0.8, 0.9];
+
+/**
+ * How new photos are compressed before they are stored. Photos already saved are not changed.
+ */
+export function PhotoSettingsView({ settings, onChange }: { settings: PhotoSettings; onChange: (next: PhotoSettings) => void }) {
+  const original = settings.maxDimension === 0;
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold flex items-center gap-2"><ImageDown className="h-4 w-4" /> Photo compression</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label>Maximum size (longest side)</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {SIZE_OPTIONS.map((px) => (
+                <Button key={px} size="sm" variant={settings.maxDimension === px ? "default" : "outline"} onClick={() => onChange({ ...settings, maxDimension: px })}>
+                  {px === 0 ? "Original" : `${px}px`}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>JPEG quality</Label>
+            <div className="grid grid-cols-4 gap-2">
+              {QUALITY_OPTIONS.map((q) => (
+                <Button key={q} size="sm" disabled={original} variant={settings.quality === q ? "default" : "outline"} onClick={() => onChange({ ...settings, quality: q })}>
+                  {Math.round(q * 100)}%
+                </Button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-3 text-sm">
+            <input type="checkbox" className="h-4 w-4" checked={settings.keepExif} onChange={(e) => onChange({ ...settings, keepExif: e.target.checked })} />
+            Keep EXIF data (capture time, GPS position, camera)
+          </label>
+          <div className="text-xs text-muted-foreground">
+            {original && settings.keepExif
+              ? "Photos are stored exactly as taken. Camera photos are often 4–12 MB each."
+              : original
+              ? "Photos are stored at full size, re-encoded as JPEG without their EXIF data. Camera photos are often 4–12 MB each."
+              : "Photos are rotated upright and re-encoded as JPEG. A small thumbnail is stored with each photo for the timeline."}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from "react";
+import { AlertTriangle, ChevronLeft, ChevronRight, PenLine, Save, Trash2 } from "lucide-react";
+import { AsyncImage } from "@/components/AsyncImage";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { describeExif } from "@/lib/exif";
+import type { Annotation, PhotoMeta } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+export type ViewerPhoto = {
+  key: string;
+  entryId: string;
+  label: string; // e.g. the entry's date and time
+  annotations?: Annotation[];
+  meta?: PhotoMeta;
+  warning?: string; // e.g. EXIF capture time far from the entry's date/time
+};
+
+export type ViewerScope = "entry" | "project";
+
+type Zoom = { scale: number; x: number; y: number };
+
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+const SWIPE_PX = 60;
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+function parseTags(text: string): string[] {
+  return Array.from(new Set(text.split(",").map((t) => t.trim().replace(/^#/, "")).filter(Boolean)));
+}
+
+/**
+ * Full-screen lightbox over the photos of an entry or a whole project.
+ * Swipe or arrow keys move between photos; pinch, double-tap or the wheel zooms and dragging pans.
+ * Only the photo on screen is loaded at full size.
+ */
+export function PhotoViewer({ photos, current, scope, photoURLFromKey, onSelect, onScopeChange, onClose, onSaveMeta, onAnnotate, onDelete }: {
+  photos: ViewerPhoto[];
+  current: string | null; // key of the photo on screen; null closes the viewer
+  scope: ViewerScope;
+  photoURLFromKey: (k: string) => Promise<string>;
+  onSelect: (key: string) => void;
+  onScopeChange: (scope: ViewerScope) => void;
+  onClose: () => void;
+  onSaveMeta: (photo: ViewerPhoto, meta: Pick<PhotoMeta, "caption" | "tags">) => void;
+  onAnnotate: (photo: ViewerPhoto) => void;
+  onDelete: (photo: ViewerPhoto) => void;
+}) {
+  const index = photos.findIndex((p) => p.key === current);
+  const photo = index >= 0 ? photos[index] : null;
+
+  const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+  const [swipe, setSwipe] = useState(0);
+  const [caption, setCaption] = useState("");
+  const [tags, setTags] = useState("");
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef({ startX: 0, startY: 0, panX: 0, panY: 0, pinchDist: 0, pinchScale: 1, moved: false });
+  const lastTap = useRef(0);
+
+  useEffect(() => {
+    setZoom(NO_ZOOM);
+    setSwipe(0);
+    setCaption(photo?.meta?.caption || "");
+    setTags((photo?.meta?.tags || []).join(", "));
+  }, [current]);
+
+  function go(step: number) {
+    const next = photos[index + step];
+    if (next) onSelect(next.key);
+  }
+
+  /** Keeps the zoomed photo from being dragged entirely off screen. */
+  function clampZoom(z: Zoom): Zoom {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || z.scale <= 1) return NO_ZOOM;
+    const maxX = ((z.scale - 1) * rect.width) / 2;
+    const maxY = ((z.scale - 1) * rect.height) / 2;
+    return { scale: z.scale, x: Math.min(maxX, Math.max(-maxX, z.x)), y: Math.min(maxY, Math.max(-maxY, z.y)) };
+  }
+
+  /** Zooms to `scale` keeping the point under (clientX, clientY) in place. */
+  function zoomAt(scale: number, clientX: number, clientY: number) {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const px = clientX - (rect.left + rect.width / 2);
+    const py = clientY - (rect.top + rect.height / 2);
+    const ratio = scale / zoom.scale;
+    setZoom(clampZoom({ scale, x: px - (px - zoom.x) * ratio, y: py - (py - zoom.y) * ratio }));
+  }
+
+  function pinchDistance(): number {
+    const [a, b] = Array.from(pointers.current.values());
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  function startGesture(x: number, y: number) {
+    gesture.current = { ...gesture.current, startX: x, startY: y, panX: zoom.x, panY: zoom.y };
+  }
+
+  function handleDown(e: React.PointerEvent<HTMLDivElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) {
+      gesture.current.moved = false;
+      startGesture(e.clientX, e.clientY);
+    } else if (pointers.current.size === 2) {
+      gesture.current = { ...gesture.current, pinchDist: pinchDistance(), pinchScale: zoom.scale, moved: true };
+      setSwipe(0);
+    }
+  }
+
+  function handleMove(e: React.PointerEvent<HTMLDivElement>) {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const g = gesture.current;
+    if (pointers.current.size === 2) {
+      const scale = Math.min(MAX_SCALE, Math.max(1, (g.pinchScale * pinchDistance()) / g.pinchDist));
+      setZoom((z) => clampZoom({ ...z, scale }));
+      return;
+    }
+    const dx = e.clientX - g.startX;
+    const dy = e.clientY - g.startY;
+    if (Math.abs(dx) > 8 || Math.abs(dy) > 8) g.moved = true;
+    if (zoom.scale > 1) setZoom(clampZoom({ scale: zoom.scale, x: g.panX + dx, y: g.panY + dy }));
+    else setSwipe(dx);
+  }
+
+  function handleUp(e: React.PointerEvent<HTMLDivElement>) {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const g = gesture.current;
+    if (pointers.current.size === 1) {
+      // Pinch ended with one finger still down: continue as a pan from here
+      const [rest] = Array.from(pointers.current.values());
+      startGesture(rest.x, rest.y);
+      return;
+    }
+    if (pointers.current.size > 0) return;
+
+    if (!g.moved) {
+      const now = Date.now();
+      if (now - lastTap.current < DOUBLE_TAP_MS) {
+        lastTap.current = 0;
+        if (zoom.scale > 1) setZoom(NO_ZOOM);
+        else zoomAt(DOUBLE_TAP_SCALE, e.clientX, e.clientY);
+      } else {
+        lastTap.current = now;
+      }
+    } else if (zoom.scale === 1 && Math.abs(swipe) > SWIPE_PX) {
+      go(swipe < 0 ? 1 : -1);
+    }
+    setSwipe(0);
+  }
+
+  function handleWheel(e: React.WheelEvent<HTMLDivElement>) {
+    const scale = Math.min(MAX_SCALE, Math.max(1, zoom.scale * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+    if (scale === 1) setZoom(NO_ZOOM);
+    else zoomAt(scale, e.clientX, e.clientY);
+  }
+
+  const metaChanged = !!photo && (caption.trim() !== (photo.meta?.caption || "") || parseTags(tags).join(",") !== (photo.meta?.tags || []).join(","));
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent
+        className="left-0 top-0 flex h-[100dvh] w-screen max-w-none translate-x-0 translate-y-0 flex-col gap-0 rounded-none border-0 bg-neutral-950 p-0 text-white data-[state=closed]:slide-out-to-left-0 data-[state=closed]:slide-out-to-top-0 data-[state=open]:slide-in-from-left-0 data-[state=open]:slide-in-from-top-0"
+        onKeyDown={(e) => {
+          if (e.target instanceof HTMLInputElement) return;
+          if (e.key === "ArrowRight") go(1);
+          if (e.key === "ArrowLeft") go(-1);
+        }}
+      >
+        <DialogTitle className="sr-only">Photo viewer</DialogTitle>
+        <DialogDescription className="sr-only">Swipe between photos, pinch or double-tap to zoom.</DialogDescription>
+        {photo && (
+          <>
+            <div className="flex items-center gap-2 px-3 py-2 pr-12 text-sm">
+              <span className="font-medium tabular-nums">{index + 1} / {photos.length}</span>
+              <span className="truncate text-neutral-400">{photo.label}</span>
+              <div className="ml-auto flex rounded-lg bg-neutral-800 p-0.5 text-xs">
+                {(["entry", "project"] as const).map((s) => (
+                  <button key={s} type="button" onClick={() => onScopeChange(s)} className={cn("rounded-md px-2 py-1", scope === s ? "bg-white text-neutral-900" : "text-neutral-300")}>
+                    {s === "entry" ? "Entry" : "Project"}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div
+              ref={stageRef}
+              className="relative flex-1 overflow-hidden touch-none select-none"
+              onPointerDown={handleDown}
+              onPointerMove={handleMove}
+              onPointerUp={handleUp}
+              onPointerCancel={handleUp}
+              onWheel={handleWheel}
+            >
+              <div
+                className={cn("h-full w-full", pointers.current.size === 0 && "transition-transform duration-150")}
+                style={{ transform: `translate(${zoom.x + swipe}px, ${zoom.y}px) scale(${zoom.scale})` }}
+              >
+                <AsyncImage
+                  key={photo.key}
+                  idKey={photo.key}
+                  photoURLFromKey={photoURLFromKey}
+                  className="aspect-auto h-full rounded-none bg-transparent"
+                  fit="contain"
+                  alt={photo.meta?.caption || "inspection photo"}
+                  annotations={photo.annotations}
+                />
+              </div>
+              {index > 0 && (
+                <button type="button" title="Previous" onClick={() => go(-1)} onPointerDown={(e) => e.stopPropagation()} className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-black/50 p-2">
+                  <ChevronLeft className="h-5 w-5" />
+                </button>
+              )}
+              {index < photos.length - 1 && (
+                <button type="button" title="Next" onClick={() => go(1)} onPointerDown={(e) => e.stopPropagation()} className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-black/50 p-2">
+                  <ChevronRight className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+
+            <div className="space-y-2 p-3">
+              {(photo.warning || photo.meta?.exif) && (
+                <div className="space-y-0.5 text-xs text-neutral-400">
+                  {photo.warning && <div className="flex items-center gap-1 text-amber-400"><AlertTriangle className="h-3.5 w-3.5" /> {photo.warning}</div>}
+                  {describeExif(photo.meta?.exif).map((line) => <div key={line}>{line}</div>)}
+                </div>
+              )}
+              <Input className="bg-neutral-900 border-neutral-700" placeholder="Caption" value={caption} onChange={(e) => setCaption(e.target.value)} />
+              <Input className="bg-neutral-900 border-neutral-700" placeholder="Tags, comma separated" value={tags} onChange={(e) => setTags(e.target.value)} />
+              <div className="grid grid-cols-3 gap-2">
+                <Button variant="secondary" disabled={!metaChanged} onClick={() => onSaveMeta(photo, { caption: caption.trim() || undefined, tags: parseTags(tags) })}>
+                  <Save className="h-4 w-4 mr-1" /> Save
+                </Button>
+                <Button variant="secondary" onClick={() => onAnnotate(photo)}><PenLine className="h-4 w-4 mr-1" /> Annotate</Button>
+                <Button variant="destructive" onClick={() => onDelete(photo)}><Trash2 className="h-4 w-4 mr-1" /> Delete</Button>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
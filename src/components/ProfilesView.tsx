@@ -0,0 +1,228 @@
+import { useEffect, useRef, useState } from "react";
+import { PenLine, Pencil, Trash2, UserPlus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Separator } from "@/components/ui/separator";
+import { decryptJSON } from "@/lib/crypto";
+import { initialsFor, isLastAdmin, type Profile, type ProfileRole } from "@/lib/profiles";
+
+/** A profile as edited here. An empty passcode on an existing profile keeps its passcode. */
+export type ProfileDraft = { name: string; initials: string; role: ProfileRole; passcode: string; confirm: string };
+
+function draftFor(p?: Profile): ProfileDraft {
+  return { name: p?.name ?? "", initials: p?.initials ?? "", role: p?.role ?? "inspector", passcode: "", confirm: "" };
+}
+
+function Initials({ profile }: { profile: Pick<Profile, "initials"> }) {
+  return <span className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-neutral-900 text-xs font-semibold text-white">{profile.initials}</span>;
+}
+
+/**
+ * Name, initials and signature of the signed-in profile; admins also add, edit and remove
+ * the other profiles and reset their passcodes. A user changes their own passcode on the Security screen.
+ */
+export function ProfilesView({ profiles, user, onSave, onSignature, onDelete }: {
+  profiles: Profile[];
+  user: Profile;
+  onSave: (id: string | null, draft: ProfileDraft) => Promise<boolean>; // null adds a profile
+  onSignature: (file: File | null) => Promise<void>; // null removes it
+  onDelete: (id: string) => void;
+}) {
+  const admin = user.role === "admin";
+  const [editing, setEditing] = useState<string | null>(null); // profile id, or "new"
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [signature, setSignature] = useState<string | undefined>();
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!user.signature) setSignature(undefined);
+    else decryptJSON<string>(user.signature).then((url) => !cancelled && setSignature(url), () => !cancelled && setSignature(undefined));
+    return () => {
+      cancelled = true;
+    };
+  }, [user.signature]);
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold flex items-center gap-2"><Initials profile={user} /> {user.name}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-sm text-muted-foreground">{admin ? "Admin" : "Inspector"} · recorded as the author of your entries and project changes</div>
+          <ProfileForm
+            key={`${user.id}-${user.updatedAt}`}
+            profile={user}
+            canChangeRole={false}
+            askPasscode={false}
+            onSave={(draft) => onSave(user.id, draft)}
+          />
+          <Separator />
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2"><PenLine className="h-4 w-4" /> Signature</Label>
+            {signature ? (
+              <img src={signature} alt="Signature" className="max-h-24 rounded-xl border bg-white p-2" />
+            ) : (
+              <div className="text-sm text-muted-foreground">No signature yet. Upload a photo or scan of it, ideally on a white or transparent background.</div>
+            )}
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) await onSignature(file);
+                e.target.value = "";
+              }}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => fileRef.current?.click()}>{signature ? "Replace" : "Upload"}</Button>
+              {signature && <Button size="sm" variant="ghost" onClick={() => onSignature(null)}>Remove</Button>}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {admin && (
+        <Card className="border-0 shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-semibold flex items-center gap-2"><Users className="h-4 w-4" /> Profiles ({profiles.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {profiles.map((p) => (
+              <div key={p.id} className="rounded-xl border p-3 space-y-3">
+                <div className="flex items-center gap-3">
+                  <Initials profile={p} />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{p.name}{p.id === user.id ? " (you)" : ""}</div>
+                    <div className="text-xs text-muted-foreground">{p.role === "admin" ? "Admin" : "Inspector"}</div>
+                  </div>
+                  {p.id !== user.id && (
+                    <>
+                      <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full" title="Edit" onClick={() => setEditing(editing === p.id ? null : p.id)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8 rounded-full" title="Delete" disabled={isLastAdmin(profiles, p.id)} onClick={() => setConfirmDelete(p.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+                {confirmDelete === p.id && (
+                  <div className="space-y-2 text-sm">
+                    <div>Delete {p.name}'s profile? Their entries keep their name as the author.</div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setConfirmDelete(null)}>Cancel</Button>
+                      <Button size="sm" variant="destructive" onClick={() => { onDelete(p.id); setConfirmDelete(null); }}><Trash2 className="h-4 w-4 mr-1" /> Delete</Button>
+                    </div>
+                  </div>
+                )}
+                {editing === p.id && (
+                  <ProfileForm
+                    profile={p}
+                    canChangeRole={!isLastAdmin(profiles, p.id)}
+                    askPasscode
+                    onSave={async (draft) => {
+                      const saved = await onSave(p.id, draft);
+                      if (saved) setEditing(null);
+                      return saved;
+                    }}
+                  />
+                )}
+              </div>
+            ))}
+
+            {editing === "new" ? (
+              <div className="rounded-xl border p-3 space-y-3">
+                <div className="font-medium">New profile</div>
+                <ProfileForm
+                  canChangeRole
+                  askPasscode
+                  onSave={async (draft) => {
+                    const saved = await onSave(null, draft);
+                    if (saved) setEditing(null);
+                    return saved;
+                  }}
+                />
+                <Button variant="ghost" className="w-full" onClick={() => setEditing(null)}>Cancel</Button>
+              </div>
+            ) : (
+              <Button variant="outline" className="w-full" onClick={() => setEditing("new")}><UserPlus className="h-4 w-4 mr-2" /> Add profile</Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function ProfileForm({ profile, canChangeRole, askPasscode, onSave }: {
+  profile?: Profile;
+  canChangeRole: boolean;
+  askPasscode: boolean; // new profiles need one; for existing ones it is a reset
+  onSave: (draft: ProfileDraft) => Promise<boolean>;
+}) {
+  const [draft, setDraft] = useState<ProfileDraft>(() => draftFor(profile));
+  const [saving, setSaving] = useState(false);
+  const id = profile?.id ?? "new";
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      if (await onSave(draft)) setDraft((d) => ({ ...d, passcode: "", confirm: "" }));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[1fr_5rem] gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`name-${id}`}>Name</Label>
+          <Input
+            id={`name-${id}`}
+            value={draft.name}
+            onChange={(e) => {
+              const name = e.target.value;
+              // Initials follow the name until edited by hand
+              const auto = draft.initials === initialsFor(draft.name);
+              setDraft({ ...draft, name, initials: auto ? initialsFor(name) : draft.initials });
+            }}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`initials-${id}`}>Initials</Label>
+          <Input id={`initials-${id}`} maxLength={3} value={draft.initials} onChange={(e) => setDraft({ ...draft, initials: e.target.value.toUpperCase() })} />
+        </div>
+      </div>
+      {canChangeRole && (
+        <div className="space-y-1">
+          <Label htmlFor={`role-${id}`}>Role</Label>
+          <NativeSelect id={`role-${id}`} value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value as ProfileRole })}>
+            <option value="inspector">Inspector</option>
+            <option value="admin">Admin (manages profiles)</option>
+          </NativeSelect>
+        </div>
+      )}
+      {askPasscode && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`pc-${id}`}>{profile ? "New passcode" : "Passcode"}</Label>
+            <Input id={`pc-${id}`} type="password" value={draft.passcode} onChange={(e) => setDraft({ ...draft, passcode: e.target.value })} placeholder={profile ? "Unchanged" : "4+ characters"} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`pcc-${id}`}>Confirm</Label>
+            <Input id={`pcc-${id}`} type="password" value={draft.confirm} onChange={(e) => setDraft({ ...draft, confirm: e.target.value })} />
+          </div>
+        </div>
+      )}
+      <Button className="w-full" onClick={handleSave} disabled={saving}>{saving ? "Saving..." : profile ? "Save" : "Add profile"}</Button>
+    </div>
+  );
+}
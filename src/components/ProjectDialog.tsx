@@ -0,0 +1,177 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import { PROJECT_STATUS_LABELS, projectDraftErrors, toProjectDraft, type ProjectDraft, type ProjectErrors } from "@/lib/projects";
+import type { ChecklistTemplate, ProjectContact, ProjectField, ProjectMeta, ProjectStatus } from "@/lib/types";
+
+/** Label, input and the input's error underneath it. */
+function Field({ id, label, error, children }: { id: string; label: string; error?: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      {children}
+      {error && <p id={`${id}-error`} className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+const invalid = (error?: string) => (error ? "border-red-500 focus-visible:ring-red-500" : "");
+
+/**
+ * Creates or edits a project's details, including the admin-defined custom fields.
+ * Problems are shown next to their inputs; errors clear as each input is corrected.
+ */
+export function ProjectDialog({ open, project, templates, fields, onOpenChange, onSave }: {
+  open: boolean;
+  project?: ProjectMeta; // editing; a new project otherwise
+  templates: Record<string, ChecklistTemplate>;
+  fields: ProjectField[]; // custom fields, in display order
+  onOpenChange: (open: boolean) => void;
+  onSave: (draft: ProjectDraft) => void; // only called with a valid draft
+}) {
+  const [draft, setDraft] = useState<ProjectDraft>(toProjectDraft());
+  const [errors, setErrors] = useState<ProjectErrors>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(toProjectDraft(project));
+    setErrors({});
+    setSubmitted(false);
+  }, [open, project]);
+
+  // After a failed save, re-check as the user types so fixed inputs lose their error
+  function update(next: ProjectDraft) {
+    setDraft(next);
+    if (submitted) setErrors(projectDraftErrors(next, fields));
+  }
+
+  function updateContact(i: number, patch: Partial<ProjectContact>) {
+    update({ ...draft, contacts: draft.contacts.map((c, j) => (j === i ? { ...c, ...patch } : c)) });
+  }
+
+  function handleSave() {
+    const found = projectDraftErrors(draft, fields);
+    setErrors(found);
+    setSubmitted(true);
+    if (Object.keys(found).length === 0) onSave(draft);
+  }
+
+  const errorProps = (key: string, inputId = key) => ({ "aria-invalid": !!errors[key], "aria-describedby": errors[key] ? `${inputId}-error` : undefined, className: invalid(errors[key]) });
+  const errorCount = Object.keys(errors).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Project Data</DialogTitle>
+          <DialogDescription>Enter a Project ID and its details. If the ID exists, it will be updated.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Field id="pid" label="Project ID" error={errors.id}>
+            <Input id="pid" placeholder="e.g., 10234" value={draft.id} onChange={(e) => update({ ...draft, id: e.target.value })} {...errorProps("id", "pid")} />
+          </Field>
+          <Field id="addr" label="Address">
+            <Input id="addr" placeholder="123 Main St, City, ST" value={draft.address} onChange={(e) => update({ ...draft, address: e.target.value })} />
+          </Field>
+          <Field id="scope" label="Scope">
+            <Textarea id="scope" placeholder="Describe the scope..." value={draft.scope} onChange={(e) => update({ ...draft, scope: e.target.value })} />
+          </Field>
+          <div className="grid grid-cols-2 gap-3">
+            <Field id="client" label="Client">
+              <Input id="client" value={draft.client} onChange={(e) => update({ ...draft, client: e.target.value })} />
+            </Field>
+            <Field id="status" label="Status">
+              <NativeSelect id="status" value={draft.status} onChange={(e) => update({ ...draft, status: e.target.value as ProjectStatus | "" })}>
+                <option value="">Not set</option>
+                {Object.entries(PROJECT_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </NativeSelect>
+            </Field>
+            <Field id="permit" label="Permit number">
+              <Input id="permit" value={draft.permitNumber} onChange={(e) => update({ ...draft, permitNumber: e.target.value })} />
+            </Field>
+            <Field id="contractValue" label="Contract value" error={errors.contractValue}>
+              <Input id="contractValue" inputMode="decimal" value={draft.contractValue} onChange={(e) => update({ ...draft, contractValue: e.target.value })} {...errorProps("contractValue")} />
+            </Field>
+            <Field id="startDate" label="Start date">
+              <Input id="startDate" type="date" value={draft.startDate} onChange={(e) => update({ ...draft, startDate: e.target.value })} />
+            </Field>
+            <Field id="endDate" label="End date" error={errors.endDate}>
+              <Input id="endDate" type="date" value={draft.endDate} onChange={(e) => update({ ...draft, endDate: e.target.value })} {...errorProps("endDate")} />
+            </Field>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Site contacts</Label>
+            {draft.contacts.map((c, i) => (
+              <div key={i} className="rounded-xl border p-3 space-y-2">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <Input placeholder="Name" aria-label="Contact name" value={c.name} onChange={(e) => updateContact(i, { name: e.target.value })} {...errorProps(`contact-${i}-name`)} />
+                    {errors[`contact-${i}-name`] && <p id={`contact-${i}-name-error`} className="text-xs text-red-600">{errors[`contact-${i}-name`]}</p>}
+                  </div>
+                  <Button size="icon" variant="ghost" title="Remove contact" onClick={() => update({ ...draft, contacts: draft.contacts.filter((_, j) => j !== i) })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Input type="tel" placeholder="Phone" aria-label="Contact phone" value={c.phone} onChange={(e) => updateContact(i, { phone: e.target.value })} {...errorProps(`contact-${i}-phone`)} />
+                {errors[`contact-${i}-phone`] && <p id={`contact-${i}-phone-error`} className="text-xs text-red-600">{errors[`contact-${i}-phone`]}</p>}
+                <Input type="email" placeholder="Email" aria-label="Contact email" value={c.email} onChange={(e) => updateContact(i, { email: e.target.value })} {...errorProps(`contact-${i}-email`)} />
+                {errors[`contact-${i}-email`] && <p id={`contact-${i}-email-error`} className="text-xs text-red-600">{errors[`contact-${i}-email`]}</p>}
+              </div>
+            ))}
+            <Button variant="outline" className="w-full" onClick={() => update({ ...draft, contacts: [...draft.contacts, { name: "", phone: "", email: "" }] })}>
+              <Plus className="h-4 w-4 mr-2" /> Add Contact
+            </Button>
+          </div>
+
+          {fields.map((f) => {
+            const id = `field-${f.id}`;
+            const value = draft.customFields[f.id] ?? "";
+            const set = (v: string) => update({ ...draft, customFields: { ...draft.customFields, [f.id]: v } });
+            return (
+              <Field key={f.id} id={id} label={f.required ? `${f.label} *` : f.label} error={errors[id]}>
+                {f.type === "select" ? (
+                  <NativeSelect id={id} value={value} onChange={(e) => set(e.target.value)} {...errorProps(id)}>
+                    <option value="">{f.required ? "Choose..." : "Not set"}</option>
+                    {(f.options || []).map((o) => (
+                      <option key={o} value={o}>{o}</option>
+                    ))}
+                    {value && !(f.options || []).includes(value) && <option value={value}>{value} (no longer an option)</option>}
+                  </NativeSelect>
+                ) : (
+                  <Input
+                    id={id}
+                    type={f.type === "date" ? "date" : "text"}
+                    inputMode={f.type === "number" ? "decimal" : undefined}
+                    value={value}
+                    onChange={(e) => set(e.target.value)}
+                    {...errorProps(id)}
+                  />
+                )}
+              </Field>
+            );
+          })}
+
+          <Field id="tpl" label="Checklist template">
+            <NativeSelect id="tpl" value={draft.templateId} onChange={(e) => update({ ...draft, templateId: e.target.value })}>
+              <option value="">None (notes only)</option>
+              {Object.values(templates).map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </NativeSelect>
+          </Field>
+          {errorCount > 0 && <p className="text-sm text-red-600">Fix the {errorCount === 1 ? "highlighted field" : `${errorCount} highlighted fields`} to save.</p>}
+          <Button className="w-full h-12 rounded-xl" onClick={handleSave}><Save className="h-4 w-4 mr-2" /> Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Pencil, Plus, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import { newId } from "@/lib/checklists";
+import { FIELD_TYPE_LABELS, sortFields } from "@/lib/projects";
+import type { ProjectField, ProjectFieldType, ProjectMeta } from "@/lib/types";
+
+/** Editable form of a field: a select's options as one per line. */
+type FieldDraft = { id?: string; label: string; type: ProjectFieldType; optionsText: string; required: boolean };
+
+function toDraft(f?: ProjectField): FieldDraft {
+  return { id: f?.id, label: f?.label ?? "", type: f?.type ?? "text", optionsText: (f?.options || []).join("\n"), required: !!f?.required };
+}
+
+/**
+ * Custom project fields, defined by admins. They appear in the project dialog and on report covers;
+ * deleting one hides it but leaves the values already entered on projects.
+ */
+export function ProjectFieldsView({ fields, projects, onSave, onDelete }: {
+  fields: Record<string, ProjectField>;
+  projects: Record<string, ProjectMeta>;
+  onSave: (field: ProjectField) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState<FieldDraft | null>(null);
+  const [errors, setErrors] = useState<{ label?: string; options?: string }>({});
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const list = sortFields(fields);
+  const usage = (id: string) => Object.values(projects).filter((p) => p.customFields?.[id]).length;
+
+  function open(f?: ProjectField) {
+    setDraft(toDraft(f));
+    setErrors({});
+  }
+
+  function save() {
+    if (!draft) return;
+    const label = draft.label.trim();
+    const options = Array.from(new Set(draft.optionsText.split("\n").map((o) => o.trim()).filter(Boolean)));
+    const found = {
+      label: !label ? "Enter a label." : list.some((f) => f.id !== draft.id && f.label.toLowerCase() === label.toLowerCase()) ? "Another field has this label." : undefined,
+      options: draft.type === "select" && options.length < 2 ? "Enter at least two options, one per line." : undefined,
+    };
+    setErrors(found);
+    if (found.label || found.options) return;
+    const prev = draft.id ? fields[draft.id] : undefined;
+    const now = Date.now();
+    onSave({
+      id: draft.id ?? newId(),
+      label,
+      type: draft.type,
+      options: draft.type === "select" ? options : undefined,
+      required: draft.required || undefined,
+      createdAt: prev?.createdAt ?? now,
+      updatedAt: now,
+    });
+    setDraft(null);
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Button className="w-full h-12 rounded-xl" onClick={() => open()}><Plus className="h-4 w-4 mr-2" /> New Field</Button>
+
+      {list.length === 0 ? (
+        <Card className="border-0 shadow-sm">
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">No custom fields. Projects have the standard details only.</CardContent>
+        </Card>
+      ) : (
+        list.map((f) => (
+          <Card key={f.id} className="border-0 shadow-sm">
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-semibold truncate flex items-center gap-2"><SlidersHorizontal className="h-4 w-4 shrink-0" /> {f.label}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {FIELD_TYPE_LABELS[f.type]}{f.type === "select" ? ` (${(f.options || []).length} options)` : ""}{f.required ? " · required" : ""} · filled in on {usage(f.id)} project(s)
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="icon" variant="ghost" title="Edit" onClick={() => open(f)}><Pencil className="h-4 w-4" /></Button>
+                  <Button size="icon" variant="ghost" title="Delete" onClick={() => setDeleting(f.id)}><Trash2 className="h-4 w-4" /></Button>
+                </div>
+              </div>
+              {deleting === f.id && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="flex-1">Delete this field? Values already entered are kept but no longer shown.</span>
+                  <Button size="sm" variant="outline" onClick={() => setDeleting(null)}>Cancel</Button>
+                  <Button size="sm" variant="destructive" onClick={() => { onDelete(f.id); setDeleting(null); }}><Trash2 /> Delete</Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={!!draft} onOpenChange={(o) => { if (!o) setDraft(null); }}>
+        <DialogContent className="sm:max-w-md rounded-2xl">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Field" : "New Field"}</DialogTitle>
+            <DialogDescription>Filled in for each project in the project dialog and printed on report covers.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="field-label">Label</Label>
+                <Input id="field-label" placeholder="e.g., Lot number" value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} aria-invalid={!!errors.label} className={errors.label ? "border-red-500" : ""} />
+                {errors.label && <p className="text-xs text-red-600">{errors.label}</p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="field-type">Type</Label>
+                <NativeSelect id="field-type" value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value as ProjectFieldType })}>
+                  {Object.entries(FIELD_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </NativeSelect>
+              </div>
+              {draft.type === "select" && (
+                <div className="space-y-1">
+                  <Label htmlFor="field-options">Options</Label>
+                  <Textarea id="field-options" rows={4} placeholder="One option per line" value={draft.optionsText} onChange={(e) => setDraft({ ...draft, optionsText: e.target.value })} aria-invalid={!!errors.options} className={errors.options ? "border-red-500" : ""} />
+                  {errors.options && <p className="text-xs text-red-600">{errors.options}</p>}
+                </div>
+              )}
+              <label className="flex items-center gap-3 text-sm">
+                <input type="checkbox" className="h-4 w-4" checked={draft.required} onChange={(e) => setDraft({ ...draft, required: e.target.checked })} />
+                <span>Required when saving a project</span>
+              </label>
+              <Button className="w-full h-12 rounded-xl" onClick={save}><Save className="h-4 w-4 mr-2" /> Save Field</Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Pencil, Save, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import type { InspectionEntry, ProjectMeta } from "@/lib/types";
+
+type ProjectSort = "updated" | "created" | "inspections";
+
+/** A project as listed: its metadata, or only inspections when its details were never entered. */
+type ProjectRow = { id: string; meta?: ProjectMeta; count: number; createdAt: number; updatedAt: number };
+
+function projectRows(projects: Record<string, ProjectMeta>, inspections: Record<string, InspectionEntry[]>): ProjectRow[] {
+  const ids = Array.from(new Set([...Object.keys(projects), ...Object.keys(inspections).filter((id) => inspections[id].length > 0)]));
+  return ids.map((id) => {
+    const meta = projects[id];
+    const entries = inspections[id] || [];
+    return {
+      id,
+      meta,
+      count: entries.length,
+      // Without metadata, the entries tell when the project started and last changed
+      createdAt: meta?.createdAt ?? Math.min(...entries.map((e) => e.createdAt)),
+      updatedAt: meta?.updatedAt ?? Math.max(...entries.map((e) => e.updatedAt)),
+    };
+  });
+}
+
+/**
+ * Searchable list of every project with rename / archive / delete actions.
+ * Includes projects that only have inspections, so their details can be added.
+ */
+export function ProjectsView({ projects, inspections, onOpen, onEdit, onToggleArchive, onRename, onDelete }: {
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  onOpen: (id: string) => void;
+  onEdit: (id: string) => void;
+  onToggleArchive: (id: string) => void;
+  onRename: (fromId: string, toId: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<unknown>;
+}) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<ProjectSort>("updated");
+  const [showArchived, setShowArchived] = useState(false);
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const count = (id: string) => (inspections[id] || []).length;
+  const q = query.trim().toLowerCase();
+  const all = projectRows(projects, inspections);
+  const archivedCount = all.filter((p) => p.meta?.archived).length;
+  const list = all
+    .filter((p) => showArchived || !p.meta?.archived)
+    .filter((p) => !q || [p.id, p.meta?.address ?? "", p.meta?.scope ?? ""].some((v) => v.toLowerCase().includes(q)))
+    .sort((a, b) => {
+      if (sort === "created") return b.createdAt - a.createdAt;
+      if (sort === "inspections") return b.count - a.count || b.updatedAt - a.updatedAt;
+      return b.updatedAt - a.updatedAt;
+    });
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input className="pl-9" placeholder="Search ID, address or scope" value={query} onChange={(e) => setQuery(e.target.value)} />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Tabs value={sort} onValueChange={(v) => setSort(v as ProjectSort)}>
+          <TabsList>
+            <TabsTrigger value="updated">Updated</TabsTrigger>
+            <TabsTrigger value="created">Created</TabsTrigger>
+            <TabsTrigger value="inspections">Inspections</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {archivedCount > 0 && (
+          <Button size="sm" variant="ghost" onClick={() => setShowArchived(!showArchived)}>
+            {showArchived ? "Hide" : "Show"} archived ({archivedCount})
+          </Button>
+        )}
+      </div>
+
+      {list.length === 0 ? (
+        <Card className="border-0 shadow-sm">
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">{all.length === 0 ? "No projects yet." : "No matching projects."}</CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {list.map(({ id, meta: p, count: n, createdAt, updatedAt }) => (
+            <Card key={id} className={`border-0 shadow-sm ${p?.archived ? "opacity-60" : ""}`}>
+              <CardContent className="p-4 space-y-3">
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold truncate">{id}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">{n} inspection(s){p?.archived ? " · archived" : ""}</span>
+                  </div>
+                  {p ? (
+                    <>
+                      <div className="text-sm text-muted-foreground truncate">{p.address || "(no address)"}</div>
+                      {p.scope && <div className="text-sm text-muted-foreground line-clamp-2">{p.scope}</div>}
+                      <div className="text-xs text-muted-foreground">
+                        Updated {new Date(updatedAt).toLocaleDateString()}{p.updatedBy ? ` by ${p.updatedBy.name}` : ""} · Created {new Date(createdAt).toLocaleDateString()}{p.createdBy ? ` by ${p.createdBy.name}` : ""}
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-sm text-muted-foreground">No project details yet. Use Edit to add them.</div>
+                      <div className="text-xs text-muted-foreground">Last inspection change {new Date(updatedAt).toLocaleDateString()}</div>
+                    </>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={() => onOpen(id)}>Open</Button>
+                  <Button size="sm" variant="outline" onClick={() => onEdit(id)}><Pencil /> Edit</Button>
+                  <Button size="sm" variant="outline" onClick={() => setRenaming({ from: id, to: id })}>Rename</Button>
+                  <Button size="sm" variant="outline" onClick={() => onToggleArchive(id)}>
+                    {p?.archived ? <><ArchiveRestore /> Restore</> : <><Archive /> Archive</>}
+                  </Button>
+                  <Button size="sm" variant="ghost" title="Delete" onClick={() => setDeleting(id)}><Trash2 /></Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!renaming} onOpenChange={(open) => { if (!open) setRenaming(null); }}>
+        <DialogContent className="sm:max-w-md rounded-2xl">
+          <DialogHeader>
+            <DialogTitle>Rename Project</DialogTitle>
+            <DialogDescription>Inspections and photos move to the new Project ID.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="rename-id">New Project ID</Label>
+              <Input id="rename-id" value={renaming?.to ?? ""} onChange={(e) => renaming && setRenaming({ ...renaming, to: e.target.value })} />
+            </div>
+            <Button
+              className="w-full h-12 rounded-xl"
+              onClick={async () => {
+                if (renaming && (await onRename(renaming.from, renaming.to))) setRenaming(null);
+              }}
+            >
+              <Save className="h-4 w-4 mr-2" /> Rename
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => { if (!open) setDeleting(null); }}
+        title={`Delete project ${deleting ?? ""}?`}
+        description={deleting ? `Its ${count(deleting)} inspection(s) and all their photos will be permanently removed.` : ""}
+        confirmLabel="Delete"
+        onConfirm={async () => {
+          if (!deleting) return;
+          await onDelete(deleting);
+          setDeleting(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { ArrowRight, CalendarClock, MapPin, Pencil, RotateCcw, Trash2, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AsyncImage } from "@/components/AsyncImage";
+import { localDate } from "@/lib/report";
+import { isOutstanding, isOverdue, livePhotoKeys, nextStatus, SEVERITY_LABELS, sortDeficiencies, STATUS_LABELS } from "@/lib/deficiencies";
+import type { Deficiency, DeficiencySeverity, DeficiencyStatus, InspectionEntry } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+type PunchFilter = "outstanding" | "resolved" | "all";
+
+const SEVERITY_CLASSES: Record<DeficiencySeverity, string> = {
+  critical: "bg-red-600 text-white",
+  high: "bg-red-100 text-red-800",
+  medium: "bg-amber-100 text-amber-800",
+  low: "bg-neutral-100 text-neutral-700",
+};
+
+const NEXT_STEP_LABELS: Record<DeficiencyStatus, string> = {
+  open: "Start work",
+  in_progress: "Mark resolved",
+  resolved: "Verify fix",
+  verified: "",
+};
+
+/**
+ * A project's punch list: every deficiency with its status, due date and before/after photos.
+ * Each is moved along open -> in progress -> resolved -> verified here, or resolved from a later entry's timeline card.
+ */
+export function PunchListView({ projectId, deficiencies, entries, photoURLFromKey, onEdit, onStatusChange, onDelete, onOpenTimeline }: {
+  projectId: string;
+  deficiencies: Deficiency[];
+  entries: InspectionEntry[]; // the project's, to label where each was found and resolved
+  photoURLFromKey: (k: string) => Promise<string>;
+  onEdit: (d: Deficiency) => void;
+  onStatusChange: (d: Deficiency, status: DeficiencyStatus) => void;
+  onDelete: (d: Deficiency) => void;
+  onOpenTimeline: () => void;
+}) {
+  const [filter, setFilter] = useState<PunchFilter>("outstanding");
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const today = localDate();
+  const entryLabel = (id?: string) => {
+    const e = entries.find((x) => x.id === id);
+    return e ? `${e.date} ${e.time}` : "a deleted entry";
+  };
+  const outstanding = deficiencies.filter(isOutstanding);
+  const overdue = deficiencies.filter((d) => isOverdue(d, today));
+  const list = sortDeficiencies(deficiencies).filter((d) => filter === "all" || (filter === "outstanding" ? isOutstanding(d) : !isOutstanding(d)));
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm">
+          <span className="font-semibold">Project {projectId}</span>
+          <span className="text-muted-foreground"> · {outstanding.length} outstanding</span>
+          {overdue.length > 0 && <span className="font-medium text-red-700"> · {overdue.length} overdue</span>}
+        </div>
+        <Button size="sm" variant="ghost" onClick={onOpenTimeline}>Timeline</Button>
+      </div>
+
+      <Tabs value={filter} onValueChange={(v) => setFilter(v as PunchFilter)}>
+        <TabsList className="w-full">
+          <TabsTrigger value="outstanding" className="flex-1">Outstanding</TabsTrigger>
+          <TabsTrigger value="resolved" className="flex-1">Closed</TabsTrigger>
+          <TabsTrigger value="all" className="flex-1">All</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {list.length === 0 ? (
+        <Card className="border-0 shadow-sm">
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">
+            {deficiencies.length === 0 ? "No deficiencies logged. Log one from an entry on the timeline." : "Nothing here."}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {list.map((d) => {
+            const before = livePhotoKeys(d.photoKeys, entries);
+            const after = livePhotoKeys(d.afterPhotoKeys, entries);
+            const next = nextStatus(d.status);
+            return (
+              <Card key={d.id} className="border-0 shadow-sm">
+                <CardContent className="p-4 space-y-3">
+                  <div className="space-y-1">
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="font-semibold">{d.title}</span>
+                      <span className={cn("shrink-0 rounded-full px-2 py-0.5 text-xs font-medium", SEVERITY_CLASSES[d.severity])}>{SEVERITY_LABELS[d.severity]}</span>
+                    </div>
+                    <div className="text-sm">{STATUS_LABELS[d.status]}</div>
+                    <div className="text-xs text-muted-foreground space-y-0.5">
+                      {d.location && <div className="flex items-center gap-1"><MapPin className="h-3.5 w-3.5" /> {d.location}</div>}
+                      {d.assignee && <div className="flex items-center gap-1"><User className="h-3.5 w-3.5" /> {d.assignee}</div>}
+                      {d.dueDate && (
+                        <div className={cn("flex items-center gap-1", isOverdue(d, today) && "font-medium text-red-700")}>
+                          <CalendarClock className="h-3.5 w-3.5" /> Due {d.dueDate}{isOverdue(d, today) ? " (overdue)" : ""}
+                        </div>
+                      )}
+                      <div>Found in inspection {entryLabel(d.foundIn)}{d.createdBy ? ` by ${d.createdBy.name}` : ""}</div>
+                      {d.closedIn && <div>Resolved in inspection {entryLabel(d.closedIn)}</div>}
+                    </div>
+                  </div>
+
+                  {(before.length > 0 || after.length > 0) && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <div className="text-xs font-medium text-muted-foreground">Before</div>
+                        <div className="grid grid-cols-2 gap-1">
+                          {before.map((k) => <AsyncImage key={k} idKey={k} photoURLFromKey={photoURLFromKey} />)}
+                        </div>
+                      </div>
+                      <div className="space-y-1">
+                        <div className="text-xs font-medium text-muted-foreground">After</div>
+                        <div className="grid grid-cols-2 gap-1">
+                          {after.map((k) => <AsyncImage key={k} idKey={k} photoURLFromKey={photoURLFromKey} />)}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {deleting === d.id ? (
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="flex-1">Delete this deficiency?</span>
+                      <Button size="sm" variant="outline" onClick={() => setDeleting(null)}>Cancel</Button>
+                      <Button size="sm" variant="destructive" onClick={() => { onDelete(d); setDeleting(null); }}><Trash2 /> Delete</Button>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {next && <Button size="sm" onClick={() => onStatusChange(d, next)}><ArrowRight /> {NEXT_STEP_LABELS[d.status]}</Button>}
+                      {!isOutstanding(d) && <Button size="sm" variant="outline" onClick={() => onStatusChange(d, "open")}><RotateCcw /> Reopen</Button>}
+                      <Button size="sm" variant="outline" onClick={() => onEdit(d)}><Pencil /> Edit</Button>
+                      <Button size="sm" variant="ghost" title="Delete" onClick={() => setDeleting(d.id)}><Trash2 /></Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, FileDown, Folder, MapPin, Paperclip, Pencil, PenLine, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AsyncImage } from "@/components/AsyncImage";
+import { ChecklistSummary } from "@/components/ChecklistSummary";
+import { FilterChips } from "@/components/EntryFilters";
+import { SignOffList } from "@/components/SignOffList";
+import { failedItems } from "@/lib/checklists";
+import { SEVERITY_LABELS, STATUS_LABELS, type DeficiencyReportItem } from "@/lib/deficiencies";
+import { describeExif, describeMismatch, exifMismatchHours } from "@/lib/exif";
+import { describeFilter, type EntryFilter, type FilterOptions } from "@/lib/filters";
+import { formatPosition } from "@/lib/geo";
+import { buildReportPdf } from "@/lib/pdf";
+import { projectSummary } from "@/lib/projects";
+import { describeAttachment, inspectorsOf } from "@/lib/report";
+import { entryContentHash, reportContentHash } from "@/lib/signoff";
+import type { InspectionEntry, ProjectField, ProjectMeta, ReportSignOff } from "@/lib/types";
+import { downloadBlob } from "@/lib/utils";
+
+/**
+ * Read-only report for one project: cover, entries oldest first, photo grid, deficiencies with before/after photos, sign-offs.
+ * Laid out for print (see the print rules in index.css) and exportable as PDF.
+ */
+export function ReportView({ projectId, project, entries, filter, filterOptions, signOffs, fields, deficiencies, photoURLFromKey, loadPhoto, onFilterChange, onSignOff, onOpenTimeline }: {
+  projectId: string;
+  project?: ProjectMeta;
+  entries: InspectionEntry[]; // already filtered, in report order
+  filter: EntryFilter;
+  filterOptions: FilterOptions;
+  signOffs: ReportSignOff[]; // made for this date range; none when other criteria are set
+  fields: ProjectField[]; // custom project fields, in display order
+  deficiencies: DeficiencyReportItem[]; // found or resolved in these entries
+  photoURLFromKey: (k: string) => Promise<string>;
+  loadPhoto: (key: string) => Promise<Blob | undefined>;
+  onFilterChange: (filter: EntryFilter) => void;
+  onSignOff?: () => void; // only date ranges can be signed off
+  onOpenTimeline: () => void;
+}) {
+  const [exporting, setExporting] = useState(false);
+  const rangeLabel = describeFilter(filter, filterOptions);
+  const photoCount = entries.reduce((n, e) => n + e.photoKeys.length, 0);
+  const failed = failedItems(entries);
+  const inspectors = inspectorsOf(entries);
+
+  async function exportPdf() {
+    setExporting(true);
+    try {
+      const blob = await buildReportPdf({ projectId, project, fields, entries, rangeLabel, signOffs, deficiencies, loadPhoto });
+      downloadBlob(blob, `report-${projectId}${filter.from ? `-${filter.from}` : ""}${filter.to && filter.to !== filter.from ? `_${filter.to}` : ""}.pdf`);
+      toast.success("PDF exported.");
+    } catch {
+      toast.error("Could not generate the PDF.");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4 print:max-w-none print:p-0">
+      <div className="grid grid-cols-2 gap-2 print:hidden">
+        <Button variant="outline" className="h-12 rounded-xl" onClick={() => window.print()}><Printer className="h-4 w-4 mr-2" /> Print</Button>
+        <Button className="h-12 rounded-xl" onClick={exportPdf} disabled={exporting}><FileDown className="h-4 w-4 mr-2" /> {exporting ? "Exporting..." : "Export PDF"}</Button>
+        {onSignOff ? (
+          <Button variant="outline" className="col-span-2 h-12 rounded-xl" onClick={onSignOff}><PenLine className="h-4 w-4 mr-2" /> Sign off this report</Button>
+        ) : (
+          <div className="col-span-2 text-center text-xs text-muted-foreground">Sign-offs cover date ranges only; remove the other filters to sign off.</div>
+        )}
+        <Button variant="ghost" className="col-span-2" onClick={onOpenTimeline}><Pencil className="h-4 w-4 mr-2" /> Edit entries in timeline</Button>
+      </div>
+      <FilterChips filter={filter} options={filterOptions} onChange={onFilterChange} />
+
+      <section className="rounded-xl bg-white p-6 shadow-sm space-y-4 print:shadow-none print:min-h-[90vh] print:break-after-page">
+        <div className="text-xs uppercase tracking-wide text-muted-foreground">Inspection Report</div>
+        <div className="flex items-center gap-2 text-2xl font-bold tracking-tight">
+          <Folder className="h-6 w-6" /> Project {projectId}
+        </div>
+        <div className="text-sm space-y-1">
+          <div><span className="font-medium">Address:</span> {project?.address || "—"}</div>
+          <div className="whitespace-pre-wrap"><span className="font-medium">Scope:</span> {project?.scope || "—"}</div>
+          {projectSummary(project, fields).map(({ label, value }, i) => (
+            <div key={i}><span className="font-medium">{label}:</span> {value}</div>
+          ))}
+        </div>
+        <div className="text-sm text-muted-foreground space-y-1">
+          <div>Period: {rangeLabel}</div>
+          <div>{entries.length} inspection(s), {photoCount} photo(s)</div>
+          {inspectors.length > 0 && <div>Inspected by {inspectors.join(", ")}</div>}
+          <div>Generated {new Date().toLocaleString()}</div>
+        </div>
+        {failed.length > 0 && (
+          <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm space-y-1">
+            <div className="font-medium text-red-800">{failed.length} failed checklist item(s)</div>
+            <ul className="list-disc pl-5 text-red-900">
+              {failed.map(({ entry, section, item }) => (
+                <li key={`${entry.id}-${item.id}`}>
+                  {entry.date}: {section} — {item.label}{item.comment ? ` (${item.comment})` : ""}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      {entries.length === 0 ? (
+        <div className="rounded-xl bg-white py-10 text-center text-sm text-muted-foreground shadow-sm">No inspections match this report's filters.</div>
+      ) : (
+        entries.map((entry) => (
+          <section key={entry.id} className="rounded-xl bg-white p-4 shadow-sm space-y-3 print:shadow-none print:break-inside-avoid-page">
+            <div className="flex items-baseline justify-between border-b pb-2">
+              <span className="font-semibold">{entry.date}</span>
+              <span className="text-sm text-muted-foreground">{entry.time}</span>
+            </div>
+            {entry.author && <div className="text-xs text-muted-foreground">Inspected by {entry.author.name}</div>}
+            {entry.revisions && entry.revisions.length > 0 && (
+              <div className="text-xs text-muted-foreground">
+                Edited {entry.revisions.length} time(s), last on {new Date(entry.updatedAt).toLocaleString()}
+              </div>
+            )}
+            {entry.location && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <MapPin className="h-3.5 w-3.5" /> Recorded at {formatPosition(entry.location.lat, entry.location.lng)} (±{entry.location.accuracy} m)
+              </div>
+            )}
+            <div className="text-sm leading-relaxed whitespace-pre-wrap">{entry.notes || "(no notes)"}</div>
+            {entry.checklist && <ChecklistSummary checklist={entry.checklist} photoURLFromKey={photoURLFromKey} annotations={entry.annotations} />}
+            {entry.photoKeys.length > 0 && (
+              <div className="grid grid-cols-2 gap-3">
+                {entry.photoKeys.map((k, i) => {
+                  const meta = entry.photoMeta?.[k];
+                  const mismatch = exifMismatchHours(entry, meta?.exif);
+                  return (
+                    <figure key={k} className="space-y-1 break-inside-avoid">
+                      <AsyncImage idKey={k} photoURLFromKey={photoURLFromKey} className="aspect-[4/3]" fit="contain" annotations={entry.annotations?.[k]} />
+                      <figcaption className="text-xs text-muted-foreground">
+                        Photo {i + 1} — {entry.date} {entry.time}
+                        {meta?.caption && <span className="block text-neutral-900">{meta.caption}</span>}
+                        {meta?.tags?.length ? <span className="block">{meta.tags.map((t) => `#${t}`).join(" ")}</span> : null}
+                        {meta?.exif && <span className="block">{describeExif(meta.exif).join(" · ")}</span>}
+                        {mismatch && <span className="flex items-center gap-1 text-amber-700"><AlertTriangle className="h-3 w-3" /> {describeMismatch(mismatch)}</span>}
+                      </figcaption>
+                    </figure>
+                  );
+                })}
+              </div>
+            )}
+            {entry.attachments && entry.attachments.length > 0 && (
+              <div className="flex items-start gap-1 text-xs text-muted-foreground">
+                <Paperclip className="h-3.5 w-3.5 shrink-0 mt-0.5" /> Attachments: {entry.attachments.map(describeAttachment).join(", ")}
+              </div>
+            )}
+            {entry.signOffs && entry.signOffs.length > 0 && (
+              <SignOffList signOffs={entry.signOffs} hash={() => entryContentHash(entry, loadPhoto)} version={entry.updatedAt} />
+            )}
+          </section>
+        ))
+      )}
+
+      {deficiencies.length > 0 && (
+        <section className="rounded-xl bg-white p-4 shadow-sm space-y-4 print:shadow-none">
+          <div className="font-semibold border-b pb-2">Deficiencies</div>
+          {deficiencies.map(({ deficiency: d, found, closed, before, after }) => (
+            <div key={d.id} className="space-y-2 break-inside-avoid">
+              <div className="text-sm">
+                <div className="font-medium">{d.title} <span className="text-muted-foreground">({SEVERITY_LABELS[d.severity]}, {STATUS_LABELS[d.status].toLowerCase()})</span></div>
+                <div className="text-xs text-muted-foreground">
+                  {[d.location, d.assignee && `Assigned to ${d.assignee}`, d.dueDate && `Due ${d.dueDate}`].filter(Boolean).join(" · ")}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Found {found ? `${found.date} ${found.time}` : "in a deleted entry"}{d.closedIn ? `, resolved ${closed ? `${closed.date} ${closed.time}` : "in a deleted entry"}` : ""}
+                </div>
+              </div>
+              {(before.length > 0 || after.length > 0) && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">Before</div>
+                    {before.map((k) => <AsyncImage key={k} idKey={k} photoURLFromKey={photoURLFromKey} className="aspect-[4/3]" fit="contain" annotations={found?.annotations?.[k]} />)}
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">After</div>
+                    {after.map((k) => <AsyncImage key={k} idKey={k} photoURLFromKey={photoURLFromKey} className="aspect-[4/3]" fit="contain" annotations={closed?.annotations?.[k]} />)}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </section>
+      )}
+
+      {signOffs.length > 0 && (
+        <section className="rounded-xl bg-white p-4 shadow-sm space-y-3 print:shadow-none print:break-inside-avoid-page">
+          <div className="font-semibold border-b pb-2">Sign-off</div>
+          <SignOffList signOffs={signOffs} hash={() => reportContentHash(entries, loadPhoto)} version={entries.map((e) => `${e.id}:${e.updatedAt}`).join("|")} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { PhotoPicker } from "@/components/PhotoPicker";
+import { SEVERITY_LABELS, STATUS_LABELS } from "@/lib/deficiencies";
+import type { Deficiency } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+/**
+ * Closes an outstanding deficiency from a later entry, with that entry's photos of the fix as "after" photos.
+ */
+export function ResolveDeficiencyDialog({ subject, deficiencies, photoKeys, photoURLFromKey, onOpenChange, onResolve }: {
+  subject: string | null; // e.g. "Inspection 2024-05-08 14:00"; null closes the dialog
+  deficiencies: Deficiency[]; // outstanding ones found in other entries
+  photoKeys: string[]; // the resolving entry's photos
+  photoURLFromKey: (k: string) => Promise<string>;
+  onOpenChange: (open: boolean) => void;
+  onResolve: (deficiencyId: string, afterPhotoKeys: string[]) => void;
+}) {
+  const [chosen, setChosen] = useState<string | null>(null);
+  const [after, setAfter] = useState<string[]>([]);
+
+  useEffect(() => {
+    setChosen(null);
+    setAfter([]);
+  }, [subject]);
+
+  function handleResolve() {
+    if (!chosen) return toast.error("Choose the deficiency this entry resolves.");
+    if (after.length === 0) return toast.error("Pick at least one photo showing the fix.");
+    onResolve(chosen, after);
+  }
+
+  return (
+    <Dialog open={!!subject} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Resolve Deficiency</DialogTitle>
+          <DialogDescription>{subject}. The photos picked here appear as "after" next to the deficiency's "before" photos.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {deficiencies.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No outstanding deficiencies in this project.</div>
+          ) : (
+            <div className="space-y-2">
+              {deficiencies.map((d) => (
+                <button
+                  key={d.id}
+                  type="button"
+                  onClick={() => setChosen(d.id)}
+                  className={cn("w-full rounded-xl border px-3 py-2 text-left text-sm", chosen === d.id && "border-neutral-900 bg-neutral-50")}
+                >
+                  <div className="font-medium">{d.title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {SEVERITY_LABELS[d.severity]} · {STATUS_LABELS[d.status]}{d.location ? ` · ${d.location}` : ""}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label>After photos</Label>
+            <PhotoPicker keys={photoKeys} selected={after} onChange={setAfter} photoURLFromKey={photoURLFromKey} />
+          </div>
+          <Button className="w-full h-12 rounded-xl" onClick={handleResolve} disabled={deficiencies.length === 0}><CheckCircle2 className="h-4 w-4 mr-2" /> Mark resolved</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
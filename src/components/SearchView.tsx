@@ -0,0 +1,108 @@
+import { useDeferredValue, useEffect, useMemo, useState } from "react";
+import { Folder, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import type { SearchFilters, SearchIndex } from "@/lib/search";
+import type { InspectionEntry, ProjectMeta } from "@/lib/types";
+
+/**
+ * Search across every project's details, entry notes and photo captions/tags, narrowed by project,
+ * date range and author. Tapping a result opens the project's timeline at that entry.
+ */
+export function SearchView({ index, projects, inspections, onOpen }: {
+  index: SearchIndex; // kept by the caller so it survives leaving this screen
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  onOpen: (projectId: string, entry?: InspectionEntry) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const deferredQuery = useDeferredValue(query);
+
+  const [indexed, setIndexed] = useState(0); // bumped each time the index catches up with the data
+
+  // Outside render: the index is shared and mutated. Only records changed since it last saw them are re-indexed
+  useEffect(() => {
+    index.update(projects, inspections);
+    setIndexed((n) => n + 1);
+  }, [index, projects, inspections]);
+
+  // `indexed` stands in for the index's contents, which React cannot see change
+  const results = useMemo(() => index.search(deferredQuery, filters), [index, indexed, deferredQuery, filters]);
+
+  const projectIds = useMemo(() => Array.from(new Set([...Object.keys(projects), ...Object.keys(inspections)])).sort(), [projects, inspections]);
+  const authors = useMemo(() => {
+    const byId = new Map<string, string>();
+    Object.values(inspections).flat().forEach((e) => e.author && byId.set(e.author.id, e.author.name));
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [inspections]);
+  const filtered = !!(filters.projectId || filters.from || filters.to || filters.authorId);
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input autoFocus className="h-12 rounded-xl pl-9" placeholder="Notes, addresses, clients, captions, #tags..." value={query} onChange={(e) => setQuery(e.target.value)} />
+      </div>
+
+      <Card className="border-0 shadow-sm">
+        <CardContent className="p-4 grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="search-project">Project</Label>
+            <NativeSelect id="search-project" value={filters.projectId ?? ""} onChange={(e) => setFilters({ ...filters, projectId: e.target.value || undefined })}>
+              <option value="">All projects</option>
+              {projectIds.map((id) => <option key={id} value={id}>{id}</option>)}
+            </NativeSelect>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-author">Inspector</Label>
+            <NativeSelect id="search-author" value={filters.authorId ?? ""} onChange={(e) => setFilters({ ...filters, authorId: e.target.value || undefined })}>
+              <option value="">Anyone</option>
+              {authors.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </NativeSelect>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-from">From</Label>
+            <Input id="search-from" type="date" value={filters.from ?? ""} onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-to">To</Label>
+            <Input id="search-to" type="date" value={filters.to ?? ""} onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })} />
+          </div>
+          {filtered && (
+            <Button size="sm" variant="ghost" className="col-span-2" onClick={() => setFilters({})}>Clear filters</Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {!deferredQuery.trim() ? (
+        <div className="text-center text-sm text-muted-foreground">Searching {index.size} projects and entries. Words match by their start and tolerate small typos.</div>
+      ) : results.length === 0 ? (
+        <Card className="border-0 shadow-sm">
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">No matches{filtered ? " with these filters" : ""}.</CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">{results.length} result(s)</div>
+          {results.map(({ doc, field, snippet }) => (
+            <button key={doc.id} type="button" onClick={() => onOpen(doc.projectId, doc.entry)} className="w-full rounded-xl bg-white p-3 text-left shadow-sm hover:bg-neutral-50 space-y-1">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-1 font-medium"><Folder className="h-4 w-4" /> Project {doc.projectId}</span>
+                <span className="text-xs text-muted-foreground">{doc.entry ? `${doc.entry.date} ${doc.entry.time}` : "Project details"}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {field}{doc.entry?.author ? ` · ${doc.entry.author.name}` : ""}
+              </div>
+              <div className="text-sm leading-relaxed">
+                {snippet.map((part, i) => (part.hit ? <mark key={i} className="rounded bg-amber-200 px-0.5">{part.text}</mark> : <span key={i}>{part.text}</span>))}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { KeyRound, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { AutoLockSettings } from "@/hooks/useAutoLock";
+
+const IDLE_OPTIONS = [1, 5, 15, 30, 0];
+
+/**
+ * Change the passcode and configure auto-lock.
+ */
+export function SecurityView({ autoLock, onAutoLockChange, onChangePasscode }: {
+  autoLock: AutoLockSettings;
+  onAutoLockChange: (next: AutoLockSettings) => void;
+  onChangePasscode: (current: string, next: string, confirm: string) => Promise<boolean>;
+}) {
+  const [form, setForm] = useState({ current: "", next: "", confirm: "" });
+  const [saving, setSaving] = useState(false);
+
+  async function handleChange() {
+    setSaving(true);
+    try {
+      if (await onChangePasscode(form.current, form.next, form.confirm)) setForm({ current: "", next: "", confirm: "" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold">Change passcode</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="pc-current">Current passcode</Label>
+            <Input id="pc-current" type="password" value={form.current} onChange={(e) => setForm({ ...form, current: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pc-next">New passcode</Label>
+            <Input id="pc-next" type="password" value={form.next} onChange={(e) => setForm({ ...form, next: e.target.value })} placeholder="4+ characters" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pc-confirm">Confirm new passcode</Label>
+            <Input id="pc-confirm" type="password" value={form.confirm} onChange={(e) => setForm({ ...form, confirm: e.target.value })} />
+          </div>
+          <Button className="w-full h-12 rounded-xl" onClick={handleChange} disabled={saving}>
+            <KeyRound className="h-4 w-4 mr-2" /> {saving ? "Updating..." : "Change Passcode"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold flex items-center gap-2"><Timer className="h-4 w-4" /> Auto-lock</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1">
+            <Label>Lock after inactivity</Label>
+            <div className="grid grid-cols-5 gap-2">
+              {IDLE_OPTIONS.map((m) => (
+                <Button key={m} size="sm" variant={autoLock.idleMinutes === m ? "default" : "outline"} onClick={() => onAutoLockChange({ ...autoLock, idleMinutes: m })}>
+                  {m === 0 ? "Never" : `${m} min`}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-3 text-sm">
+            <input type="checkbox" className="h-4 w-4" checked={autoLock.lockOnHide} onChange={(e) => onAutoLockChange({ ...autoLock, lockOnHide: e.target.checked })} />
+            Lock immediately when the app is hidden or the screen turns off
+          </label>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
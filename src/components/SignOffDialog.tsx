@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SignaturePad } from "@/components/SignaturePad";
+import type { SignOff } from "@/lib/types";
+
+export type SignOffFields = Pick<SignOff, "name" | "role" | "signature">;
+
+/**
+ * Captures a sign-off: the signer's name and role and a drawn signature. The signed-in user can
+ * instead use the signature saved on their profile.
+ */
+export function SignOffDialog({ subject, own, onOpenChange, onSign }: {
+  subject: string | null; // what is being signed, e.g. "Inspection 2024-05-01 09:30"; null closes the dialog
+  own?: { name: string; signature?: string }; // the signed-in profile, signature as a data URL
+  onOpenChange: (open: boolean) => void;
+  onSign: (fields: SignOffFields) => Promise<void>;
+}) {
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("");
+  const [drawn, setDrawn] = useState<string | null>(null);
+  const [useOwn, setUseOwn] = useState(false);
+  const [signing, setSigning] = useState(false);
+
+  useEffect(() => {
+    setName("");
+    setRole("");
+    setDrawn(null);
+    setUseOwn(false);
+  }, [subject]);
+
+  const signature = useOwn ? own?.signature : drawn;
+
+  async function handleSign() {
+    if (!name.trim()) return toast.error("Enter the signer's name.");
+    if (!signature) return toast.error("Sign in the box first.");
+    setSigning(true);
+    try {
+      await onSign({ name: name.trim(), role: role.trim(), signature });
+    } finally {
+      setSigning(false);
+    }
+  }
+
+  return (
+    <Dialog open={!!subject} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-2xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sign Off</DialogTitle>
+          <DialogDescription>
+            {subject}. The notes and photos are fixed as they are now; any later edit shows the signature as broken.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="signer-name">Name</Label>
+              <Input id="signer-name" value={name} onChange={(e) => setName(e.target.value)} disabled={useOwn} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="signer-role">Role</Label>
+              <Input id="signer-role" value={role} onChange={(e) => setRole(e.target.value)} placeholder="e.g. Client, Site supervisor" />
+            </div>
+          </div>
+          {useOwn && own?.signature ? (
+            <img src={own.signature} alt="Signature" className="max-h-32 rounded-xl border bg-white p-2" />
+          ) : (
+            <SignaturePad onChange={setDrawn} />
+          )}
+          {own?.signature && (
+            <label className="flex items-center gap-3 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={useOwn}
+                onChange={(e) => {
+                  setUseOwn(e.target.checked);
+                  setName(e.target.checked ? own.name : "");
+                  setDrawn(null);
+                }}
+              />
+              Sign as {own.name} with the signature saved on my profile
+            </label>
+          )}
+          <Button className="w-full h-12 rounded-xl" onClick={handleSign} disabled={signing}><PenLine className="h-4 w-4 mr-2" /> {signing ? "Signing..." : "Sign"}</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, ShieldAlert } from "lucide-react";
+import { checkSignOff } from "@/lib/signoff";
+import type { SignOff } from "@/lib/types";
+
+/**
+ * Sign-offs with their signatures, each checked against the content as it is now.
+ * `hash` recomputes the current content hash; it runs again whenever `version` changes.
+ */
+export function SignOffList({ signOffs, hash, version }: { signOffs: SignOff[]; hash: () => Promise<string>; version: string | number }) {
+  const [current, setCurrent] = useState<string | undefined>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setCurrent(undefined);
+    hash().then((h) => !cancelled && setCurrent(h), () => !cancelled && setCurrent(""));
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  return (
+    <div className="space-y-2">
+      {signOffs.map((s) => {
+        const check = current === undefined ? undefined : checkSignOff(s, current);
+        return (
+          <div key={s.id} className="rounded-xl border p-3 text-sm space-y-1 break-inside-avoid">
+            <img src={s.signature} alt={`Signature of ${s.name}`} className="max-h-16" />
+            <div>
+              <span className="font-medium">{s.name}</span>
+              {s.role && <span className="text-muted-foreground"> · {s.role}</span>}
+            </div>
+            <div className="text-xs text-muted-foreground">Signed {new Date(s.signedAt).toLocaleString()}</div>
+            {check === "valid" && (
+              <div className="flex items-center gap-1 text-xs text-emerald-700"><CheckCircle2 className="h-3.5 w-3.5" /> Unchanged since signing</div>
+            )}
+            {check === "changed" && (
+              <div className="flex items-center gap-1 text-xs font-medium text-red-700"><ShieldAlert className="h-3.5 w-3.5" /> Edited after signing: this signature no longer covers the content</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import { Eraser } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+const PAD_HEIGHT = 180; // css px
+const INK = "#111827";
+
+/**
+ * Canvas for a handwritten signature: finger, stylus (pressure-sensitive where supported) or mouse.
+ * Reports a transparent PNG data URL after each stroke, or null once cleared.
+ */
+export function SignaturePad({ onChange }: { onChange: (dataUrl: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const last = useRef<{ x: number; y: number } | null>(null);
+  const [empty, setEmpty] = useState(true);
+
+  // Backing store at device resolution so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(canvas.clientWidth * ratio);
+    canvas.height = Math.round(PAD_HEIGHT * ratio);
+    const ctx = canvas.getContext("2d")!;
+    ctx.scale(ratio, ratio);
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = INK;
+  }, []);
+
+  function pointFrom(e: React.PointerEvent<HTMLCanvasElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - r.left, y: e.clientY - r.top };
+  }
+
+  function handleDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    last.current = pointFrom(e);
+  }
+
+  function handleMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    const from = last.current;
+    if (!from) return;
+    const to = pointFrom(e);
+    const ctx = e.currentTarget.getContext("2d")!;
+    // Mice report 0.5 while pressed; pens vary the width with pressure
+    ctx.lineWidth = e.pointerType === "pen" ? 1 + e.pressure * 3 : 2.5;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    last.current = to;
+    if (empty) setEmpty(false);
+  }
+
+  function handleUp(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!last.current) return;
+    last.current = null;
+    if (!empty) onChange(e.currentTarget.toDataURL("image/png"));
+  }
+
+  function clear() {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    setEmpty(true);
+    onChange(null);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-xl border bg-white">
+        <canvas
+          ref={canvasRef}
+          className="block w-full touch-none"
+          style={{ height: PAD_HEIGHT }}
+          onPointerDown={handleDown}
+          onPointerMove={handleMove}
+          onPointerUp={handleUp}
+          onPointerCancel={handleUp}
+        />
+        {empty && <div className="pointer-events-none absolute inset-x-0 bottom-3 text-center text-xs text-muted-foreground">Sign here</div>}
+        <div className="pointer-events-none absolute inset-x-6 bottom-8 border-b border-dashed border-neutral-300" />
+      </div>
+      <Button size="sm" variant="ghost" onClick={clear} disabled={empty}><Eraser className="h-4 w-4 mr-1" /> Clear</Button>
+    </div>
+  );
+}
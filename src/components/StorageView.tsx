@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, Download, HardDrive, RefreshCw, ShieldCheck, Trash2, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { decryptJSON, isSealedJSON } from "@/lib/crypto";
+import type { QuarantinedRecord } from "@/lib/schema";
+import {
+  analyzeStorage,
+  estimateQuota,
+  formatBytes,
+  isPersisted,
+  quotaLevel,
+  requestPersistence,
+  type MissingPhoto,
+  type QuotaEstimate,
+  type StorageReport,
+} from "@/lib/storage";
+import type { InspectionEntry, ProjectMeta } from "@/lib/types";
+import { cn, downloadBlob } from "@/lib/utils";
+
+/**
+ * Storage usage (overall and per project), persistent storage, and an integrity scan
+ * of the photos store with purge of unreferenced Blobs and repair of dangling references.
+ * Quarantined records (data that failed to load) can be downloaded for recovery or discarded.
+ */
+export function StorageView({ projects, inspections, loadSizes, onPurge, onRepair, loadQuarantine, onDiscardQuarantined }: {
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  loadSizes: () => Promise<Record<string, number>>; // stored bytes by key in the photos store
+  onPurge: (keys: string[]) => Promise<void>;
+  onRepair: (missing: MissingPhoto[]) => void;
+  loadQuarantine: () => Promise<QuarantinedRecord[]>;
+  onDiscardQuarantined: (ids: number[]) => Promise<void>;
+}) {
+  const [estimate, setEstimate] = useState<QuotaEstimate | undefined>();
+  const [persisted, setPersisted] = useState(false);
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  async function refresh() {
+    setBusy(true);
+    try {
+      const [est, pers, sizes, quarantine] = await Promise.all([estimateQuota(), isPersisted(), loadSizes(), loadQuarantine()]);
+      setEstimate(est);
+      setPersisted(pers);
+      setReport(analyzeStorage(sizes, inspections));
+      setQuarantined(quarantine);
+    } catch {
+      toast.error("Could not read storage usage.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Rescan when entries change, e.g. after a repair
+  useEffect(() => {
+    refresh();
+  }, [inspections]);
+
+  async function handlePersist() {
+    if (await requestPersistence()) {
+      setPersisted(true);
+      toast.success("Storage is now persistent.");
+    } else {
+      toast.error("The browser declined. Installing the app or bookmarking it usually helps.");
+    }
+  }
+
+  async function handlePurge() {
+    if (!report) return;
+    setBusy(true);
+    try {
+      await onPurge(report.orphans.map((o) => o.key));
+      toast.success(`Removed ${report.orphans.length} unreferenced file(s).`);
+    } catch {
+      toast.error("Could not remove the files.");
+    } finally {
+      setBusy(false);
+    }
+    await refresh();
+  }
+
+  /** Saves the quarantined records, decrypted where possible, as one JSON file. */
+  async function handleDownloadQuarantine() {
+    const records = await Promise.all(
+      quarantined.map(async ({ data, ...rest }) => {
+        const content = isSealedJSON(data) ? await decryptJSON<unknown>(data).catch(() => data) : data;
+        return { ...rest, content };
+      })
+    );
+    downloadBlob(new Blob([JSON.stringify(records, null, 2)], { type: "application/json" }), `quarantine-${new Date().toISOString().slice(0, 10)}.json`);
+  }
+
+  async function handleDiscardQuarantine() {
+    setConfirmDiscard(false);
+    try {
+      await onDiscardQuarantined(quarantined.map((r) => r.id!));
+      setQuarantined([]);
+      toast.success("Quarantined records discarded.");
+    } catch {
+      toast.error("Could not discard the records.");
+    }
+  }
+
+  const level = quotaLevel(estimate);
+  const ratio = estimate ? estimate.usage / estimate.quota : 0;
+  const projectRows = report ? Object.entries(report.projects).sort((a, b) => b[1].bytes - a[1].bytes) : [];
+  const orphanBytes = report ? report.orphans.reduce((n, o) => n + o.bytes, 0) : 0;
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold flex items-center gap-2"><HardDrive className="h-4 w-4" /> Usage</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {estimate ? (
+            <div className="space-y-1">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-neutral-100">
+                <div
+                  className={cn("h-full rounded-full", level === "critical" ? "bg-red-600" : level === "warn" ? "bg-amber-500" : "bg-emerald-600")}
+                  style={{ width: `${Math.min(100, ratio * 100)}%` }}
+                />
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} available to this app ({Math.round(ratio * 100)}%)
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">This browser does not report its storage quota.</div>
+          )}
+          {level !== "ok" && (
+            <div className={cn("rounded-xl border px-3 py-2 text-sm flex gap-2", level === "critical" ? "bg-red-50 border-red-200 text-red-800" : "bg-amber-50 border-amber-200 text-amber-800")}>
+              <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+              <span>
+                {level === "critical" ? "Storage is almost full. New photos may fail to save." : "Storage is filling up."} Export a backup, then delete or archive old projects, or lower the photo size in Photo Settings.
+              </span>
+            </div>
+          )}
+          {report && <div className="text-sm">Photos and thumbnails: <span className="font-medium">{formatBytes(report.totalBytes)}</span></div>}
+          {persisted ? (
+            <div className="flex items-center gap-2 text-sm text-emerald-700"><ShieldCheck className="h-4 w-4" /> Persistent: the browser will not evict this data to free space.</div>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={handlePersist}><ShieldCheck className="h-4 w-4 mr-2" /> Request persistent storage</Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold">By project</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {projectRows.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{report ? "No stored files." : "Measuring..."}</div>
+          ) : (
+            projectRows.map(([id, usage]) => (
+              <div key={id} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0 truncate">
+                  <span className="font-medium">{id}</span>
+                  {projects[id]?.address && <span className="text-muted-foreground"> — {projects[id].address}</span>}
+                </div>
+                <div className="shrink-0 text-right tabular-nums">
+                  {formatBytes(usage.bytes)} <span className="text-muted-foreground">· {usage.files} file(s)</span>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold">Integrity</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report && report.orphans.length === 0 && report.missing.length === 0 && quarantined.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-emerald-700"><CheckCircle2 className="h-4 w-4" /> Every stored file is referenced and every reference has its file.</div>
+          )}
+          {report && report.orphans.length > 0 && (
+            <div className="rounded-xl border px-3 py-2 text-sm space-y-2">
+              <div>
+                <span className="font-medium">{report.orphans.length} unreferenced file(s)</span>, {formatBytes(orphanBytes)}. No inspection uses them, usually after a save that failed partway.
+              </div>
+              <Button size="sm" variant="destructive" onClick={handlePurge} disabled={busy}><Trash2 className="h-4 w-4 mr-1" /> Purge</Button>
+            </div>
+          )}
+          {report && report.missing.length > 0 && (
+            <div className="rounded-xl border px-3 py-2 text-sm space-y-2">
+              <div>
+                <span className="font-medium">{report.missing.length} missing file(s)</span> are referenced by inspections but have no stored file. Repair removes those references.
+              </div>
+              <div className="text-xs text-muted-foreground break-all max-h-24 overflow-y-auto">{report.missing.map((m) => m.key).join(", ")}</div>
+              <Button size="sm" variant="outline" onClick={() => onRepair(report.missing)} disabled={busy}><Wrench className="h-4 w-4 mr-1" /> Repair</Button>
+            </div>
+          )}
+          {quarantined.length > 0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm space-y-2">
+              <div className="text-amber-900">
+                <span className="font-medium">{quarantined.length} damaged record(s)</span> could not be loaded and were set aside instead of deleted.
+              </div>
+              <ul className="text-xs text-amber-900 space-y-1 max-h-32 overflow-y-auto">
+                {quarantined.map((r) => (
+                  <li key={r.id}>
+                    <span className="font-medium">{r.source}: {r.label}</span> — {r.reason} <span className="text-amber-700">({new Date(r.quarantinedAt).toLocaleDateString()})</span>
+                  </li>
+                ))}
+              </ul>
+              {confirmDiscard ? (
+                <div className="space-y-2">
+                  <div className="text-amber-900">Discard permanently? Download them first if they may be needed.</div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setConfirmDiscard(false)}>Cancel</Button>
+                    <Button size="sm" variant="destructive" onClick={handleDiscardQuarantine}><Trash2 className="h-4 w-4 mr-1" /> Discard</Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={handleDownloadQuarantine}><Download className="h-4 w-4 mr-1" /> Download</Button>
+                  <Button size="sm" variant="destructive" onClick={() => setConfirmDiscard(true)}><Trash2 className="h-4 w-4 mr-1" /> Discard</Button>
+                </div>
+              )}
+            </div>
+          )}
+          <Button variant="outline" className="w-full" onClick={refresh} disabled={busy}>
+            <RefreshCw className={cn("h-4 w-4 mr-2", busy && "animate-spin")} /> {busy ? "Scanning..." : "Scan again"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { describeRecord, type SyncChoice, type SyncConflict, type SyncSettings, type SyncStatus } from "@/lib/sync";
+
+const STATUS_TEXT: Record<SyncStatus, string> = {
+  off: "Sync is off.",
+  idle: "Up to date.",
+  syncing: "Syncing...",
+  offline: "Offline. Changes are kept and sent when the connection returns.",
+  error: "Last sync failed. Retrying automatically.",
+  conflict: "Some records were changed on this device and on the server. Choose which copy to keep.",
+};
+
+/**
+ * Sync server settings, status and conflict resolution. Conflicting records stay untouched
+ * on both sides until a copy is chosen here.
+ */
+export function SyncView({ settings, status, error, pending, lastSyncedAt, conflicts, onSave, onSync, onResolve }: {
+  settings: SyncSettings;
+  status: SyncStatus;
+  error?: string;
+  pending: number; // local changes not yet on the server
+  lastSyncedAt?: number;
+  conflicts: SyncConflict[];
+  onSave: (next: SyncSettings) => void;
+  onSync: () => void;
+  onResolve: (id: string, choice: SyncChoice) => void;
+}) {
+  const [form, setForm] = useState(settings);
+  useEffect(() => setForm(settings), [settings]);
+  const changed = form.endpoint.trim() !== settings.endpoint || form.token !== settings.token || form.auto !== settings.auto;
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold flex items-center gap-2">
+            {status === "off" || status === "offline" ? <CloudOff className="h-4 w-4" /> : <Cloud className="h-4 w-4" />} Status
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div>{STATUS_TEXT[status]}</div>
+          {status === "error" && error && <div className="text-red-700">{error}</div>}
+          {status !== "off" && (
+            <div className="text-muted-foreground">
+              {pending} change(s) waiting to be sent{lastSyncedAt ? ` · last synced ${new Date(lastSyncedAt).toLocaleString()}` : ""}
+            </div>
+          )}
+          <Button className="w-full" onClick={onSync} disabled={status === "off" || status === "syncing"}>
+            <RefreshCw className={status === "syncing" ? "h-4 w-4 mr-2 animate-spin" : "h-4 w-4 mr-2"} /> Sync now
+          </Button>
+        </CardContent>
+      </Card>
+
+      {conflicts.length > 0 && (
+        <Card className="border-0 shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-semibold flex items-center gap-2"><AlertTriangle className="h-4 w-4 text-amber-600" /> Conflicts ({conflicts.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {conflicts.map((c) => (
+              <div key={c.id} className="rounded-xl border p-3 text-sm space-y-2">
+                <div className="font-medium">{c.id.startsWith("project:") ? `Project ${c.remote.projectId}` : `Inspection in project ${c.remote.projectId}`}</div>
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div className="space-y-1">
+                    <div className="font-medium">This device</div>
+                    <div className="text-muted-foreground">{new Date(c.local.updatedAt).toLocaleString()}</div>
+                    <div className="break-words">{describeRecord(c.local)}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="font-medium">Server</div>
+                    <div className="text-muted-foreground">{new Date(c.remote.updatedAt).toLocaleString()}</div>
+                    <div className="break-words">{describeRecord(c.remote)}</div>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button size="sm" variant="outline" onClick={() => onResolve(c.id, "local")} disabled={status === "syncing"}>Keep mine</Button>
+                  <Button size="sm" variant="outline" onClick={() => onResolve(c.id, "remote")} disabled={status === "syncing"}>Use server's</Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base font-semibold">Server</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="sync-endpoint">Server URL</Label>
+            <Input id="sync-endpoint" inputMode="url" placeholder="https://sync.example.com (empty turns sync off)" value={form.endpoint} onChange={(e) => setForm({ ...form, endpoint: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sync-token">Access token</Label>
+            <Input id="sync-token" type="password" placeholder="Optional" value={form.token} onChange={(e) => setForm({ ...form, token: e.target.value })} />
+          </div>
+          <label className="flex items-center gap-3 text-sm">
+            <input type="checkbox" className="h-4 w-4" checked={form.auto} onChange={(e) => setForm({ ...form, auto: e.target.checked })} />
+            Sync automatically after changes and when back online
+          </label>
+          <div className="text-xs text-muted-foreground">
+            Projects, inspections and photos are sent decrypted to this server. Use HTTPS and a token. Checklist templates and settings stay on this device.
+          </div>
+          <Button className="w-full" disabled={!changed} onClick={() => onSave({ ...form, endpoint: form.endpoint.trim() })}>Save</Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
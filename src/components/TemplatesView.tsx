@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { ListChecks, Pencil, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { newId } from "@/lib/checklists";
+import type { ChecklistTemplate, ProjectMeta } from "@/lib/types";
+
+/** Editable form of a template: each section's items as one label per line. */
+type TemplateDraft = {
+  id?: string;
+  name: string;
+  sections: { id: string; title: string; itemsText: string }[];
+};
+
+function toDraft(t?: ChecklistTemplate): TemplateDraft {
+  if (!t) return { name: "", sections: [{ id: newId(), title: "", itemsText: "" }] };
+  return { id: t.id, name: t.name, sections: t.sections.map((s) => ({ id: s.id, title: s.title, itemsText: s.items.map((i) => i.label).join("\n") })) };
+}
+
+/** Builds the template, keeping item ids stable for labels that did not change. */
+function fromDraft(draft: TemplateDraft, prev?: ChecklistTemplate): ChecklistTemplate {
+  const now = Date.now();
+  return {
+    id: draft.id ?? newId(),
+    name: draft.name.trim(),
+    sections: draft.sections
+      .map((s) => {
+        const prevItems = prev?.sections.find((p) => p.id === s.id)?.items || [];
+        const labels = s.itemsText.split("\n").map((l) => l.trim()).filter(Boolean);
+        return {
+          id: s.id,
+          title: s.title.trim(),
+          items: labels.map((label) => ({ id: prevItems.find((i) => i.label === label)?.id ?? newId(), label })),
+        };
+      })
+      .filter((s) => s.title || s.items.length > 0),
+    createdAt: prev?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Create, edit and delete checklist templates.
+ */
+export function TemplatesView({ templates, projects, onSave, onDelete }: {
+  templates: Record<string, ChecklistTemplate>;
+  projects: Record<string, ProjectMeta>;
+  onSave: (template: ChecklistTemplate) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const list = Object.values(templates).sort((a, b) => a.name.localeCompare(b.name));
+  const usage = (id: string) => Object.values(projects).filter((p) => p.templateId === id).length;
+
+  function save() {
+    if (!draft) return;
+    if (!draft.name.trim()) return toast.error("Enter a template name.");
+    const template = fromDraft(draft, draft.id ? templates[draft.id] : undefined);
+    if (template.sections.every((s) => s.items.length === 0)) return toast.error("Add at least one checklist item.");
+    onSave(template);
+    setDraft(null);
+  }
+
+  function updateSection(id: string, patch: Partial<TemplateDraft["sections"][number]>) {
+    if (!draft) return;
+    setDraft({ ...draft, sections: draft.sections.map((s) => (s.id === id ? { ...s, ...patch } : s)) });
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 space-y-4">
+      <Button className="w-full h-12 rounded-xl" onClick={() => setDraft(toDraft())}><Plus className="h-4 w-4 mr-2" /> New Template</Button>
+
+      {list.length === 0 ? (
+        <Card className="border-0 shadow-sm">
+          <CardContent className="py-10 text-center text-sm text-muted-foreground">No checklist templates yet.</CardContent>
+        </Card>
+      ) : (
+        list.map((t) => (
+          <Card key={t.id} className="border-0 shadow-sm">
+            <CardContent className="p-4 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-semibold truncate flex items-center gap-2"><ListChecks className="h-4 w-4 shrink-0" /> {t.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {t.sections.length} section(s), {t.sections.reduce((n, s) => n + s.items.length, 0)} item(s) · used by {usage(t.id)} project(s)
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button size="icon" variant="ghost" title="Edit" onClick={() => setDraft(toDraft(t))}><Pencil className="h-4 w-4" /></Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Delete"
+                  onClick={() => {
+                    if (usage(t.id) > 0) return toast.error("Template is assigned to a project. Unassign it first.");
+                    onDelete(t.id);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={!!draft} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+        <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription>Sections of items checked as pass, fail or N/A. Past inspections keep the wording they were filled in with.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="tpl-name">Template name</Label>
+                <Input id="tpl-name" placeholder="e.g., Roofing final" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              {draft.sections.map((s, i) => (
+                <div key={s.id} className="rounded-xl border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input placeholder={`Section ${i + 1} title`} value={s.title} onChange={(e) => updateSection(s.id, { title: e.target.value })} />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Remove section"
+                      disabled={draft.sections.length === 1}
+                      onClick={() => setDraft({ ...draft, sections: draft.sections.filter((x) => x.id !== s.id) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Textarea rows={4} placeholder="One item per line" value={s.itemsText} onChange={(e) => updateSection(s.id, { itemsText: e.target.value })} />
+                </div>
+              ))}
+              <Button variant="outline" className="w-full" onClick={() => setDraft({ ...draft, sections: [...draft.sections, { id: newId(), title: "", itemsText: "" }] })}>
+                <Plus className="h-4 w-4 mr-2" /> Add Section
+              </Button>
+              <Button className="w-full h-12 rounded-xl" onClick={save}><Save className="h-4 w-4 mr-2" /> Save Template</Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
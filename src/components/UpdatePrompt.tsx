@@ -0,0 +1,36 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useRegisterSW } from "virtual:pwa-register/react";
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker and offers a reload when a new build has been deployed.
+ */
+export function UpdatePrompt() {
+  const {
+    needRefresh: [needRefresh],
+    offlineReady: [offlineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW(_url, registration) {
+      // Field devices can stay open for days; look for new builds periodically
+      if (registration) setInterval(() => registration.update(), UPDATE_CHECK_MS);
+    },
+  });
+
+  useEffect(() => {
+    if (offlineReady) toast.success("Ready to work offline.");
+  }, [offlineReady]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    toast("Update available", {
+      description: "A new version of the app is ready.",
+      duration: Infinity,
+      action: { label: "Reload", onClick: () => updateServiceWorker(true) },
+    });
+  }, [needRefresh]);
+
+  return null;
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Mic, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDuration } from "@/lib/report";
+
+// Formats browsers record audio in, most preferred first (Safari only records mp4)
+const AUDIO_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus"];
+
+function extensionFor(type: string): string {
+  return type === "audio/mp4" ? "m4a" : type.split("/")[1] || "bin";
+}
+
+/**
+ * Records a voice note from the microphone with one large start/stop button, for use with gloves on.
+ * The recording is handed over as a File once stopped; leaving the screen mid-recording drops it.
+ */
+export function VoiceRecorder({ onRecorded, disabled }: { onRecorded: (file: File, durationMs: number) => void; disabled?: boolean }) {
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const recorder = useRef<MediaRecorder | null>(null);
+
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = window.setInterval(() => setElapsed(Date.now() - startedAt), 250);
+    return () => window.clearInterval(timer);
+  }, [startedAt]);
+
+  // Release the microphone when unmounted (e.g. the app locks) while recording
+  useEffect(
+    () => () => {
+      const rec = recorder.current;
+      if (!rec) return;
+      rec.onstop = null;
+      if (rec.state !== "inactive") rec.stop();
+      rec.stream.getTracks().forEach((t) => t.stop());
+    },
+    []
+  );
+
+  async function start() {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === "undefined") {
+      toast.error("This browser cannot record audio.");
+      return;
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      toast.error("Microphone access was denied. Allow it in the browser's site settings.");
+      return;
+    }
+    const mimeType = AUDIO_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+    const rec = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const began = Date.now();
+    rec.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    rec.onstop = () => {
+      stream.getTracks().forEach((t) => t.stop());
+      recorder.current = null;
+      setStartedAt(null);
+      setElapsed(0);
+      if (chunks.length === 0) {
+        toast.error("Nothing was recorded.");
+        return;
+      }
+      const type = (rec.mimeType || mimeType || "audio/webm").split(";")[0];
+      onRecorded(new File(chunks, `voice-note-${began}.${extensionFor(type)}`, { type }), Date.now() - began);
+    };
+    rec.start(1000); // in slices, so a long note is not held as one growing buffer
+    recorder.current = rec;
+    setStartedAt(began);
+  }
+
+  function stop() {
+    recorder.current?.stop();
+  }
+
+  return startedAt === null ? (
+    <Button type="button" variant="outline" className="w-full h-12 rounded-xl" onClick={start} disabled={disabled}>
+      <Mic className="h-4 w-4 mr-2" /> Record voice note
+    </Button>
+  ) : (
+    <Button type="button" variant="destructive" className="w-full h-12 rounded-xl" onClick={stop}>
+      <Square className="h-4 w-4 mr-2 fill-current" /> Stop recording · {formatDuration(elapsed)}
+    </Button>
+  );
+}
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from "react";
+
+export type AutoLockSettings = {
+  idleMinutes: number; // 0 disables the inactivity timer
+  lockOnHide: boolean; // lock as soon as the tab/app is hidden
+};
+
+export const DEFAULT_AUTO_LOCK: AutoLockSettings = { idleMinutes: 5, lockOnHide: false };
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "wheel", "scroll"] as const;
+
+/**
+ * Calls `onLock` after `idleMinutes` without user input, or when the page is hidden
+ * (immediately with `lockOnHide`, otherwise once the idle time has passed while hidden).
+ */
+export function useAutoLock(active: boolean, settings: AutoLockSettings, onLock: () => void) {
+  const onLockRef = useRef(onLock);
+  onLockRef.current = onLock;
+
+  useEffect(() => {
+    if (!active) return;
+    const idleMs = settings.idleMinutes * 60_000;
+    let lastActivity = Date.now();
+    let timer: number | undefined;
+
+    const lock = () => onLockRef.current();
+    const schedule = () => {
+      window.clearTimeout(timer);
+      if (idleMs > 0) timer = window.setTimeout(lock, idleMs);
+    };
+    const onActivity = () => {
+      lastActivity = Date.now();
+      schedule();
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        if (settings.lockOnHide) lock();
+      } else if (idleMs > 0 && Date.now() - lastActivity >= idleMs) {
+        // Timers are throttled in background tabs, so re-check elapsed time on return
+        lock();
+      }
+    };
+
+    schedule();
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, onActivity, { passive: true }));
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, onActivity));
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, [active, settings.idleMinutes, settings.lockOnHide]);
+}
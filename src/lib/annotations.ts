@@ -0,0 +1,76 @@
+import type { Annotation, Point } from "@/lib/types";
+
+/**
+ * Vector annotations drawn over a photo. Points are fractions of the image size (0..1)
+ * and stroke/text sizes scale with the image, so one layer renders the same on a
+ * thumbnail, in the editor and in an exported report.
+ */
+
+export const ANNOTATION_COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#3b82f6", "#ffffff", "#171717"];
+
+const STROKE = 0.006; // of the longer image side
+const FONT = 0.045;
+const HEAD = 0.035;
+
+export function strokeWidth(w: number, h: number): number {
+  return Math.max(2, Math.max(w, h) * STROKE);
+}
+
+export function fontSize(w: number, h: number): number {
+  return Math.max(12, Math.max(w, h) * FONT);
+}
+
+/** The two back corners of an arrowhead at `to`, in pixels. */
+export function arrowHead(from: Point, to: Point, w: number, h: number): [Point, Point] {
+  const angle = Math.atan2((to[1] - from[1]) * h, (to[0] - from[0]) * w);
+  const len = Math.max(w, h) * HEAD;
+  const corner = (a: number): Point => [to[0] * w - len * Math.cos(a), to[1] * h - len * Math.sin(a)];
+  return [corner(angle - Math.PI / 6), corner(angle + Math.PI / 6)];
+}
+
+/** Draws the layer onto a context already holding the photo at `w` x `h` pixels. */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, shapes: Annotation[], w: number, h: number) {
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.lineWidth = strokeWidth(w, h);
+  shapes.forEach((s) => {
+    ctx.strokeStyle = s.color;
+    ctx.fillStyle = s.color;
+    if (s.kind === "pen") {
+      ctx.beginPath();
+      s.points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x * w, y * h) : ctx.lineTo(x * w, y * h)));
+      ctx.stroke();
+    } else if (s.kind === "rect") {
+      ctx.strokeRect(s.from[0] * w, s.from[1] * h, (s.to[0] - s.from[0]) * w, (s.to[1] - s.from[1]) * h);
+    } else if (s.kind === "arrow") {
+      const [a, b] = arrowHead(s.from, s.to, w, h);
+      ctx.beginPath();
+      ctx.moveTo(s.from[0] * w, s.from[1] * h);
+      ctx.lineTo(s.to[0] * w, s.to[1] * h);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(s.to[0] * w, s.to[1] * h);
+      ctx.lineTo(a[0], a[1]);
+      ctx.lineTo(b[0], b[1]);
+      ctx.closePath();
+      ctx.fill();
+    } else {
+      // Dark outline keeps labels readable on any background
+      ctx.font = `bold ${fontSize(w, h)}px sans-serif`;
+      ctx.textBaseline = "top";
+      ctx.lineWidth = strokeWidth(w, h) * 0.75;
+      ctx.strokeStyle = s.color === "#171717" ? "#ffffff" : "#171717";
+      ctx.strokeText(s.text, s.at[0] * w, s.at[1] * h);
+      ctx.fillText(s.text, s.at[0] * w, s.at[1] * h);
+      ctx.lineWidth = strokeWidth(w, h);
+    }
+  });
+  ctx.restore();
+}
+
+/** Returns the annotation map without empty layers, or undefined when nothing is left. */
+export function pruneAnnotations(map: Record<string, Annotation[]>): Record<string, Annotation[]> | undefined {
+  const next = Object.fromEntries(Object.entries(map).filter(([, shapes]) => shapes.length > 0));
+  return Object.keys(next).length > 0 ? next : undefined;
+}
@@ -0,0 +1,163 @@
+import { sha256Hex } from "@/lib/crypto";
+import { idbAuditHead, idbCommit } from "@/lib/db";
+import { entryBlobKeys, isAttachmentKey } from "@/lib/entries";
+import type { AuthorRef, InspectionEntry, ProjectMeta } from "@/lib/types";
+
+/**
+ * Append-only audit log of changes to projects, entries, photos and attachments.
+ *
+ * Changes are found by comparing the data before and after (like sync, there is no list of
+ * operations to keep in step with every feature), so edits, imports and synced changes are all
+ * logged. Each record carries the SHA-256 of the previous one, hashed together with its own
+ * content: editing, reordering or removing a record breaks every hash after it. The newest
+ * position is also kept in localStorage, so dropping records from the end is detected too.
+ * scripts/verify-audit.mjs checks an exported log the same way.
+ */
+
+const LS_AUDIT_HEAD_KEY = "mia.audit.head:v1"; // { seq, hash } of the newest record
+export const GENESIS_HASH = "0".repeat(64); // prevHash of the first record
+
+export type AuditAction = "create" | "update" | "delete";
+export type AuditKind = "project" | "entry" | "photo" | "attachment";
+
+export type AuditEvent = {
+  action: AuditAction;
+  kind: AuditKind;
+  projectId: string;
+  id: string; // project id, entry id, photo or attachment key
+  before?: Record<string, unknown>; // updates: only the fields that changed
+  after?: Record<string, unknown>;
+  by?: AuthorRef; // profile signed in when the change was made
+  via?: "sync" | "import"; // change arrived from the sync server or a restored backup
+};
+
+export type AuditRecord = {
+  seq: number; // 1, 2, 3... without gaps
+  at: number;
+  prevHash: string;
+  hash: string; // SHA-256 over seq, at, prevHash and event
+  event: AuditEvent | null; // null when the stored event could not be decrypted
+};
+
+export type AuditSnapshot = { projects: Record<string, ProjectMeta>; inspections: Record<string, InspectionEntry[]> };
+
+export type AuditVerification = { ok: true; count: number } | { ok: false; seq: number; reason: string };
+
+// Bookkeeping every edit touches; the record's own time and author cover it
+const IGNORED_FIELDS = new Set(["updatedAt", "updatedBy"]);
+
+/** The hashed form of a record. Key order is fixed: scripts/verify-audit.mjs rebuilds the same string. */
+export function auditHashInput(r: Pick<AuditRecord, "seq" | "at" | "prevHash" | "event">): string {
+  return JSON.stringify({ seq: r.seq, at: r.at, prevHash: r.prevHash, event: r.event });
+}
+
+function changedFields(before: object, after: object): { before: Record<string, unknown>; after: Record<string, unknown> } | undefined {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const changed = { before: {} as Record<string, unknown>, after: {} as Record<string, unknown> };
+  new Set([...Object.keys(b), ...Object.keys(a)]).forEach((k) => {
+    if (IGNORED_FIELDS.has(k) || JSON.stringify(b[k]) === JSON.stringify(a[k])) return;
+    changed.before[k] = b[k];
+    changed.after[k] = a[k];
+  });
+  return Object.keys(changed.after).length > 0 ? changed : undefined;
+}
+
+/** Every create, update and delete between two states, projects first, then entries and the photos and attachments they gained or lost. */
+export function diffAudit(prev: AuditSnapshot, next: AuditSnapshot): AuditEvent[] {
+  const events: AuditEvent[] = [];
+  new Set([...Object.keys(prev.projects), ...Object.keys(next.projects)]).forEach((id) => {
+    const b = prev.projects[id];
+    const a = next.projects[id];
+    if (b === a) return;
+    if (!b) events.push({ action: "create", kind: "project", projectId: id, id, after: { ...a } });
+    else if (!a) events.push({ action: "delete", kind: "project", projectId: id, id, before: { ...b } });
+    else {
+      const changed = changedFields(b, a);
+      if (changed) events.push({ action: "update", kind: "project", projectId: id, id, ...changed });
+    }
+  });
+
+  new Set([...Object.keys(prev.inspections), ...Object.keys(next.inspections)]).forEach((projectId) => {
+    const before = prev.inspections[projectId] || [];
+    const after = next.inspections[projectId] || [];
+    if (before === after) return;
+    const beforeById = new Map(before.map((e) => [e.id, e]));
+    const afterById = new Map(after.map((e) => [e.id, e]));
+    new Set([...beforeById.keys(), ...afterById.keys()]).forEach((id) => {
+      const b = beforeById.get(id);
+      const a = afterById.get(id);
+      if (b === a) return;
+      if (!b) events.push({ action: "create", kind: "entry", projectId, id, after: { ...a } });
+      else if (!a) events.push({ action: "delete", kind: "entry", projectId, id, before: { ...b } });
+      else {
+        const changed = changedFields(b, a);
+        if (changed) events.push({ action: "update", kind: "entry", projectId, id, ...changed });
+      }
+      const oldKeys = new Set(b ? entryBlobKeys(b) : []);
+      const newKeys = new Set(a ? entryBlobKeys(a) : []);
+      const kind = (key: string): AuditKind => (isAttachmentKey(key) ? "attachment" : "photo");
+      newKeys.forEach((key) => !oldKeys.has(key) && events.push({ action: "create", kind: kind(key), projectId, id: key, after: { entryId: id } }));
+      oldKeys.forEach((key) => !newKeys.has(key) && events.push({ action: "delete", kind: kind(key), projectId, id: key, before: { entryId: id } }));
+    });
+  });
+  return events;
+}
+
+function loadAuditHead(): { seq: number; hash: string } | undefined {
+  try {
+    const raw = localStorage.getItem(LS_AUDIT_HEAD_KEY);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Appends run one at a time so each links to the record written before it
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Adds events to the end of the chain. */
+export function appendAudit(events: AuditEvent[]): Promise<void> {
+  const run = queue.then(async () => {
+    const head = await idbAuditHead();
+    let seq = head?.seq ?? 0;
+    let prevHash = head?.hash ?? GENESIS_HASH;
+    const records: AuditRecord[] = [];
+    for (const event of events) {
+      const record = { seq: ++seq, at: Date.now(), prevHash, event };
+      const hash = await sha256Hex(new TextEncoder().encode(auditHashInput(record)));
+      records.push({ ...record, hash });
+      prevHash = hash;
+    }
+    await idbCommit({ audit: records });
+    localStorage.setItem(LS_AUDIT_HEAD_KEY, JSON.stringify({ seq, hash: prevHash }));
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/** Recomputes the chain, oldest first. Reports the first record that does not fit. */
+export async function verifyAudit(records: AuditRecord[]): Promise<AuditVerification> {
+  let prevHash = GENESIS_HASH;
+  for (let i = 0; i < records.length; i++) {
+    const r = records[i];
+    if (r.seq !== i + 1) return { ok: false, seq: i + 1, reason: "Record is missing from the log." };
+    if (!r.event) return { ok: false, seq: r.seq, reason: "Record could not be decrypted." };
+    if (r.prevHash !== prevHash) return { ok: false, seq: r.seq, reason: "Does not link to the record before it." };
+    if ((await sha256Hex(new TextEncoder().encode(auditHashInput(r)))) !== r.hash) return { ok: false, seq: r.seq, reason: "Content was changed after it was logged." };
+    prevHash = r.hash;
+  }
+  const head = loadAuditHead();
+  const last = records[records.length - 1];
+  if (head && (!last || head.seq > last.seq || (head.seq === last.seq && head.hash !== last.hash))) {
+    return { ok: false, seq: (last?.seq ?? 0) + 1, reason: "Records were removed from the end of the log." };
+  }
+  return { ok: true, count: records.length };
+}
+
+/** Short description of an event for the log viewer. */
+export function describeAuditEvent(event: AuditEvent): string {
+  const what = event.kind === "project" ? `project ${event.id}` : event.kind === "entry" ? `inspection ${event.id} in ${event.projectId}` : `${event.kind} ${event.id}`;
+  const fields = event.action === "update" && event.after ? ` (${Object.keys(event.after).join(", ")})` : "";
+  return `${event.action[0].toUpperCase()}${event.action.slice(1)}d ${what}${fields}`;
+}
@@ -0,0 +1,287 @@
+import { unzip, zip, strToU8, strFromU8, type Unzipped, type Zippable } from "fflate";
+import type { AuditRecord } from "@/lib/audit";
+import { entryBlobKeys, sortEntries } from "@/lib/entries";
+import { entryProblem, isRecord, projectFieldProblem, projectProblem, templateProblem } from "@/lib/schema";
+import type { ChecklistTemplate, InspectionEntry, ProjectField, ProjectMeta } from "@/lib/types";
+
+/**
+ * Backup archive: a zip holding `manifest.json` (projects + inspection index, templates and custom project fields),
+ * every referenced photo and attachment Blob under `photos/` and the device's audit log as `audit.json`.
+ * The archive is not encrypted (it is meant to be readable without the app); BackupView warns before exporting.
+ * The audit log is for review and verification (scripts/verify-audit.mjs); importing never replaces
+ * the local log, the import itself is logged instead.
+ * Records are checked with the same validators as loaded data; ones that fail are left out of the import and listed in the preview.
+ */
+
+export const BACKUP_FORMAT = "mia-backup";
+export const BACKUP_VERSION = 1;
+const MANIFEST_PATH = "manifest.json";
+const AUDIT_PATH = "audit.json";
+
+export type BackupPhoto = { key: string; path: string; type: string; size: number };
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  templates?: Record<string, ChecklistTemplate>; // absent in backups made before checklists existed
+  projectFields?: Record<string, ProjectField>; // absent in backups made before custom fields existed
+  photos: BackupPhoto[];
+  missingPhotos: string[]; // referenced keys that had no Blob at export time
+};
+
+export type BackupArchive = {
+  manifest: BackupManifest; // only the records that passed validation
+  photos: Record<string, Blob>;
+  invalid: string[]; // records left out, e.g. "Project 10234: Address or scope is not text."
+};
+
+export type ImportMode = "merge" | "replace";
+export type ConflictChoice = "local" | "backup";
+
+/** One project or entry present both locally and in the backup. */
+export type BackupConflict = {
+  id: string; // "project:<projectId>" or "entry:<projectId>/<entryId>"
+  kind: "project" | "entry";
+  projectId: string;
+  entryId?: string;
+  localUpdatedAt: number;
+  backupUpdatedAt: number;
+};
+
+export type BackupPreview = {
+  exportedAt: number;
+  projectCount: number;
+  entryCount: number;
+  photoCount: number;
+  conflicts: BackupConflict[];
+  missingPhotos: string[]; // referenced by the backup but not inside it
+  invalid: string[]; // records that failed validation and will not be imported
+};
+
+export type ImportPlan = {
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  templates: Record<string, ChecklistTemplate>;
+  projectFields: Record<string, ProjectField>;
+  photosToWrite: Record<string, Blob>;
+  photosToDelete: string[];
+};
+
+function allKeys(inspections: Record<string, InspectionEntry[]>): string[] {
+  return Array.from(new Set(Object.values(inspections).flat().flatMap(entryBlobKeys)));
+}
+
+function extensionFor(type: string): string {
+  const sub = type.split("/")[1] || "bin";
+  return sub === "jpeg" ? "jpg" : sub.replace(/[^a-z0-9]/gi, "") || "bin";
+}
+
+export async function buildBackup(
+  projects: Record<string, ProjectMeta>,
+  inspections: Record<string, InspectionEntry[]>,
+  templates: Record<string, ChecklistTemplate>,
+  projectFields: Record<string, ProjectField>,
+  loadPhoto: (key: string) => Promise<Blob | undefined>,
+  audit: AuditRecord[] = []
+): Promise<Blob> {
+  const files: Zippable = {};
+  const photos: BackupPhoto[] = [];
+  const missingPhotos: string[] = [];
+
+  const keys = allKeys(inspections);
+  for (let i = 0; i < keys.length; i++) {
+    const blob = await loadPhoto(keys[i]);
+    if (!blob) {
+      missingPhotos.push(keys[i]);
+      continue;
+    }
+    const path = `photos/${i}.${extensionFor(blob.type)}`;
+    // Photos are already compressed; storing them avoids burning CPU on the phone
+    files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    photos.push({ key: keys[i], path, type: blob.type, size: blob.size });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    projects,
+    inspections,
+    templates,
+    projectFields,
+    photos,
+    missingPhotos,
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest));
+  files[AUDIT_PATH] = strToU8(JSON.stringify(audit));
+
+  const data = await new Promise<Uint8Array>((resolve, reject) => zip(files, (err, out) => (err ? reject(err) : resolve(out))));
+  return new Blob([data as BlobPart], { type: "application/zip" });
+}
+
+const isText = (v: unknown): v is string => typeof v === "string";
+
+export async function readBackup(file: Blob): Promise<BackupArchive> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let files: Unzipped;
+  try {
+    files = await new Promise<Unzipped>((resolve, reject) => unzip(bytes, (err, out) => (err ? reject(err) : resolve(out))));
+  } catch {
+    throw new Error("Not a valid backup archive.");
+  }
+  if (!files[MANIFEST_PATH]) throw new Error("Backup is missing its manifest.");
+
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+  } catch {
+    throw new Error("Backup manifest is unreadable.");
+  }
+  if (!isRecord(manifest) || manifest.format !== BACKUP_FORMAT) throw new Error("Not a backup made by this app.");
+  if (manifest.version > BACKUP_VERSION) throw new Error("Backup was made by a newer version of the app.");
+  if (!isRecord(manifest.projects) || !isRecord(manifest.inspections) || !Array.isArray(manifest.photos)) {
+    throw new Error("Backup manifest is incomplete.");
+  }
+
+  const invalid: string[] = [];
+  const valid = <T>(records: unknown, label: (key: string, value: unknown) => string, problemFn: (value: unknown) => string | undefined) => {
+    const kept: Record<string, T> = {};
+    Object.entries(isRecord(records) ? records : {}).forEach(([key, value]) => {
+      const problem = problemFn(value);
+      if (problem) invalid.push(`${label(key, value)}: ${problem}`);
+      else kept[key] = value as T;
+    });
+    return kept;
+  };
+  const inspections: Record<string, InspectionEntry[]> = {};
+  Object.entries(manifest.inspections).forEach(([projectId, list]) => {
+    if (!Array.isArray(list)) return invalid.push(`Inspections of project ${projectId}: Not a list.`);
+    inspections[projectId] = list.filter((e: unknown) => {
+      const problem = entryProblem(e);
+      if (problem) invalid.push(`Inspection ${isRecord(e) && isText(e.date) ? `${e.date} ` : ""}in project ${projectId}: ${problem}`);
+      return !problem;
+    });
+  });
+  const checked: BackupManifest = {
+    ...manifest,
+    projects: valid<ProjectMeta>(manifest.projects, (id) => `Project ${id}`, projectProblem),
+    inspections,
+    templates: manifest.templates && valid<ChecklistTemplate>(manifest.templates, (id, t) => `Template ${isRecord(t) && isText(t.name) ? t.name : id}`, templateProblem),
+    projectFields: manifest.projectFields && valid<ProjectField>(manifest.projectFields, (id, f) => `Project field ${isRecord(f) && isText(f.label) ? f.label : id}`, projectFieldProblem),
+  };
+
+  const photos: Record<string, Blob> = {};
+  manifest.photos.forEach((p) => {
+    const data = files[p.path];
+    if (data) photos[p.key] = new Blob([data], { type: p.type });
+  });
+  return { manifest: checked, photos, invalid };
+}
+
+export function previewBackup(
+  archive: BackupArchive,
+  projects: Record<string, ProjectMeta>,
+  inspections: Record<string, InspectionEntry[]>
+): BackupPreview {
+  const { manifest, photos, invalid } = archive;
+  const conflicts: BackupConflict[] = [];
+
+  Object.values(manifest.projects).forEach((p) => {
+    const local = projects[p.id];
+    if (local) conflicts.push({ id: `project:${p.id}`, kind: "project", projectId: p.id, localUpdatedAt: local.updatedAt, backupUpdatedAt: p.updatedAt });
+  });
+  Object.entries(manifest.inspections).forEach(([projectId, list]) => {
+    const localById = new Map((inspections[projectId] || []).map((e) => [e.id, e]));
+    list.forEach((e) => {
+      const local = localById.get(e.id);
+      if (local) {
+        conflicts.push({ id: `entry:${projectId}/${e.id}`, kind: "entry", projectId, entryId: e.id, localUpdatedAt: local.updatedAt, backupUpdatedAt: e.updatedAt });
+      }
+    });
+  });
+
+  return {
+    exportedAt: manifest.exportedAt,
+    projectCount: Object.keys(manifest.projects).length,
+    entryCount: Object.values(manifest.inspections).reduce((n, l) => n + l.length, 0),
+    photoCount: Object.keys(photos).length,
+    conflicts,
+    missingPhotos: allKeys(manifest.inspections).filter((k) => !photos[k]),
+    invalid,
+  };
+}
+
+/** Defaults each conflict to whichever side was updated most recently. */
+export function defaultChoices(conflicts: BackupConflict[]): Record<string, ConflictChoice> {
+  return Object.fromEntries(conflicts.map((c) => [c.id, c.backupUpdatedAt > c.localUpdatedAt ? "backup" : "local"]));
+}
+
+/**
+ * Works out the resulting data set and the photo writes/deletes needed to get there.
+ * Replace discards all local data; merge keeps local items unless a conflict chooses the backup.
+ */
+export function planImport(
+  archive: BackupArchive,
+  projects: Record<string, ProjectMeta>,
+  inspections: Record<string, InspectionEntry[]>,
+  templates: Record<string, ChecklistTemplate>,
+  projectFields: Record<string, ProjectField>,
+  mode: ImportMode,
+  choices: Record<string, ConflictChoice>
+): ImportPlan {
+  const { manifest, photos } = archive;
+  const before = new Set(allKeys(inspections));
+  const photosToWrite: Record<string, Blob> = {};
+  const take = (e: InspectionEntry) => entryBlobKeys(e).forEach((k) => photos[k] && (photosToWrite[k] = photos[k]));
+
+  if (mode === "replace") {
+    Object.values(manifest.inspections).flat().forEach(take);
+    return {
+      projects: { ...manifest.projects },
+      inspections: { ...manifest.inspections },
+      templates: { ...manifest.templates },
+      projectFields: { ...manifest.projectFields },
+      photosToWrite,
+      photosToDelete: Array.from(before).filter((k) => !photosToWrite[k]),
+    };
+  }
+
+  const nextProjects = { ...projects };
+  Object.values(manifest.projects).forEach((p) => {
+    if (!nextProjects[p.id] || choices[`project:${p.id}`] === "backup") nextProjects[p.id] = p;
+  });
+
+  const nextInspections: Record<string, InspectionEntry[]> = { ...inspections };
+  Object.entries(manifest.inspections).forEach(([projectId, list]) => {
+    const merged = new Map((inspections[projectId] || []).map((e) => [e.id, e]));
+    list.forEach((e) => {
+      if (!merged.has(e.id) || choices[`entry:${projectId}/${e.id}`] === "backup") {
+        merged.set(e.id, e);
+        take(e);
+      }
+    });
+    nextInspections[projectId] = sortEntries(Array.from(merged.values()));
+  });
+
+  // Templates and custom fields are shared definitions rather than records, so the newer copy simply wins
+  const newer = <T extends { id: string; updatedAt: number }>(local: Record<string, T>, backup: Record<string, T> = {}) => {
+    const next = { ...local };
+    Object.values(backup).forEach((t) => {
+      if (!next[t.id] || t.updatedAt > next[t.id].updatedAt) next[t.id] = t;
+    });
+    return next;
+  };
+
+  const after = new Set(allKeys(nextInspections));
+  return {
+    projects: nextProjects,
+    inspections: nextInspections,
+    templates: newer(templates, manifest.templates),
+    projectFields: newer(projectFields, manifest.projectFields),
+    photosToWrite,
+    photosToDelete: Array.from(before).filter((k) => !after.has(k)),
+  };
+}
@@ -0,0 +1,87 @@
+import { entryTime, localDate } from "@/lib/report";
+import type { InspectionEntry, PlannedVisit, ProjectMeta } from "@/lib/types";
+
+/**
+ * Calendar of every project's inspections (by entry date) and planned visits.
+ * Dates stay YYYY-MM-DD strings in local time, like entry dates; weeks start on Monday.
+ */
+
+export type CalendarEntry = { projectId: string; entry: InspectionEntry };
+export type CalendarVisit = { projectId: string; visit: PlannedVisit };
+export type CalendarDay = { entries: CalendarEntry[]; visits: CalendarVisit[] };
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function parse(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
+
+export function addDays(date: string, n: number): string {
+  const d = parse(date);
+  d.setDate(d.getDate() + n);
+  return localDate(d);
+}
+
+export function addMonths(date: string, n: number): string {
+  const d = parse(date);
+  return localDate(new Date(d.getFullYear(), d.getMonth() + n, 1));
+}
+
+/** The Monday on or before `date`. */
+export function startOfWeek(date: string): string {
+  return addDays(date, -((parse(date).getDay() + 6) % 7));
+}
+
+export function weekDays(date: string): string[] {
+  const start = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+/** Whole weeks covering the month `date` falls in, so the grid starts and ends on full rows. */
+export function monthWeeks(date: string): string[][] {
+  const month = date.slice(0, 7);
+  const weeks: string[][] = [];
+  for (let day = startOfWeek(`${month}-01`); weeks.length === 0 || day.slice(0, 7) === month; day = addDays(day, 7)) {
+    weeks.push(weekDays(day));
+  }
+  return weeks;
+}
+
+export function monthLabel(date: string): string {
+  return parse(date).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+}
+
+export function dayLabel(date: string): string {
+  return parse(date).toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+}
+
+/** Each day's entries (by time) and planned visits across all projects. */
+export function calendarDays(inspections: Record<string, InspectionEntry[]>, projects: Record<string, ProjectMeta>): Map<string, CalendarDay> {
+  const days = new Map<string, CalendarDay>();
+  const day = (date: string) => {
+    let d = days.get(date);
+    if (!d) days.set(date, (d = { entries: [], visits: [] }));
+    return d;
+  };
+  Object.entries(inspections).forEach(([projectId, list]) => list.forEach((entry) => day(entry.date).entries.push({ projectId, entry })));
+  Object.values(projects).forEach((p) => (p.visits || []).forEach((visit) => day(visit.date).visits.push({ projectId: p.id, visit })));
+  days.forEach((d) => {
+    d.entries.sort((a, b) => entryTime(a.entry) - entryTime(b.entry));
+    d.visits.sort((a, b) => (a.visit.time || "").localeCompare(b.visit.time || ""));
+  });
+  return days;
+}
+
+/** Projects inspected on the day with how many entries each, busiest first. */
+export function projectCounts(day: CalendarDay | undefined): { projectId: string; count: number }[] {
+  const counts = new Map<string, number>();
+  day?.entries.forEach((e) => counts.set(e.projectId, (counts.get(e.projectId) || 0) + 1));
+  return Array.from(counts, ([projectId, count]) => ({ projectId, count })).sort((a, b) => b.count - a.count || a.projectId.localeCompare(b.projectId));
+}
+
+/** Visits planned from `from` on, soonest first. */
+export function upcomingVisits(projects: Record<string, ProjectMeta>, from: string): CalendarVisit[] {
+  return Object.values(projects)
+    .flatMap((p) => (p.visits || []).filter((v) => v.date >= from).map((visit) => ({ projectId: p.id, visit })))
+    .sort((a, b) => a.visit.date.localeCompare(b.visit.date) || (a.visit.time || "").localeCompare(b.visit.time || ""));
+}
@@ -0,0 +1,39 @@
+import type { ChecklistItemResult, ChecklistResult, ChecklistStatus, ChecklistTemplate, InspectionEntry } from "@/lib/types";
+
+export const STATUS_LABELS: Record<ChecklistStatus, string> = { pass: "Pass", fail: "Fail", na: "N/A" };
+
+export function newId(): string {
+  return crypto.randomUUID();
+}
+
+/** Blank checklist for a new entry, copying the template's current labels. */
+export function startChecklist(template: ChecklistTemplate): ChecklistResult {
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    sections: template.sections.map((s) => ({
+      id: s.id,
+      title: s.title,
+      items: s.items.map((i) => ({ id: i.id, label: i.label, comment: "", photoKeys: [] })),
+    })),
+  };
+}
+
+export function checklistPhotoKeys(result?: ChecklistResult): string[] {
+  return result ? result.sections.flatMap((s) => s.items.flatMap((i) => i.photoKeys)) : [];
+}
+
+export function checklistCounts(result: ChecklistResult): Record<ChecklistStatus | "unset", number> {
+  const counts = { pass: 0, fail: 0, na: 0, unset: 0 };
+  result.sections.forEach((s) => s.items.forEach((i) => counts[i.status ?? "unset"]++));
+  return counts;
+}
+
+export type FailedItem = { entry: InspectionEntry; section: string; item: ChecklistItemResult };
+
+/** Failed checklist items across entries, in the entries' order. */
+export function failedItems(entries: InspectionEntry[]): FailedItem[] {
+  return entries.flatMap((entry) =>
+    (entry.checklist?.sections || []).flatMap((s) => s.items.filter((i) => i.status === "fail").map((item) => ({ entry, section: s.title, item })))
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * At-rest encryption for local data.
+ *
+ * A random AES-GCM data key encrypts projects, inspections and photo Blobs.
+ * That key is stored only wrapped by a key derived from the passcode (PBKDF2-SHA256 + salt),
+ * so changing the passcode re-wraps one key instead of re-encrypting everything.
+ * Each user profile holds its own wrapped copy of the same key, under its own passcode.
+ * The unwrapped key lives in memory for the signed-in session only.
+ */
+
+const PBKDF2_ITERATIONS = 600_000;
+
+export type KeyStore = {
+  v: 1;
+  salt: string; // base64
+  iterations: number;
+  iv: string; // base64, used to wrap the data key
+  wrappedKey: string; // base64
+};
+
+/** Encrypted form of a photo Blob as stored in IndexedDB. */
+export type SealedBlob = { sealed: 1; iv: Uint8Array; data: ArrayBuffer; type: string };
+
+type SealedJSON = { sealed: 1; iv: string; ct: string };
+
+let sessionKey: CryptoKey | null = null;
+
+export function setSessionKey(key: CryptoKey | null) {
+  sessionKey = key;
+}
+
+export function hasSessionKey(): boolean {
+  return sessionKey !== null;
+}
+
+function requireKey(): CryptoKey {
+  if (!sessionKey) throw new Error("Data is locked.");
+  return sessionKey;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin);
+}
+
+export function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+function randomBytes(n: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(n));
+}
+
+async function deriveWrappingKey(passcode: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passcode), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function wrapDataKey(dataKey: CryptoKey, passcode: string): Promise<KeyStore> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await deriveWrappingKey(passcode, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey("raw", dataKey, wrappingKey, { name: "AES-GCM", iv });
+  return { v: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(new Uint8Array(wrapped)) };
+}
+
+/** Generates a fresh data key and wraps it with the passcode. */
+export async function createKeyStore(passcode: string): Promise<{ store: KeyStore; key: CryptoKey }> {
+  // Extractable so it can be re-wrapped when the passcode changes; it is never persisted unwrapped
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  return { store: await wrapDataKey(key, passcode), key };
+}
+
+/** Unwraps the data key. Rejects when the passcode is wrong (the GCM tag fails to verify). */
+export async function unlockKeyStore(store: KeyStore, passcode: string): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(passcode, fromBase64(store.salt), store.iterations);
+  return crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(store.wrappedKey),
+    wrappingKey,
+    { name: "AES-GCM", iv: fromBase64(store.iv) },
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** Re-wraps the data key under a new passcode. Rejects when the current passcode is wrong. */
+export async function rewrapKeyStore(store: KeyStore, currentPasscode: string, nextPasscode: string): Promise<KeyStore> {
+  const key = await unlockKeyStore(store, currentPasscode);
+  return wrapDataKey(key, nextPasscode);
+}
+
+/** Wraps the signed-in session's data key under another passcode, e.g. for a new profile. */
+export function wrapSessionKey(passcode: string): Promise<KeyStore> {
+  return wrapDataKey(requireKey(), passcode);
+}
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function isSealedJSON(raw: string): boolean {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed?.sealed === 1 && typeof parsed.iv === "string" && typeof parsed.ct === "string";
+  } catch {
+    return false;
+  }
+}
+
+export async function encryptJSON(value: unknown): Promise<string> {
+  const iv = randomBytes(12);
+  const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, requireKey(), new TextEncoder().encode(JSON.stringify(value)));
+  const sealed: SealedJSON = { sealed: 1, iv: toBase64(iv), ct: toBase64(new Uint8Array(ct)) };
+  return JSON.stringify(sealed);
+}
+
+export async function decryptJSON<T>(raw: string): Promise<T> {
+  const { iv, ct } = JSON.parse(raw) as SealedJSON;
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, requireKey(), fromBase64(ct));
+  return JSON.parse(new TextDecoder().decode(plain));
+}
+
+export function isSealedBlob(value: unknown): value is SealedBlob {
+  return typeof value === "object" && value !== null && (value as SealedBlob).sealed === 1 && (value as SealedBlob).data instanceof ArrayBuffer;
+}
+
+export async function sealBlob(blob: Blob): Promise<SealedBlob> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, requireKey(), await blob.arrayBuffer());
+  return { sealed: 1, iv, data, type: blob.type };
+}
+
+/** Decrypts a stored photo record. Plain Blobs from before encryption pass through unchanged. */
+export async function openBlob(value: unknown): Promise<Blob | undefined> {
+  if (value instanceof Blob) return value;
+  if (!isSealedBlob(value)) return undefined;
+  const iv = new Uint8Array(value.iv);
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, requireKey(), value.data);
+  return new Blob([plain], { type: value.type });
+}
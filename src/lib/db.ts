@@ -0,0 +1,244 @@
+import type { AuditEvent, AuditRecord } from "@/lib/audit";
+import { decryptJSON, encryptJSON, isSealedBlob, openBlob, sealBlob } from "@/lib/crypto";
+import { isThumbKey, sortEntries, thumbKey } from "@/lib/entries";
+import { entryProblem, type QuarantinedRecord } from "@/lib/schema";
+import type { InspectionEntry } from "@/lib/types";
+
+/**
+ * IndexedDB storage: photo Blobs ("photos", keyed by photo key) and inspection entries
+ * ("entries", keyed by [projectId, entryId]), both encrypted with the session key.
+ * One connection is opened lazily and reused. Every write goes through `idbCommit`, which
+ * applies a whole change (an entry plus its photos, a project rename, a restore) in a single
+ * transaction, so an interrupted save leaves either all of it or none of it.
+ * Records that fail to load are moved to "quarantine" (see lib/schema).
+ * "audit" holds the append-only change log (see lib/audit); events are encrypted, the chain hashes are not.
+ */
+
+const DB_NAME = "mobile-inspection-app";
+const DB_VERSION = 4; // 2: inspection entries moved here from localStorage, 3: quarantine, 4: audit log
+const PHOTO_STORE = "photos";
+const ENTRY_STORE = "entries";
+const QUARANTINE_STORE = "quarantine";
+const AUDIT_STORE = "audit";
+
+/** An audit record as stored: the event sealed, its place in the chain readable without the key. */
+type StoredAuditRecord = Omit<AuditRecord, "event"> & { data: string };
+
+/** Everything one commit writes. Applied in this order: entries cleared, deleted, put; photos renamed, deleted, put. */
+export type DBChange = {
+  clearEntries?: boolean; // e.g. restoring a backup in replace mode
+  deleteEntries?: { projectId: string; entryId?: string }[]; // without entryId: every entry of the project
+  putEntries?: { projectId: string; entry: InspectionEntry }[];
+  renamePhotos?: Record<string, string>; // old key -> new key, thumbnails included
+  deletePhotos?: string[]; // thumbnails included
+  putPhotos?: Record<string, Blob>; // a photo written without its thumbnail drops the stale one; it is rebuilt on next view
+  quarantine?: QuarantinedRecord[];
+  discardQuarantined?: number[]; // quarantined record ids
+  audit?: AuditRecord[]; // appended; never changed or removed afterwards
+};
+
+let connection: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  connection ||= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(PHOTO_STORE)) db.createObjectStore(PHOTO_STORE);
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) db.createObjectStore(ENTRY_STORE);
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) db.createObjectStore(QUARANTINE_STORE, { keyPath: "id", autoIncrement: true });
+      if (!db.objectStoreNames.contains(AUDIT_STORE)) db.createObjectStore(AUDIT_STORE, { keyPath: "seq" });
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgrading, or the browser closing the connection: reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      db.onclose = () => {
+        connection = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => {
+      connection = null;
+      reject(req.error);
+    };
+  });
+  return connection;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted."));
+  });
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Key range covering every entry of a project. */
+function projectRange(projectId: string): IDBKeyRange {
+  return IDBKeyRange.bound([projectId], [projectId, []]);
+}
+
+// Commits run one at a time in call order, so a slow older write never lands after a newer one
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Applies a change atomically: encrypts everything first (awaiting inside a transaction would auto-commit it), then writes in one transaction. */
+export function idbCommit(change: DBChange): Promise<void> {
+  const run = queue.then(() => applyChange(change));
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+async function applyChange(change: DBChange) {
+  const entries = await Promise.all((change.putEntries || []).map(async ({ projectId, entry }) => [[projectId, entry.id] as IDBValidKey, await encryptJSON(entry)] as const));
+  const photos = await Promise.all(Object.entries(change.putPhotos || {}).map(async ([k, v]) => [k, await sealBlob(v)] as const));
+  const audit: StoredAuditRecord[] = await Promise.all((change.audit || []).map(async ({ event, ...rest }) => ({ ...rest, data: await encryptJSON(event) })));
+  const renames = Object.entries(change.renamePhotos || {})
+    .filter(([from, to]) => from !== to)
+    .flatMap(([from, to]) => [[from, to], [thumbKey(from), thumbKey(to)]]);
+
+  const db = await openDB();
+  const tx = db.transaction([ENTRY_STORE, PHOTO_STORE, QUARANTINE_STORE, AUDIT_STORE], "readwrite");
+  const entryStore = tx.objectStore(ENTRY_STORE);
+  const photoStore = tx.objectStore(PHOTO_STORE);
+  const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+  const auditStore = tx.objectStore(AUDIT_STORE);
+
+  if (change.clearEntries) entryStore.clear();
+  (change.deleteEntries || []).forEach(({ projectId, entryId }) => entryStore.delete(entryId === undefined ? projectRange(projectId) : [projectId, entryId]));
+  entries.forEach(([key, sealed]) => entryStore.put(sealed, key));
+
+  renames.forEach(([from, to]) => {
+    const req = photoStore.get(from);
+    req.onsuccess = () => {
+      if (req.result === undefined) return;
+      photoStore.put(req.result, to);
+      photoStore.delete(from);
+    };
+  });
+  (change.deletePhotos || []).forEach((k) => {
+    photoStore.delete(k);
+    photoStore.delete(thumbKey(k));
+  });
+  photos.forEach(([k, v]) => {
+    photoStore.put(v, k);
+    if (!isThumbKey(k) && !change.putPhotos?.[thumbKey(k)]) photoStore.delete(thumbKey(k));
+  });
+
+  (change.quarantine || []).forEach((record) => quarantineStore.add(record));
+  (change.discardQuarantined || []).forEach((id) => quarantineStore.delete(id));
+  // add() fails on an existing seq, aborting the whole commit rather than overwriting history
+  audit.forEach((record) => auditStore.add(record));
+
+  await done(tx);
+}
+
+/** Every stored inspection entry, by project, in timeline order. Entries that cannot be decrypted or fail validation are quarantined. */
+export async function idbLoadEntries(): Promise<Record<string, InspectionEntry[]>> {
+  const db = await openDB();
+  const tx = db.transaction(ENTRY_STORE, "readonly");
+  const store = tx.objectStore(ENTRY_STORE);
+  const [keys, values] = await Promise.all([request(store.getAllKeys()), request(store.getAll())]);
+  const map: Record<string, InspectionEntry[]> = {};
+  const bad: { projectId: string; entryId: string; reason: string; data: string }[] = [];
+  for (let i = 0; i < keys.length; i++) {
+    const [projectId, entryId] = keys[i] as [string, string];
+    const data = String(values[i]);
+    let entry: unknown;
+    try {
+      entry = await decryptJSON(data);
+    } catch {
+      bad.push({ projectId, entryId, reason: "Could not be decrypted.", data });
+      continue;
+    }
+    const problem = entryProblem(entry);
+    if (problem) bad.push({ projectId, entryId, reason: problem, data });
+    else (map[projectId] ||= []).push(entry as InspectionEntry);
+  }
+  if (bad.length > 0) {
+    await idbCommit({
+      deleteEntries: bad.map(({ projectId, entryId }) => ({ projectId, entryId })),
+      quarantine: bad.map(({ projectId, entryId, reason, data }) => ({ source: "entries", label: `${projectId} / ${entryId}`, reason, data, quarantinedAt: Date.now() })),
+    });
+  }
+  Object.keys(map).forEach((id) => (map[id] = sortEntries(map[id])));
+  return map;
+}
+
+export async function idbLoadQuarantine(): Promise<QuarantinedRecord[]> {
+  const db = await openDB();
+  return request(db.transaction(QUARANTINE_STORE, "readonly").objectStore(QUARANTINE_STORE).getAll());
+}
+
+/** The newest audit record's position in the chain, read without decrypting anything. */
+export async function idbAuditHead(): Promise<{ seq: number; hash: string } | undefined> {
+  const db = await openDB();
+  const cursor = await request(db.transaction(AUDIT_STORE, "readonly").objectStore(AUDIT_STORE).openCursor(null, "prev"));
+  if (!cursor) return undefined;
+  const { seq, hash } = cursor.value as StoredAuditRecord;
+  return { seq, hash };
+}
+
+/** The whole audit log, oldest first. An event that cannot be decrypted loads as null (and fails verification). */
+export async function idbLoadAudit(): Promise<AuditRecord[]> {
+  const db = await openDB();
+  const stored: StoredAuditRecord[] = await request(db.transaction(AUDIT_STORE, "readonly").objectStore(AUDIT_STORE).getAll());
+  return Promise.all(
+    stored.map(async ({ data, ...rest }) => ({ ...rest, event: await decryptJSON<AuditEvent>(data).catch(() => null) }))
+  );
+}
+
+export async function idbGet(key: string): Promise<Blob | undefined> {
+  const db = await openDB();
+  return openBlob(await request(db.transaction(PHOTO_STORE, "readonly").objectStore(PHOTO_STORE).get(key)));
+}
+
+/** Whether a photo is stored, without reading (and decrypting) it. */
+export async function idbHas(key: string): Promise<boolean> {
+  const db = await openDB();
+  return (await request(db.transaction(PHOTO_STORE, "readonly").objectStore(PHOTO_STORE).count(key))) > 0;
+}
+
+/** Stored size in bytes of every record in the photos store, by key (encrypted size for sealed Blobs). */
+export async function idbSizes(): Promise<Record<string, number>> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const sizes: Record<string, number> = {};
+    const tx = db.transaction(PHOTO_STORE, "readonly");
+    const req = tx.objectStore(PHOTO_STORE).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      const value = cursor.value;
+      sizes[String(cursor.key)] = value instanceof Blob ? value.size : isSealedBlob(value) ? value.data.byteLength : 0;
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(sizes);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Encrypts any photo still stored as a plain Blob (data from before encryption). Safe to re-run. */
+export async function idbEncryptPlainBlobs() {
+  const db = await openDB();
+  const keys = await request(db.transaction(PHOTO_STORE, "readonly").objectStore(PHOTO_STORE).getAllKeys());
+  // One photo at a time to keep memory flat on phones with large libraries
+  for (const key of keys) {
+    const raw: unknown = await request(db.transaction(PHOTO_STORE, "readonly").objectStore(PHOTO_STORE).get(key));
+    if (!(raw instanceof Blob)) continue;
+    const sealed = await sealBlob(raw);
+    const tx = db.transaction(PHOTO_STORE, "readwrite");
+    tx.objectStore(PHOTO_STORE).put(sealed, key);
+    await done(tx);
+  }
+}
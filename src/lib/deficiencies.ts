@@ -0,0 +1,100 @@
+import { entryBlobKeys } from "@/lib/entries";
+import type { Deficiency, DeficiencySeverity, DeficiencyStatus, InspectionEntry } from "@/lib/types";
+
+/**
+ * Punch list: deficiencies are kept on their project (so sync, backup and the audit log carry them
+ * with it) and move open -> in progress -> resolved -> verified. Resolving from a later entry records
+ * that entry and its "after" photos next to the "before" photos of the entry it was found in.
+ */
+
+export const STATUS_ORDER: DeficiencyStatus[] = ["open", "in_progress", "resolved", "verified"];
+
+export const STATUS_LABELS: Record<DeficiencyStatus, string> = {
+  open: "Open",
+  in_progress: "In progress",
+  resolved: "Resolved",
+  verified: "Verified",
+};
+
+export const SEVERITY_LABELS: Record<DeficiencySeverity, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  critical: "Critical",
+};
+
+const SEVERITY_RANK: Record<DeficiencySeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/** The step after `status`, or undefined once verified. */
+export function nextStatus(status: DeficiencyStatus): DeficiencyStatus | undefined {
+  return STATUS_ORDER[STATUS_ORDER.indexOf(status) + 1];
+}
+
+/** Still to be fixed: open or in progress. */
+export function isOutstanding(d: Deficiency): boolean {
+  return d.status === "open" || d.status === "in_progress";
+}
+
+export function isOverdue(d: Deficiency, today: string): boolean {
+  return isOutstanding(d) && !!d.dueDate && d.dueDate < today;
+}
+
+/** Punch list order: outstanding first, then by severity, then earliest due date. */
+export function sortDeficiencies(list: Deficiency[]): Deficiency[] {
+  return [...list].sort(
+    (a, b) =>
+      Number(isOutstanding(b)) - Number(isOutstanding(a)) ||
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      (a.dueDate || "9999").localeCompare(b.dueDate || "9999") ||
+      a.createdAt - b.createdAt
+  );
+}
+
+/** Keys the deficiency refers to that still have a photo in the project (photos can be deleted from their entry). */
+export function livePhotoKeys(keys: string[] | undefined, entries: InspectionEntry[]): string[] {
+  const stored = new Set(entries.flatMap(entryBlobKeys));
+  return (keys || []).filter((k) => stored.has(k));
+}
+
+/** Follows a project rename: photo keys moved with their entries (see rekeyEntry). */
+export function rekeyDeficiencies(list: Deficiency[] | undefined, renames: Record<string, string>): Deficiency[] | undefined {
+  const rekey = (k: string) => renames[k] ?? k;
+  return list?.map((d) => ({ ...d, photoKeys: d.photoKeys.map(rekey), afterPhotoKeys: d.afterPhotoKeys?.map(rekey) }));
+}
+
+/** Whether any deficiency still shows one of the photos. */
+export function usesPhotos(list: Deficiency[] | undefined, keys: string[]): boolean {
+  const gone = new Set(keys);
+  return (list || []).some((d) => d.photoKeys.some((k) => gone.has(k)) || !!d.afterPhotoKeys?.some((k) => gone.has(k)));
+}
+
+/** Drops deleted photos from the deficiencies that show them. */
+export function withoutPhotos(list: Deficiency[] | undefined, keys: string[]): Deficiency[] | undefined {
+  const gone = new Set(keys);
+  return list?.map((d) => ({ ...d, photoKeys: d.photoKeys.filter((k) => !gone.has(k)), afterPhotoKeys: d.afterPhotoKeys?.filter((k) => !gone.has(k)) }));
+}
+
+/** A deficiency as shown in reports, with the entries it was found and resolved in and the photos still stored. */
+export type DeficiencyReportItem = {
+  deficiency: Deficiency;
+  found?: InspectionEntry;
+  closed?: InspectionEntry;
+  before: string[];
+  after: string[];
+};
+
+/**
+ * Deficiencies found or resolved in any of the report's entries. `all` is every entry of the project,
+ * since a deficiency resolved in the report's period may have been found before it.
+ */
+export function reportDeficiencies(list: Deficiency[] | undefined, entries: InspectionEntry[], all: InspectionEntry[]): DeficiencyReportItem[] {
+  const ids = new Set(entries.map((e) => e.id));
+  const byId = new Map(all.map((e) => [e.id, e]));
+  return sortDeficiencies((list || []).filter((d) => ids.has(d.foundIn) || (d.closedIn !== undefined && ids.has(d.closedIn)))).map((d) => ({
+    deficiency: d,
+    found: byId.get(d.foundIn),
+    closed: d.closedIn ? byId.get(d.closedIn) : undefined,
+    before: livePhotoKeys(d.photoKeys, all),
+    after: livePhotoKeys(d.afterPhotoKeys, all),
+  }));
+}
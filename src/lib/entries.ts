@@ -0,0 +1,125 @@
+import { checklistPhotoKeys } from "@/lib/checklists";
+import type { Attachment, AttachmentKind, InspectionEntry } from "@/lib/types";
+
+export function photoKey(projectId: string, entryId: string, index: number) {
+  return `${projectId}/inspections/${entryId}/photo-${index}`;
+}
+
+export function attachmentKey(projectId: string, entryId: string, index: number) {
+  return `${projectId}/inspections/${entryId}/attachment-${index}`;
+}
+
+export function isAttachmentKey(key: string) {
+  return /\/attachment-\d+$/.test(key);
+}
+
+/** What a picked or recorded file is stored as, from its MIME type. */
+export function attachmentKind(type: string): AttachmentKind {
+  if (type.startsWith("audio/")) return "audio";
+  if (type.startsWith("video/")) return "video";
+  return "document";
+}
+
+const THUMB_SUFFIX = ".thumb";
+
+/** Key of a photo's thumbnail, stored next to it in the photos store. */
+export function thumbKey(key: string) {
+  return `${key}${THUMB_SUFFIX}`;
+}
+
+export function isThumbKey(key: string) {
+  return key.endsWith(THUMB_SUFFIX);
+}
+
+/** Photo key a thumbnail key belongs to. */
+export function thumbPhotoKey(key: string) {
+  return key.slice(0, -THUMB_SUFFIX.length);
+}
+
+/**
+ * Every Blob key an entry owns: its photos, its checklist items' photos, its attachments,
+ * and those only referenced by past revisions.
+ */
+export function entryBlobKeys(entry: InspectionEntry): string[] {
+  const keys = new Set(entry.photoKeys);
+  (entry.attachments || []).forEach((a) => keys.add(a.key));
+  (entry.revisions || []).forEach((r) => {
+    r.photoKeys.forEach((k) => keys.add(k));
+    (r.attachments || []).forEach((a) => keys.add(a.key));
+  });
+  checklistPhotoKeys(entry.checklist).forEach((k) => keys.add(k));
+  return Array.from(keys);
+}
+
+function nextIndex(entry: InspectionEntry, pattern: RegExp): number {
+  let max = -1;
+  entryBlobKeys(entry).forEach((k) => {
+    const m = pattern.exec(k);
+    if (m) max = Math.max(max, Number(m[1]));
+  });
+  return max + 1;
+}
+
+/** First photo index not used by the entry or any of its revisions. */
+export function nextPhotoIndex(entry: InspectionEntry): number {
+  return nextIndex(entry, /photo-(\d+)$/);
+}
+
+/** First attachment index not used by the entry or any of its revisions. */
+export function nextAttachmentIndex(entry: InspectionEntry): number {
+  return nextIndex(entry, /attachment-(\d+)$/);
+}
+
+/** Rewrites an entry's Blob keys (including revisions, attachments, annotation layers and captions) from one project prefix to another. */
+export function rekeyEntry(entry: InspectionEntry, fromId: string, toId: string, renames: Record<string, string>): InspectionEntry {
+  const rekey = (k: string) => {
+    const next = k.startsWith(`${fromId}/`) ? `${toId}${k.slice(fromId.length)}` : k;
+    renames[k] = next;
+    return next;
+  };
+  return {
+    ...entry,
+    photoKeys: entry.photoKeys.map(rekey),
+    attachments: entry.attachments?.map((a) => ({ ...a, key: rekey(a.key) })),
+    revisions: entry.revisions?.map((r) => ({ ...r, photoKeys: r.photoKeys.map(rekey), attachments: r.attachments?.map((a) => ({ ...a, key: rekey(a.key) })) })),
+    checklist: entry.checklist && {
+      ...entry.checklist,
+      sections: entry.checklist.sections.map((s) => ({ ...s, items: s.items.map((i) => ({ ...i, photoKeys: i.photoKeys.map(rekey) })) })),
+    },
+    annotations: entry.annotations && Object.fromEntries(Object.entries(entry.annotations).map(([k, shapes]) => [rekey(k), shapes])),
+    photoMeta: entry.photoMeta && Object.fromEntries(Object.entries(entry.photoMeta).map(([k, meta]) => [rekey(k), meta])),
+  };
+}
+
+/** Photos shown for an entry, in display order: its own, then its checklist items'. */
+export function visiblePhotoKeys(entry: InspectionEntry): string[] {
+  return [...entry.photoKeys, ...checklistPhotoKeys(entry.checklist)];
+}
+
+/** Drops a photo or attachment from every place the entry references it, including past revisions. */
+export function removePhoto(entry: InspectionEntry, key: string): InspectionEntry {
+  const without = (keys: string[]) => keys.filter((k) => k !== key);
+  const withoutAttachment = (list?: Attachment[]) => list?.filter((a) => a.key !== key);
+  const { [key]: _layer, ...annotations } = entry.annotations || {};
+  const { [key]: _meta, ...photoMeta } = entry.photoMeta || {};
+  return {
+    ...entry,
+    photoKeys: without(entry.photoKeys),
+    attachments: withoutAttachment(entry.attachments),
+    revisions: entry.revisions?.map((r) => ({ ...r, photoKeys: without(r.photoKeys), attachments: withoutAttachment(r.attachments) })),
+    checklist: entry.checklist && {
+      ...entry.checklist,
+      sections: entry.checklist.sections.map((s) => ({ ...s, items: s.items.map((i) => ({ ...i, photoKeys: without(i.photoKeys) })) })),
+    },
+    annotations: Object.keys(annotations).length > 0 ? annotations : undefined,
+    photoMeta: Object.keys(photoMeta).length > 0 ? photoMeta : undefined,
+  };
+}
+
+export function sortEntries(list: InspectionEntry[]): InspectionEntry[] {
+  return [...list].sort((a, b) => {
+    const ta = new Date(`${a.date}T${a.time}:00`).getTime();
+    const tb = new Date(`${b.date}T${b.time}:00`).getTime();
+    return tb - ta; // newest first
+  });
+}
@@ -0,0 +1,112 @@
+import { formatPosition } from "@/lib/geo";
+import type { InspectionEntry, PhotoExif } from "@/lib/types";
+
+/**
+ * Minimal EXIF reader for JPEG photos: capture time, GPS position and camera.
+ * Read from the file as picked, before compression, so it works whether or not EXIF is kept.
+ */
+
+const MISMATCH_HOURS = 6; // EXIF capture time further than this from the entry's date/time is flagged
+
+/** The raw APP1 "Exif" segment of a JPEG (marker included), if it has one. */
+export function findExifSegment(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> | undefined {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return undefined;
+  let i = 2;
+  while (i + 4 <= bytes.length && bytes[i] === 0xff) {
+    const marker = bytes[i + 1];
+    const len = (bytes[i + 2] << 8) | bytes[i + 3];
+    if (marker === 0xda) break; // start of scan: no more metadata
+    const isExif = marker === 0xe1 && String.fromCharCode(...bytes.subarray(i + 4, i + 8)) === "Exif";
+    if (isExif) return bytes.slice(i, i + 2 + len);
+    i += 2 + len;
+  }
+  return undefined;
+}
+
+type Field = { type: number; count: number; at: number }; // `at`: offset of the 4-byte value/offset slot
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Map<number, Field> {
+  const fields = new Map<number, Field>();
+  const start = tiff + offset;
+  const count = view.getUint16(start, little);
+  for (let n = 0; n < count; n++) {
+    const entry = start + 2 + n * 12;
+    fields.set(view.getUint16(entry, little), { type: view.getUint16(entry + 2, little), count: view.getUint32(entry + 4, little), at: entry + 8 });
+  }
+  return fields;
+}
+
+/** Parses a JPEG's EXIF block. Returns undefined for other formats or when nothing useful is present. */
+export async function parseExif(file: Blob): Promise<PhotoExif | undefined> {
+  if (file.type !== "image/jpeg") return undefined;
+  // APP1 is limited to 64 KB and comes first, so the head of the file is enough
+  const segment = findExifSegment(new Uint8Array(await file.slice(0, 128 * 1024).arrayBuffer()));
+  if (!segment) return undefined;
+  try {
+    const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+    const tiff = 10; // marker (2) + length (2) + "Exif\0\0" (6)
+    const little = view.getUint16(tiff) === 0x4949;
+    const dataAt = (f: Field, size: number) => (f.count * size <= 4 ? f.at : tiff + view.getUint32(f.at, little));
+    const ascii = (f?: Field) => {
+      if (!f || f.type !== 2) return undefined;
+      const at = dataAt(f, 1);
+      return String.fromCharCode(...new Uint8Array(segment.buffer, segment.byteOffset + at, f.count)).replace(/\0+$/, "").trim() || undefined;
+    };
+    const rationals = (f?: Field) => {
+      if (!f || f.type !== 5) return undefined;
+      const at = dataAt(f, 8);
+      return Array.from({ length: f.count }, (_, i) => view.getUint32(at + i * 8, little) / view.getUint32(at + i * 8 + 4, little));
+    };
+
+    const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+    const exifPtr = ifd0.get(0x8769);
+    const exifIfd = exifPtr ? readIfd(view, tiff, view.getUint32(exifPtr.at, little), little) : new Map<number, Field>();
+    const gpsPtr = ifd0.get(0x8825);
+    const gpsIfd = gpsPtr ? readIfd(view, tiff, view.getUint32(gpsPtr.at, little), little) : new Map<number, Field>();
+
+    const raw = ascii(exifIfd.get(0x9003)) ?? ascii(ifd0.get(0x0132)); // DateTimeOriginal, else DateTime
+    const m = raw && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(raw);
+    const exif: PhotoExif = {
+      takenAt: m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}` : undefined,
+      make: ascii(ifd0.get(0x010f)),
+      model: ascii(ifd0.get(0x0110)),
+    };
+
+    const lat = rationals(gpsIfd.get(2));
+    const lng = rationals(gpsIfd.get(4));
+    if (lat?.length === 3 && lng?.length === 3 && [...lat, ...lng].every(Number.isFinite)) {
+      const toDeg = ([d, min, s]: number[]) => d + min / 60 + s / 3600;
+      exif.lat = toDeg(lat) * (ascii(gpsIfd.get(1)) === "S" ? -1 : 1);
+      exif.lng = toDeg(lng) * (ascii(gpsIfd.get(3)) === "W" ? -1 : 1);
+    }
+    return exif.takenAt || exif.make || exif.model || exif.lat !== undefined ? exif : undefined;
+  } catch {
+    return undefined; // truncated or malformed EXIF
+  }
+}
+
+/** Hours between the photo's EXIF capture time and its entry's date/time, when beyond the allowed gap. */
+export function exifMismatchHours(entry: Pick<InspectionEntry, "date" | "time">, exif?: PhotoExif): number | undefined {
+  if (!exif?.takenAt) return undefined;
+  const taken = new Date(exif.takenAt).getTime();
+  const recorded = new Date(`${entry.date}T${entry.time}:00`).getTime();
+  if (!Number.isFinite(taken) || !Number.isFinite(recorded)) return undefined;
+  const hours = Math.abs(taken - recorded) / 3_600_000;
+  return hours > MISMATCH_HOURS ? hours : undefined;
+}
+
+export function describeMismatch(hours: number): string {
+  return hours >= 48 ? `Taken ${Math.round(hours / 24)} days from the entry's date/time` : `Taken ${Math.round(hours)} h from the entry's date/time`;
+}
+
+/** One-line summaries of a photo's EXIF, for the viewer and reports. */
+export function describeExif(exif?: PhotoExif): string[] {
+  if (!exif) return [];
+  const lines: string[] = [];
+  if (exif.takenAt) lines.push(`Taken ${exif.takenAt.replace("T", " ")}`);
+  // Many cameras repeat the make in the model ("Canon" / "Canon EOS R6")
+  const camera = exif.make && exif.model?.startsWith(exif.make) ? exif.model : [exif.make, exif.model].filter(Boolean).join(" ");
+  if (camera) lines.push(`Camera ${camera}`);
+  if (exif.lat !== undefined && exif.lng !== undefined) lines.push(`GPS ${formatPosition(exif.lat, exif.lng)}`);
+  return lines;
+}
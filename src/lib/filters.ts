@@ -0,0 +1,170 @@
+import { visiblePhotoKeys } from "@/lib/entries";
+import { describeRange, entriesInRange, type DateRange } from "@/lib/report";
+import { normalize } from "@/lib/search";
+import type { InspectionEntry } from "@/lib/types";
+
+/**
+ * Criteria narrowing a project's entries, shared by the timeline and reports (screen and PDF).
+ * Unset criteria match everything; set ones must all match. Kept in the URL with the open
+ * timeline or report (see linkQuery) so a filtered view can be bookmarked and survives a reload.
+ */
+export type EntryFilter = DateRange & {
+  timeFrom?: string; // HH:MM; a later timeFrom than timeTo spans midnight
+  timeTo?: string;
+  photos?: boolean; // only entries with photos, on the entry or its checklist items
+  notes?: boolean; // only entries with notes
+  keyword?: string; // in notes, photo captions or tags
+  authorId?: string;
+  tag?: string; // photo tag, without "#"
+};
+
+export type FilterChip = { keys: (keyof EntryFilter)[]; label: string };
+
+export type FilterOptions = { authors: { id: string; name: string }[]; tags: string[] };
+
+/** A project's filtered timeline or report, as kept in the URL. */
+export type FilterLink = { screen: "timeline" | "report"; projectId: string; filter: EntryFilter };
+
+// Query parameter for each criterion
+const PARAMS: Record<keyof EntryFilter, string> = {
+  from: "from",
+  to: "to",
+  timeFrom: "after",
+  timeTo: "before",
+  photos: "photos",
+  notes: "notes",
+  keyword: "q",
+  authorId: "author",
+  tag: "tag",
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^\d{2}:\d{2}$/;
+
+export function hasFilter(f: EntryFilter): boolean {
+  return Object.values(f).some((v) => v !== undefined && v !== "" && v !== false);
+}
+
+/** Only a date range (or nothing): what report sign-offs can cover. */
+export function isDateOnly(f: EntryFilter): boolean {
+  return !hasFilter({ ...f, from: undefined, to: undefined });
+}
+
+export function entryTags(e: InspectionEntry): string[] {
+  return Object.values(e.photoMeta || {}).flatMap((m) => m.tags || []);
+}
+
+export function matchesFilter(e: InspectionEntry, f: EntryFilter): boolean {
+  if (f.from && e.date < f.from) return false;
+  if (f.to && e.date > f.to) return false;
+  if (f.timeFrom && f.timeTo && f.timeFrom > f.timeTo) {
+    if (e.time < f.timeFrom && e.time > f.timeTo) return false;
+  } else {
+    if (f.timeFrom && e.time < f.timeFrom) return false;
+    if (f.timeTo && e.time > f.timeTo) return false;
+  }
+  if (f.photos && visiblePhotoKeys(e).length === 0) return false;
+  if (f.notes && !e.notes.trim()) return false;
+  if (f.authorId && e.author?.id !== f.authorId) return false;
+  if (f.tag && !entryTags(e).some((t) => t.toLowerCase() === f.tag!.toLowerCase())) return false;
+  if (f.keyword?.trim()) {
+    const text = [e.notes, ...Object.values(e.photoMeta || {}).flatMap((m) => [m.caption || "", ...(m.tags || [])])].join("\n");
+    if (!normalize(text).includes(normalize(f.keyword.trim()))) return false;
+  }
+  return true;
+}
+
+/** Entries matching the filter, in their original order. */
+export function filterEntries(list: InspectionEntry[], f: EntryFilter): InspectionEntry[] {
+  return hasFilter(f) ? list.filter((e) => matchesFilter(e, f)) : list;
+}
+
+/** Matching entries oldest first, as reports list them. */
+export function reportEntries(list: InspectionEntry[], f: EntryFilter): InspectionEntry[] {
+  return filterEntries(entriesInRange(list, f), f);
+}
+
+/** Inspectors and photo tags found in the entries, for the filter's choices. */
+export function filterOptions(list: InspectionEntry[]): FilterOptions {
+  const authors = new Map<string, string>();
+  const tags = new Set<string>();
+  list.forEach((e) => {
+    if (e.author) authors.set(e.author.id, e.author.name);
+    entryTags(e).forEach((t) => tags.add(t));
+  });
+  return {
+    authors: Array.from(authors, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+    tags: Array.from(tags).sort(),
+  };
+}
+
+/** One removable chip per criterion; a single day, and a time window, are one chip each. */
+export function filterChips(f: EntryFilter, options: FilterOptions): FilterChip[] {
+  const chips: FilterChip[] = [];
+  if (f.from && f.from === f.to) chips.push({ keys: ["from", "to"], label: `On ${f.from}` });
+  else {
+    if (f.from) chips.push({ keys: ["from"], label: `From ${f.from}` });
+    if (f.to) chips.push({ keys: ["to"], label: `Until ${f.to}` });
+  }
+  if (f.timeFrom || f.timeTo) chips.push({ keys: ["timeFrom", "timeTo"], label: `${f.timeFrom || "00:00"}–${f.timeTo || "23:59"}` });
+  if (f.photos) chips.push({ keys: ["photos"], label: "With photos" });
+  if (f.notes) chips.push({ keys: ["notes"], label: "With notes" });
+  if (f.keyword?.trim()) chips.push({ keys: ["keyword"], label: `"${f.keyword.trim()}"` });
+  if (f.authorId) chips.push({ keys: ["authorId"], label: `By ${options.authors.find((a) => a.id === f.authorId)?.name ?? "unknown inspector"}` });
+  if (f.tag) chips.push({ keys: ["tag"], label: `#${f.tag}` });
+  return chips;
+}
+
+export function withoutKeys(f: EntryFilter, keys: (keyof EntryFilter)[]): EntryFilter {
+  const next = { ...f };
+  keys.forEach((k) => delete next[k]);
+  return next;
+}
+
+/** One line for report covers and PDF footers, e.g. "2024-03-01 to 2024-03-31 · With photos". */
+export function describeFilter(f: EntryFilter, options: FilterOptions): string {
+  const criteria = filterChips(withoutKeys(f, ["from", "to"]), options).map((c) => c.label);
+  return [describeRange(f), ...criteria].join(" · ");
+}
+
+function filterToParams(f: EntryFilter, params: URLSearchParams): URLSearchParams {
+  (Object.keys(PARAMS) as (keyof EntryFilter)[]).forEach((k) => {
+    const v = f[k];
+    if (v === true) params.set(PARAMS[k], "1");
+    else if (typeof v === "string" && v.trim()) params.set(PARAMS[k], v.trim());
+  });
+  return params;
+}
+
+/** Malformed dates and times are ignored rather than matching nothing. */
+function filterFromParams(params: URLSearchParams): EntryFilter {
+  const text = (k: keyof EntryFilter, pattern?: RegExp) => {
+    const v = params.get(PARAMS[k])?.trim();
+    return v && (!pattern || pattern.test(v)) ? v : undefined;
+  };
+  const f: EntryFilter = {
+    from: text("from", DATE),
+    to: text("to", DATE),
+    timeFrom: text("timeFrom", TIME),
+    timeTo: text("timeTo", TIME),
+    photos: params.get(PARAMS.photos) === "1" || undefined,
+    notes: params.get(PARAMS.notes) === "1" || undefined,
+    keyword: text("keyword"),
+    authorId: text("authorId"),
+    tag: text("tag"),
+  };
+  return withoutKeys(f, (Object.keys(f) as (keyof EntryFilter)[]).filter((k) => f[k] === undefined));
+}
+
+/** "?view=report&project=10234&from=2024-03-01&photos=1" */
+export function linkQuery(link: FilterLink): string {
+  return `?${filterToParams(link.filter, new URLSearchParams({ view: link.screen, project: link.projectId }))}`;
+}
+
+export function parseLink(search: string): FilterLink | null {
+  const params = new URLSearchParams(search);
+  const screen = params.get("view");
+  const projectId = params.get("project")?.trim();
+  if ((screen !== "timeline" && screen !== "report") || !projectId) return null;
+  return { screen, projectId, filter: filterFromParams(params) };
+}
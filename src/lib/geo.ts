@@ -0,0 +1,21 @@
+import type { GeoPosition } from "@/lib/types";
+
+/** One-shot device position. Rejects with a user-facing message when denied, unavailable or too slow. */
+export function currentPosition(): Promise<GeoPosition> {
+  return new Promise((resolve, reject) => {
+    if (!("geolocation" in navigator)) return reject(new Error("Location is not available on this device."));
+    navigator.geolocation.getCurrentPosition(
+      (p) => resolve({ lat: p.coords.latitude, lng: p.coords.longitude, accuracy: Math.round(p.coords.accuracy), capturedAt: p.timestamp }),
+      (err) => reject(new Error(err.code === err.PERMISSION_DENIED ? "Location permission was denied." : "Could not get the current location.")),
+      { enableHighAccuracy: true, timeout: 15_000, maximumAge: 60_000 }
+    );
+  });
+}
+
+export function formatPosition(lat: number, lng: number): string {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+export function mapURL(lat: number, lng: number): string {
+  return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=18/${lat}/${lng}`;
+}
@@ -0,0 +1,115 @@
+import { findExifSegment } from "@/lib/exif";
+
+/**
+ * Save-time photo pipeline: decode with EXIF orientation applied, downscale, re-encode
+ * as JPEG and optionally carry the original EXIF block over. Also makes the small
+ * thumbnails the timeline shows instead of full-size photos.
+ */
+
+export type PhotoSettings = {
+  maxDimension: number; // longest side in px; 0 keeps full size (the file exactly as taken, unless EXIF is dropped)
+  quality: number; // JPEG quality, 0..1
+  keepExif: boolean; // copy capture time, GPS and camera data into the re-encoded file
+};
+
+export const DEFAULT_PHOTO_SETTINGS: PhotoSettings = { maxDimension: 1920, quality: 0.8, keepExif: true };
+
+const ORIGINAL_QUALITY = 0.92; // full-size re-encode that only drops EXIF
+const THUMB_PX = 320;
+const THUMB_QUALITY = 0.7;
+const SIGNATURE_PX = 600; // width of a stored signature image
+
+async function decode(blob: Blob): Promise<ImageBitmap | undefined> {
+  try {
+    return await createImageBitmap(blob, { imageOrientation: "from-image" });
+  } catch {
+    return undefined; // e.g. HEIC on browsers that cannot decode it
+  }
+}
+
+function encode(bitmap: ImageBitmap, maxPx: number, quality: number): Promise<Blob> {
+  const scale = Math.min(1, maxPx / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#fff"; // JPEG has no alpha
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the photo."))), "image/jpeg", quality));
+}
+
+/** Sets the IFD0 Orientation tag to 1: the pixels were already rotated when decoding. */
+function resetOrientation(segment: Uint8Array) {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const tiff = 10; // marker (2) + length (2) + "Exif\0\0" (6)
+  if (segment.length < tiff + 8) return;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd0 = tiff + view.getUint32(tiff + 4, little);
+  if (ifd0 + 2 > segment.length) return;
+  const count = view.getUint16(ifd0, little);
+  for (let n = 0; n < count; n++) {
+    const entry = ifd0 + 2 + n * 12;
+    if (entry + 12 > segment.length) return;
+    if (view.getUint16(entry, little) === 0x0112) {
+      view.setUint16(entry + 8, 1, little);
+      return;
+    }
+  }
+}
+
+async function withExif(jpeg: Blob, original: Blob): Promise<Blob> {
+  const exif = findExifSegment(new Uint8Array(await original.arrayBuffer()));
+  if (!exif) return jpeg;
+  resetOrientation(exif);
+  const out = new Uint8Array(await jpeg.arrayBuffer());
+  return new Blob([out.subarray(0, 2), exif, out.subarray(2)], { type: "image/jpeg" });
+}
+
+/**
+ * Prepares a picked photo for storage. Files the browser cannot decode are stored unchanged
+ * and get no thumbnail (views fall back to the full photo). At original size the file is kept
+ * as taken only when EXIF is kept; otherwise it is re-encoded at full size, which drops the EXIF (GPS included).
+ */
+export async function processPhoto(file: Blob, settings: PhotoSettings): Promise<{ photo: Blob; thumb?: Blob }> {
+  const bitmap = await decode(file);
+  if (!bitmap) return { photo: file };
+  try {
+    const thumb = await encode(bitmap, THUMB_PX, THUMB_QUALITY);
+    if (settings.maxDimension === 0 && settings.keepExif) return { photo: file, thumb };
+    let photo = settings.maxDimension === 0
+      ? await encode(bitmap, Infinity, ORIGINAL_QUALITY)
+      : await encode(bitmap, settings.maxDimension, settings.quality);
+    if (settings.keepExif && file.type === "image/jpeg") photo = await withExif(photo, file);
+    return { photo, thumb };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Thumbnail for a photo stored before thumbnails existed (or imported without one). */
+export async function createThumbnail(photo: Blob): Promise<Blob | undefined> {
+  const bitmap = await decode(photo);
+  if (!bitmap) return undefined;
+  try {
+    return await encode(bitmap, THUMB_PX, THUMB_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Scales a signature image down to a PNG data URL, keeping transparency, small enough to store with a profile. */
+export async function signatureDataURL(file: Blob): Promise<string> {
+  const bitmap = await decode(file);
+  if (!bitmap) throw new Error("This image could not be read.");
+  try {
+    const scale = Math.min(1, SIGNATURE_PX / bitmap.width);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Sign-in throttling. Failures are persisted so reloading the page does not reset the delay.
+ * The first FREE_ATTEMPTS failures are free; after that each failure doubles the wait, up to a cap.
+ */
+
+const LS_LOCKOUT_KEY = "mia.auth.lockout:v1";
+const FREE_ATTEMPTS = 5;
+const BASE_DELAY_MS = 30_000;
+const MAX_DELAY_MS = 30 * 60_000;
+
+export type LockoutState = { failures: number; lockedUntil: number };
+
+export function loadLockout(): LockoutState {
+  try {
+    const raw = localStorage.getItem(LS_LOCKOUT_KEY);
+    return raw ? JSON.parse(raw) : { failures: 0, lockedUntil: 0 };
+  } catch {
+    return { failures: 0, lockedUntil: 0 };
+  }
+}
+
+export function recordFailure(now = Date.now()): LockoutState {
+  const failures = loadLockout().failures + 1;
+  const over = failures - FREE_ATTEMPTS;
+  const lockedUntil = over > 0 ? now + Math.min(BASE_DELAY_MS * 2 ** (over - 1), MAX_DELAY_MS) : 0;
+  const next = { failures, lockedUntil };
+  localStorage.setItem(LS_LOCKOUT_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function clearLockout() {
+  localStorage.removeItem(LS_LOCKOUT_KEY);
+}
+
+/** Attempts left before the next failure triggers a delay. */
+export function attemptsBeforeDelay(state: LockoutState): number {
+  return Math.max(0, FREE_ATTEMPTS - state.failures);
+}
@@ -0,0 +1,256 @@
+import { drawAnnotations } from "@/lib/annotations";
+import { checklistCounts, failedItems } from "@/lib/checklists";
+import { SEVERITY_LABELS, STATUS_LABELS, type DeficiencyReportItem } from "@/lib/deficiencies";
+import { describeExif, describeMismatch, exifMismatchHours } from "@/lib/exif";
+import { formatPosition } from "@/lib/geo";
+import { projectSummary } from "@/lib/projects";
+import { describeAttachment, inspectorsOf } from "@/lib/report";
+import { checkSignOff, entryContentHash, reportContentHash } from "@/lib/signoff";
+import type { Annotation, InspectionEntry, ProjectField, ProjectMeta, SignOff } from "@/lib/types";
+
+/**
+ * On-device PDF export of an inspection report.
+ * Photos are re-encoded as JPEG (max 1600px) so the file stays small enough to email,
+ * with their annotation layers burned in.
+ * jsPDF is loaded on demand to keep it out of the main bundle.
+ */
+
+export type ReportPdfInput = {
+  projectId: string;
+  project?: ProjectMeta;
+  fields: ProjectField[]; // custom project fields, in display order
+  entries: InspectionEntry[]; // already filtered, in report order
+  rangeLabel: string;
+  signOffs: SignOff[]; // report sign-offs for this range
+  deficiencies: DeficiencyReportItem[]; // found or resolved in these entries
+  loadPhoto: (key: string) => Promise<Blob | undefined>;
+};
+
+const MARGIN = 15; // mm
+const PHOTO_GAP = 4;
+const MAX_IMAGE_PX = 1600;
+const PT_TO_MM = 0.3528;
+const CAPTION_H = 15; // room under each photo for up to three caption lines
+const SIGNATURE_H = 18;
+
+type JpegImage = { dataUrl: string; width: number; height: number };
+
+async function blobToJpeg(blob: Blob, annotations: Annotation[] = []): Promise<JpegImage> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, MAX_IMAGE_PX / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "#fff"; // flatten transparent PNGs
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  drawAnnotations(ctx, annotations, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL("image/jpeg", 0.8), width: canvas.width, height: canvas.height };
+}
+
+export async function buildReportPdf({ projectId, project, fields, entries, rangeLabel, signOffs, deficiencies, loadPhoto }: ReportPdfInput): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const contentW = pageW - MARGIN * 2;
+  let y = MARGIN;
+
+  function ensureSpace(h: number) {
+    if (y + h > pageH - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  }
+
+  function write(text: string, size: number, opts: { bold?: boolean; muted?: boolean; after?: number } = {}) {
+    doc.setFont("helvetica", opts.bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(opts.muted ? 110 : 23);
+    const lineH = size * PT_TO_MM * 1.35;
+    const lines: string[] = doc.splitTextToSize(text, contentW);
+    lines.forEach((line) => {
+      ensureSpace(lineH);
+      doc.text(line, MARGIN, y + lineH * 0.75);
+      y += lineH;
+    });
+    y += opts.after ?? 0;
+  }
+
+  /** Signature image, signer and whether the content still matches what was signed. */
+  function writeSignOff(signOff: SignOff, currentHash: string) {
+    ensureSpace(SIGNATURE_H + 12);
+    try {
+      const { width, height } = doc.getImageProperties(signOff.signature);
+      doc.addImage(signOff.signature, "PNG", MARGIN, y, Math.min(contentW / 2, (width / height) * SIGNATURE_H), SIGNATURE_H);
+    } catch {
+      write("(signature image could not be decoded)", 9, { muted: true });
+    }
+    y += SIGNATURE_H + 1;
+    write(`${signOff.name}${signOff.role ? `, ${signOff.role}` : ""} - signed ${new Date(signOff.signedAt).toLocaleString()}`, 10);
+    const valid = checkSignOff(signOff, currentHash) === "valid";
+    write(valid ? "Unchanged since signing" : "EDITED AFTER SIGNING: this signature no longer covers the content", 9, { bold: !valid, muted: valid, after: 4 });
+  }
+
+  const cellW = (contentW - PHOTO_GAP) / 2;
+  const cellH = cellW * 0.75;
+
+  /** One photo fitted into a grid cell at the current line, or a note where it could not be drawn. */
+  async function drawPhoto(key: string, x: number, annotations?: Annotation[]) {
+    const blob = await loadPhoto(key);
+    if (blob) {
+      try {
+        const img = await blobToJpeg(blob, annotations);
+        const fit = Math.min(cellW / img.width, cellH / img.height);
+        const w = img.width * fit;
+        const h = img.height * fit;
+        doc.addImage(img.dataUrl, "JPEG", x + (cellW - w) / 2, y + (cellH - h) / 2, w, h);
+      } catch {
+        doc.setFontSize(9);
+        doc.text("(image could not be decoded)", x, y + cellH / 2);
+      }
+    } else {
+      doc.setFontSize(9);
+      doc.text("(photo missing)", x, y + cellH / 2);
+    }
+  }
+
+  // Cover
+  const photoCount = entries.reduce((n, e) => n + e.photoKeys.length, 0);
+  y = 60;
+  write("Inspection Report", 26, { bold: true, after: 6 });
+  write(`Project ${projectId}`, 16, { bold: true, after: 4 });
+  write(`Address: ${project?.address || "-"}`, 11, { after: 2 });
+  write(`Scope: ${project?.scope || "-"}`, 11, { after: 2 });
+  projectSummary(project, fields).forEach(({ label, value }) => write(`${label}: ${value}`, 11, { after: 2 }));
+  y += 6;
+  write(`Period: ${rangeLabel}`, 11, { muted: true });
+  write(`${entries.length} inspection(s), ${photoCount} photo(s)`, 11, { muted: true });
+  const inspectors = inspectorsOf(entries);
+  if (inspectors.length > 0) write(`Inspected by ${inspectors.join(", ")}`, 11, { muted: true });
+  write(`Generated ${new Date().toLocaleString()}`, 11, { muted: true });
+
+  const failed = failedItems(entries);
+  if (failed.length > 0) {
+    y += 8;
+    write(`${failed.length} failed checklist item(s)`, 12, { bold: true, after: 2 });
+    failed.forEach(({ entry, section, item }) => {
+      write(`- ${entry.date}: ${section} - ${item.label}${item.comment ? ` (${item.comment})` : ""}`, 10);
+    });
+  }
+
+  // Entries
+  for (const entry of entries) {
+    doc.addPage();
+    y = MARGIN;
+    write(`${entry.date}  ${entry.time}`, 14, { bold: true, after: 2 });
+    if (entry.author) write(`Inspected by ${entry.author.name}`, 10, { after: 2 });
+    if (entry.revisions?.length) {
+      write(`Edited ${entry.revisions.length} time(s), last on ${new Date(entry.updatedAt).toLocaleString()}`, 9, { muted: true, after: 2 });
+    }
+    if (entry.location) {
+      write(`Recorded at ${formatPosition(entry.location.lat, entry.location.lng)} (+/-${entry.location.accuracy} m)`, 9, { muted: true, after: 2 });
+    }
+    write(entry.notes || "(no notes)", 11, { after: 4 });
+    if (entry.attachments?.length) write(`Attachments: ${entry.attachments.map(describeAttachment).join(", ")}`, 9, { muted: true, after: 4 });
+
+    // Failed checklist items are spelled out; their photos join the grid below
+    // Caption lines: label with caption/tags, then EXIF, then any timestamp warning
+    const captionFor = (key: string, fallback: string) => {
+      const meta = entry.photoMeta?.[key];
+      const mismatch = exifMismatchHours(entry, meta?.exif);
+      return [
+        [fallback, meta?.caption, meta?.tags?.map((t) => `#${t}`).join(" ")].filter(Boolean).join(" - "),
+        describeExif(meta?.exif).join(" | "),
+        mismatch ? `! ${describeMismatch(mismatch)}` : "",
+      ].filter(Boolean);
+    };
+    const photos = entry.photoKeys.map((key, i) => ({ key, caption: captionFor(key, `Photo ${i + 1} - ${entry.date} ${entry.time}`) }));
+    if (entry.checklist) {
+      const counts = checklistCounts(entry.checklist);
+      write(`Checklist: ${entry.checklist.templateName} - ${counts.pass} pass, ${counts.fail} fail, ${counts.na} N/A${counts.unset ? `, ${counts.unset} unanswered` : ""}`, 10, { bold: true, after: 1 });
+      entry.checklist.sections.forEach((s) =>
+        s.items
+          .filter((i) => i.status === "fail")
+          .forEach((i) => {
+            write(`FAIL  ${s.title} - ${i.label}${i.comment ? `: ${i.comment}` : ""}`, 10);
+            i.photoKeys.forEach((key) => photos.push({ key, caption: captionFor(key, `Fail: ${i.label}`) }));
+          })
+      );
+      y += 4;
+    }
+
+    for (let i = 0; i < photos.length; i++) {
+      const col = i % 2;
+      if (col === 0) ensureSpace(cellH + CAPTION_H);
+      const x = MARGIN + col * (cellW + PHOTO_GAP);
+      await drawPhoto(photos[i].key, x, entry.annotations?.[photos[i].key]);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(8);
+      doc.setTextColor(110);
+      doc.text(photos[i].caption.map((line) => doc.splitTextToSize(line, cellW)[0]), x, y + cellH + 4);
+      if (col === 1 || i === photos.length - 1) y += cellH + CAPTION_H;
+    }
+
+    if (entry.signOffs?.length) {
+      y += 4;
+      write("Sign-off", 12, { bold: true, after: 2 });
+      const hash = await entryContentHash(entry, loadPhoto);
+      entry.signOffs.forEach((s) => writeSignOff(s, hash));
+    }
+  }
+
+  // Deficiencies: before photos on the left, after photos on the right
+  if (deficiencies.length > 0) {
+    doc.addPage();
+    y = MARGIN;
+    write("Deficiencies", 14, { bold: true, after: 4 });
+    for (const { deficiency: d, found, closed, before, after } of deficiencies) {
+      ensureSpace(20);
+      write(`${d.title} (${SEVERITY_LABELS[d.severity]}, ${STATUS_LABELS[d.status].toLowerCase()})`, 11, { bold: true });
+      const details = [d.location, d.assignee && `Assigned to ${d.assignee}`, d.dueDate && `Due ${d.dueDate}`].filter(Boolean).join(" - ");
+      if (details) write(details, 9, { muted: true });
+      const closedLabel = d.closedIn ? `, resolved ${closed ? `${closed.date} ${closed.time}` : "in a deleted entry"}` : "";
+      write(`Found ${found ? `${found.date} ${found.time}` : "in a deleted entry"}${closedLabel}`, 9, { muted: true, after: 2 });
+      if (before.length > 0 || after.length > 0) {
+        ensureSpace(6 + cellH);
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(9);
+        doc.setTextColor(110);
+        doc.text("Before", MARGIN, y + 3);
+        doc.text("After", MARGIN + cellW + PHOTO_GAP, y + 3);
+        y += 5;
+      }
+      for (let i = 0; i < Math.max(before.length, after.length); i++) {
+        ensureSpace(cellH + PHOTO_GAP);
+        if (before[i]) await drawPhoto(before[i], MARGIN, found?.annotations?.[before[i]]);
+        if (after[i]) await drawPhoto(after[i], MARGIN + cellW + PHOTO_GAP, closed?.annotations?.[after[i]]);
+        y += cellH + PHOTO_GAP;
+      }
+      y += 4;
+    }
+  }
+
+  if (signOffs.length > 0) {
+    doc.addPage();
+    y = MARGIN;
+    write("Report sign-off", 14, { bold: true, after: 4 });
+    const hash = await reportContentHash(entries, loadPhoto);
+    signOffs.forEach((s) => writeSignOff(s, hash));
+  }
+
+  // Footer with page numbers
+  const pages = doc.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    doc.setPage(p);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(110);
+    doc.text(`Project ${projectId} - ${rangeLabel}`, MARGIN, pageH - 8);
+    doc.text(`Page ${p} of ${pages}`, pageW - MARGIN, pageH - 8, { align: "right" });
+  }
+
+  return doc.output("blob");
+}
@@ -0,0 +1,81 @@
+import type { KeyStore } from "@/lib/crypto";
+import type { AuthorRef } from "@/lib/types";
+
+/**
+ * Local user profiles. Every profile unlocks the same data (see lib/crypto): each keeps its own
+ * copy of the data key, wrapped by its own passcode, so adding or removing a user never
+ * re-encrypts anything. The list is stored in the clear because the sign-in screen needs it
+ * while locked; signatures are encrypted like the rest of the data.
+ * Admins manage the other profiles; there is always at least one admin.
+ */
+
+const LS_PROFILES_KEY = "mia.profiles:v1"; // Profile[]
+const LS_LEGACY_KEYSTORE_KEY = "mia.keystore:v1"; // single passcode's KeyStore, from before profiles
+const LS_LAST_PROFILE_KEY = "mia.profiles.last:v1"; // preselected on the sign-in screen
+
+export type ProfileRole = "admin" | "inspector";
+
+export type Profile = {
+  id: string;
+  name: string;
+  initials: string;
+  role: ProfileRole;
+  keyStore: KeyStore; // the data key wrapped by this profile's passcode
+  signature?: string; // sealed JSON of a PNG data URL
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** The stored profiles. An install from before profiles gets one admin profile holding its existing key store. */
+export function loadProfiles(): Profile[] {
+  try {
+    const raw = localStorage.getItem(LS_PROFILES_KEY);
+    if (raw) {
+      const list = JSON.parse(raw);
+      return Array.isArray(list) ? list.filter((p) => typeof p?.id === "string" && p.keyStore) : [];
+    }
+    const legacy = localStorage.getItem(LS_LEGACY_KEYSTORE_KEY);
+    if (!legacy) return [];
+    const profiles = [newProfile({ name: "Administrator", initials: "AD", role: "admin" }, JSON.parse(legacy))];
+    saveProfiles(profiles);
+    localStorage.removeItem(LS_LEGACY_KEYSTORE_KEY);
+    return profiles;
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: Profile[]) {
+  localStorage.setItem(LS_PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadLastProfileId(): string | null {
+  return localStorage.getItem(LS_LAST_PROFILE_KEY);
+}
+
+export function saveLastProfileId(id: string) {
+  localStorage.setItem(LS_LAST_PROFILE_KEY, id);
+}
+
+export function newProfile(fields: Pick<Profile, "name" | "initials" | "role">, keyStore: KeyStore): Profile {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), ...fields, keyStore, createdAt: now, updatedAt: now };
+}
+
+/** "Jane van der Berg" -> "JB". */
+export function initialsFor(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "";
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : words[0][1] ?? "";
+  return (first + last).toUpperCase();
+}
+
+export function authorOf(profile: Profile): AuthorRef {
+  return { id: profile.id, name: profile.name, initials: profile.initials };
+}
+
+/** Whether the profile is the only admin, which must not be removed or demoted. */
+export function isLastAdmin(profiles: Profile[], id: string): boolean {
+  return profiles.filter((p) => p.role === "admin").every((p) => p.id === id);
+}
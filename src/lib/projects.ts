@@ -0,0 +1,164 @@
+import type { ProjectContact, ProjectField, ProjectFieldType, ProjectMeta, ProjectStatus } from "@/lib/types";
+
+/**
+ * Project details beyond address and scope: client, contacts, permit, contract value, dates, status
+ * and the admin-defined custom fields. The project dialog edits them as text (a draft) and only
+ * turns them into a ProjectMeta once every field is valid, so errors can be shown next to each input.
+ */
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  planned: "Planned",
+  active: "Active",
+  on_hold: "On hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const FIELD_TYPE_LABELS: Record<ProjectFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Choice list",
+};
+
+/** The project dialog's form: everything as typed, custom values by field id. */
+export type ProjectDraft = {
+  id: string;
+  address: string;
+  scope: string;
+  templateId: string;
+  client: string;
+  contacts: ProjectContact[];
+  permitNumber: string;
+  contractValue: string;
+  startDate: string;
+  endDate: string;
+  status: ProjectStatus | "";
+  customFields: Record<string, string>;
+};
+
+/** Details the dialog sets; id, timestamps, authors, sign-offs and the punch list are kept by the caller. */
+export type ProjectDetails = Pick<
+  ProjectMeta,
+  "address" | "scope" | "templateId" | "client" | "contacts" | "permitNumber" | "contractValue" | "startDate" | "endDate" | "status" | "customFields"
+>;
+
+/** Error messages by input: "id", "contractValue", "endDate", "contact-<n>-<field>" or "field-<ProjectField id>". */
+export type ProjectErrors = Record<string, string>;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE = /^\+?[\d\s().-]{5,}$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toProjectDraft(project?: ProjectMeta): ProjectDraft {
+  return {
+    id: project?.id ?? "",
+    address: project?.address ?? "",
+    scope: project?.scope ?? "",
+    templateId: project?.templateId ?? "",
+    client: project?.client ?? "",
+    contacts: project?.contacts ?? [],
+    permitNumber: project?.permitNumber ?? "",
+    contractValue: project?.contractValue !== undefined ? String(project.contractValue) : "",
+    startDate: project?.startDate ?? "",
+    endDate: project?.endDate ?? "",
+    status: project?.status ?? "",
+    customFields: project?.customFields ?? {},
+  };
+}
+
+/** "12,500.00" typed with thousands separators or spaces still counts as a number. */
+function parseAmount(text: string): number {
+  return Number(text.replace(/[,\s]/g, ""));
+}
+
+function isDate(text: string): boolean {
+  return DATE.test(text) && !Number.isNaN(new Date(`${text}T00:00:00`).getTime());
+}
+
+/** Why a custom value is not acceptable for its field, or undefined. */
+export function fieldValueProblem(field: ProjectField, value: string): string | undefined {
+  const v = value.trim();
+  if (!v) return field.required ? "Required." : undefined;
+  if (field.type === "number" && !Number.isFinite(parseAmount(v))) return "Enter a number.";
+  if (field.type === "date" && !isDate(v)) return "Enter a date.";
+  if (field.type === "select" && !(field.options || []).includes(v)) return "Choose one of the options.";
+  return undefined;
+}
+
+/** Every problem with the draft, keyed by input; empty when it can be saved. */
+export function projectDraftErrors(draft: ProjectDraft, fields: ProjectField[]): ProjectErrors {
+  const errors: ProjectErrors = {};
+  if (!draft.id.trim()) errors.id = "Enter a Project ID.";
+  draft.contacts.forEach((c, i) => {
+    if (!c.name.trim()) errors[`contact-${i}-name`] = "Enter a name.";
+    if (c.phone.trim() && !PHONE.test(c.phone.trim())) errors[`contact-${i}-phone`] = "Not a phone number.";
+    if (c.email.trim() && !EMAIL.test(c.email.trim())) errors[`contact-${i}-email`] = "Not an email address.";
+  });
+  const value = draft.contractValue.trim();
+  if (value && !(parseAmount(value) >= 0)) errors.contractValue = "Enter an amount, e.g. 125000.";
+  if (draft.startDate && draft.endDate && draft.endDate < draft.startDate) errors.endDate = "Ends before it starts.";
+  fields.forEach((f) => {
+    const problem = fieldValueProblem(f, draft.customFields[f.id] ?? "");
+    if (problem) errors[`field-${f.id}`] = problem;
+  });
+  return errors;
+}
+
+/**
+ * The details of a valid draft. Values of custom fields that have since been deleted are kept
+ * (from `prev`), so restoring a field brings them back.
+ */
+export function projectDetails(draft: ProjectDraft, fields: ProjectField[], prev?: ProjectMeta): ProjectDetails {
+  const custom: Record<string, string> = { ...prev?.customFields };
+  fields.forEach((f) => {
+    const v = (draft.customFields[f.id] ?? "").trim();
+    if (v) custom[f.id] = f.type === "number" ? String(parseAmount(v)) : v;
+    else delete custom[f.id];
+  });
+  const contacts = draft.contacts.map((c) => ({ name: c.name.trim(), phone: c.phone.trim(), email: c.email.trim() }));
+  return {
+    address: draft.address.trim(),
+    scope: draft.scope.trim(),
+    templateId: draft.templateId || undefined,
+    client: draft.client.trim() || undefined,
+    contacts: contacts.length > 0 ? contacts : undefined,
+    permitNumber: draft.permitNumber.trim() || undefined,
+    contractValue: draft.contractValue.trim() ? parseAmount(draft.contractValue) : undefined,
+    startDate: draft.startDate || undefined,
+    endDate: draft.endDate || undefined,
+    status: draft.status || undefined,
+    customFields: Object.keys(custom).length > 0 ? custom : undefined,
+  };
+}
+
+export function formatAmount(n: number): string {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function describeContact(c: ProjectContact): string {
+  return [c.name, c.phone, c.email].filter(Boolean).join(", ");
+}
+
+/** Labelled lines for reports: the set details only, then each custom field that has a value. */
+export function projectSummary(project: ProjectMeta | undefined, fields: ProjectField[]): { label: string; value: string }[] {
+  if (!project) return [];
+  const lines: { label: string; value: string }[] = [];
+  const add = (label: string, value: string | undefined) => value && lines.push({ label, value });
+  add("Client", project.client);
+  add("Status", project.status && PROJECT_STATUS_LABELS[project.status]);
+  add("Permit", project.permitNumber);
+  add("Contract value", project.contractValue !== undefined ? formatAmount(project.contractValue) : undefined);
+  if (project.startDate || project.endDate) add("Schedule", `${project.startDate || "?"} to ${project.endDate || "?"}`);
+  (project.contacts || []).forEach((c) => add("Site contact", describeContact(c)));
+  fields.forEach((f) => {
+    const v = project.customFields?.[f.id];
+    add(f.label, v && f.type === "number" ? Number(v).toLocaleString() : v);
+  });
+  return lines;
+}
+
+/** Custom fields in the order they were added. */
+export function sortFields(fields: Record<string, ProjectField>): ProjectField[] {
+  return Object.values(fields).sort((a, b) => a.createdAt - b.createdAt);
+}
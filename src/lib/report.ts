@@ -0,0 +1,44 @@
+import type { Attachment, InspectionEntry } from "@/lib/types";
+
+/** Inclusive YYYY-MM-DD bounds; a missing end leaves that side open. */
+export type DateRange = { from?: string; to?: string };
+
+/** YYYY-MM-DD of a moment in local time, the form entry dates are kept in. */
+export function localDate(d: Date = new Date()): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+export function entryTime(e: Pick<InspectionEntry, "date" | "time">): number {
+  return new Date(`${e.date}T${e.time}:00`).getTime();
+}
+
+/** Entries within the range, oldest first (report order). */
+export function entriesInRange(list: InspectionEntry[], range: DateRange): InspectionEntry[] {
+  return list
+    .filter((e) => (!range.from || e.date >= range.from) && (!range.to || e.date <= range.to))
+    .sort((a, b) => entryTime(a) - entryTime(b));
+}
+
+export function describeRange(range: DateRange): string {
+  const { from, to } = range;
+  if (from && to) return from === to ? from : `${from} to ${to}`;
+  if (from) return `From ${from}`;
+  if (to) return `Until ${to}`;
+  return "Full timeline";
+}
+
+/** Everyone who recorded one of the entries, in order of first appearance. */
+export function inspectorsOf(entries: InspectionEntry[]): string[] {
+  return Array.from(new Set(entries.flatMap((e) => (e.author ? [e.author.name] : []))));
+}
+
+/** "1:05" for recording lengths. */
+export function formatDuration(ms: number): string {
+  const secs = Math.round(ms / 1000);
+  return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, "0")}`;
+}
+
+/** An attachment as listed in reports, which cannot play it: "Voice note 1 (audio, 0:35)". */
+export function describeAttachment(a: Attachment): string {
+  return `${a.name} (${a.kind}${a.durationMs !== undefined ? `, ${formatDuration(a.durationMs)}` : ""})`;
+}
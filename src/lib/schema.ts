@@ -0,0 +1,107 @@
+/**
+ * Storage schema: one version number across localStorage and IndexedDB, advanced by ordered
+ * migrations, and shape checks for loaded records. A record that fails its check is quarantined
+ * (kept, still encrypted, in IndexedDB) instead of being dropped or passed on to the UI.
+ * IndexedDB's own version (see lib/db) only creates object stores; changes to data are migrations.
+ */
+
+export type Migration = {
+  version: number; // schema version once this has run
+  description: string; // shown if it fails
+  run: () => Promise<void>; // must be safe to re-run: a failed migration is retried next sign-in
+};
+
+/** A stored record that could not be read or failed validation. */
+export type QuarantinedRecord = {
+  id?: number; // assigned by IndexedDB
+  source: string; // where it was read from, e.g. "projects" or "entries"
+  label: string; // which record, e.g. a project ID
+  reason: string;
+  data: string; // as stored: sealed JSON, or the raw text when it could not be decrypted
+  quarantinedAt: number;
+};
+
+/** Runs the migrations newer than `from` in order, recording each as it completes so later ones never run on a half-migrated store. */
+export async function migrate(migrations: Migration[], from: number, record: (version: number) => void) {
+  const pending = migrations.filter((m) => m.version > from).sort((a, b) => a.version - b.version);
+  for (const m of pending) {
+    try {
+      await m.run();
+    } catch {
+      throw new Error(`Storage upgrade "${m.description}" did not finish. Will retry next sign-in.`);
+    }
+    record(m.version);
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isText = (v: unknown): v is string => typeof v === "string";
+const isTime = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+const isTextList = (v: unknown) => Array.isArray(v) && v.every(isText);
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || check(v);
+const isAuthor = (v: unknown) => isRecord(v) && isText(v.id) && isText(v.name);
+const isAttachmentList = (v: unknown) => Array.isArray(v) && v.every((a) => isRecord(a) && isText(a.key) && isText(a.kind) && isText(a.type));
+const isDeficiencyList = (v: unknown) =>
+  Array.isArray(v) && v.every((d) => isRecord(d) && isText(d.id) && isText(d.title) && isText(d.status) && isText(d.severity) && isText(d.foundIn) && isTextList(d.photoKeys));
+const isContactList = (v: unknown) => Array.isArray(v) && v.every((c) => isRecord(c) && isText(c.name) && isText(c.phone) && isText(c.email));
+const isVisitList = (v: unknown) => Array.isArray(v) && v.every((p) => isRecord(p) && isText(p.id) && isText(p.date) && isText(p.purpose) && isOptional(p.time, isText));
+const isSignOffList = (v: unknown) => Array.isArray(v) && v.every((s) => isRecord(s) && isText(s.signature) && isText(s.contentHash) && isTime(s.signedAt));
+
+/** Why a value is not a usable ProjectMeta, or undefined if it is. */
+export function projectProblem(value: unknown): string | undefined {
+  if (!isRecord(value)) return "Not a project record.";
+  if (!isText(value.id) || !value.id) return "Missing project ID.";
+  if (!isText(value.address) || !isText(value.scope)) return "Address or scope is not text.";
+  if (!isTime(value.createdAt) || !isTime(value.updatedAt)) return "Missing or invalid timestamps.";
+  if (!isOptional(value.archived, (v) => typeof v === "boolean") || !isOptional(value.templateId, isText)) return "Invalid archive flag or template.";
+  if (!isOptional(value.createdBy, isAuthor) || !isOptional(value.updatedBy, isAuthor)) return "Author is invalid.";
+  if (![value.client, value.permitNumber, value.startDate, value.endDate, value.status].every((v) => isOptional(v, isText))) return "Project details are not text.";
+  if (!isOptional(value.contractValue, isTime)) return "Contract value is not a number.";
+  if (!isOptional(value.contacts, isContactList)) return "Site contacts are invalid.";
+  if (!isOptional(value.customFields, (v) => isRecord(v) && Object.values(v).every(isText))) return "Custom field values are invalid.";
+  if (!isOptional(value.signOffs, isSignOffList)) return "Sign-offs are invalid.";
+  if (!isOptional(value.deficiencies, isDeficiencyList)) return "Punch list is invalid.";
+  if (!isOptional(value.visits, isVisitList)) return "Planned visits are invalid.";
+  return undefined;
+}
+
+/** Why a value is not a usable InspectionEntry, or undefined if it is. */
+export function entryProblem(value: unknown): string | undefined {
+  if (!isRecord(value)) return "Not an inspection record.";
+  if (!isText(value.id) || !value.id) return "Missing entry ID.";
+  if (!isText(value.date) || !/^\d{4}-\d{2}-\d{2}$/.test(value.date)) return "Date is not YYYY-MM-DD.";
+  if (!isText(value.time) || !/^\d{2}:\d{2}$/.test(value.time)) return "Time is not HH:MM.";
+  if (!isText(value.notes)) return "Notes are not text.";
+  if (!isTextList(value.photoKeys)) return "Photo list is invalid.";
+  if (!isOptional(value.attachments, isAttachmentList)) return "Attachment list is invalid.";
+  if (!isTime(value.createdAt) || !isTime(value.updatedAt)) return "Missing or invalid timestamps.";
+  if (!isOptional(value.revisions, (v) => Array.isArray(v) && v.every((r) => isRecord(r) && isTextList(r.photoKeys) && isOptional(r.attachments, isAttachmentList)))) return "Revision history is invalid.";
+  if (!isOptional(value.checklist, (v) => isRecord(v) && Array.isArray(v.sections))) return "Checklist is invalid.";
+  if (!isOptional(value.annotations, isRecord) || !isOptional(value.photoMeta, isRecord)) return "Photo details are invalid.";
+  if (!isOptional(value.location, (v) => isRecord(v) && isTime(v.lat) && isTime(v.lng))) return "Location is invalid.";
+  if (!isOptional(value.author, isAuthor) || !isOptional(value.updatedBy, isAuthor)) return "Author is invalid.";
+  if (!isOptional(value.signOffs, isSignOffList)) return "Sign-offs are invalid.";
+  return undefined;
+}
+
+/** Why a value is not a usable ChecklistTemplate, or undefined if it is. */
+export function templateProblem(value: unknown): string | undefined {
+  if (!isRecord(value)) return "Not a template record.";
+  if (!isText(value.id) || !value.id || !isText(value.name)) return "Missing template ID or name.";
+  if (!Array.isArray(value.sections) || !value.sections.every((s) => isRecord(s) && Array.isArray(s.items))) return "Sections are invalid.";
+  if (!isTime(value.createdAt) || !isTime(value.updatedAt)) return "Missing or invalid timestamps.";
+  return undefined;
+}
+
+/** Why a value is not a usable ProjectField, or undefined if it is. */
+export function projectFieldProblem(value: unknown): string | undefined {
+  if (!isRecord(value)) return "Not a field record.";
+  if (!isText(value.id) || !value.id || !isText(value.label)) return "Missing field ID or label.";
+  if (!["text", "number", "date", "select"].includes(value.type as string)) return "Unknown field type.";
+  if (!isOptional(value.options, isTextList)) return "Options are invalid.";
+  if (!isTime(value.createdAt) || !isTime(value.updatedAt)) return "Missing or invalid timestamps.";
+  return undefined;
+}
@@ -0,0 +1,245 @@
+import { PROJECT_STATUS_LABELS } from "@/lib/projects";
+import { entryTime } from "@/lib/report";
+import type { InspectionEntry, ProjectMeta } from "@/lib/types";
+
+/**
+ * Full-text search over project details, entry notes and photo captions/tags.
+ * The index is inverted (term -> documents) and kept in memory only, since it is rebuilt from
+ * decrypted data. Records are immutable, so `update` re-indexes exactly the projects and entries
+ * whose object changed and drops the ones that are gone; typing a query never walks every entry.
+ * Each query word must match a term exactly, as a prefix, or (from 4 letters) fuzzily: a term whose
+ * start is within one typo of the word (two for 8+ letters), so "concret" and "waterprofing" still find.
+ */
+
+export type SearchField = { label: string; text: string };
+
+export type SearchDoc = {
+  id: string; // "project:<projectId>" or "entry:<projectId>/<entryId>"
+  projectId: string;
+  entry?: InspectionEntry;
+  fields: SearchField[];
+};
+
+export type SearchFilters = {
+  projectId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  authorId?: string;
+};
+
+/** A run of snippet text, highlighted when it matched the query. */
+export type SnippetPart = { text: string; hit: boolean };
+
+export type SearchResult = {
+  doc: SearchDoc;
+  score: number;
+  field: string; // label of the field the snippet is from
+  snippet: SnippetPart[];
+};
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const SNIPPET_CHARS = 140;
+const MAX_RESULTS = 200;
+
+/** Lower-case without accents, so "Façade" finds "facade". */
+export function normalize(word: string): string {
+  return word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return Array.from(text.matchAll(WORD), (m) => normalize(m[0]));
+}
+
+/** Levenshtein distance, giving up (returning max + 1) once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function projectDoc(p: ProjectMeta): SearchDoc {
+  const fields: SearchField[] = [
+    { label: "Project ID", text: p.id },
+    { label: "Address", text: p.address },
+    { label: "Scope", text: p.scope },
+    { label: "Client", text: p.client || "" },
+    { label: "Permit", text: p.permitNumber || "" },
+    { label: "Status", text: p.status ? PROJECT_STATUS_LABELS[p.status] : "" },
+    ...(p.contacts || []).map((c) => ({ label: "Site contact", text: [c.name, c.phone, c.email].filter(Boolean).join(", ") })),
+    ...Object.values(p.customFields || {}).map((text) => ({ label: "Project details", text })),
+  ];
+  return { id: `project:${p.id}`, projectId: p.id, fields: fields.filter((f) => f.text) };
+}
+
+function entryDoc(projectId: string, e: InspectionEntry): SearchDoc {
+  const fields: SearchField[] = [{ label: "Notes", text: e.notes }];
+  Object.values(e.photoMeta || {}).forEach((m) => {
+    if (m.caption) fields.push({ label: "Photo caption", text: m.caption });
+    if (m.tags?.length) fields.push({ label: "Photo tags", text: m.tags.map((t) => `#${t}`).join(" ") });
+  });
+  return { id: `entry:${projectId}/${e.id}`, projectId, entry: e, fields: fields.filter((f) => f.text) };
+}
+
+type Indexed = { doc: SearchDoc; source: object; terms: Set<string> };
+
+export class SearchIndex {
+  private docs = new Map<string, Indexed>();
+  private postings = new Map<string, Set<string>>(); // term -> doc ids
+  private sortedTerms: string[] | null = null; // for prefix lookups; rebuilt after terms come or go
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  clear() {
+    this.docs.clear();
+    this.postings.clear();
+    this.sortedTerms = null;
+  }
+
+  /** Brings the index in line with the current data, re-indexing only what changed. Returns how many documents were (re)indexed. */
+  update(projects: Record<string, ProjectMeta>, inspections: Record<string, InspectionEntry[]>): number {
+    const seen = new Set<string>();
+    let changed = 0;
+    const visit = (id: string, source: object, build: () => SearchDoc) => {
+      seen.add(id);
+      if (this.docs.get(id)?.source === source) return;
+      this.remove(id);
+      this.add(build(), source);
+      changed++;
+    };
+    Object.values(projects).forEach((p) => visit(`project:${p.id}`, p, () => projectDoc(p)));
+    Object.entries(inspections).forEach(([projectId, list]) => list.forEach((e) => visit(`entry:${projectId}/${e.id}`, e, () => entryDoc(projectId, e))));
+    Array.from(this.docs.keys()).forEach((id) => {
+      if (!seen.has(id)) {
+        this.remove(id);
+        changed++;
+      }
+    });
+    return changed;
+  }
+
+  private add(doc: SearchDoc, source: object) {
+    const terms = new Set(doc.fields.flatMap((f) => tokenize(f.text)));
+    this.docs.set(doc.id, { doc, source, terms });
+    terms.forEach((t) => {
+      let ids = this.postings.get(t);
+      if (!ids) {
+        this.postings.set(t, (ids = new Set()));
+        this.sortedTerms = null;
+      }
+      ids.add(doc.id);
+    });
+  }
+
+  private remove(id: string) {
+    const indexed = this.docs.get(id);
+    if (!indexed) return;
+    this.docs.delete(id);
+    indexed.terms.forEach((t) => {
+      const ids = this.postings.get(t);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(t);
+        this.sortedTerms = null;
+      }
+    });
+  }
+
+  /** Indexed terms matching one query word, each with how well it matched (3 exact, 2 prefix, 1 fuzzy). */
+  private expand(word: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (!this.sortedTerms) this.sortedTerms = Array.from(this.postings.keys()).sort();
+    const terms = this.sortedTerms;
+    // Binary search for the first term >= word; every prefix match follows it
+    let lo = 0;
+    let hi = terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (terms[mid] < word) lo = mid + 1;
+      else hi = mid;
+    }
+    for (let i = lo; i < terms.length && terms[i].startsWith(word); i++) matches.set(terms[i], terms[i] === word ? 3 : 2);
+    if (word.length >= 4) {
+      const max = word.length >= 8 ? 2 : 1;
+      // Compare against the term's starts of about the word's length, so typos in a prefix still match
+      const nearStart = (t: string) => {
+        for (let n = word.length - max; n <= Math.min(t.length, word.length + max); n++) {
+          if (editDistance(word, t.slice(0, n), max) <= max) return true;
+        }
+        return false;
+      };
+      terms.forEach((t) => {
+        if (!matches.has(t) && nearStart(t)) matches.set(t, 1);
+      });
+    }
+    return matches;
+  }
+
+  search(query: string, filters: SearchFilters = {}): SearchResult[] {
+    const words = Array.from(new Set(tokenize(query)));
+    if (words.length === 0) return [];
+    const dated = !!(filters.from || filters.to || filters.authorId); // project details have no date or author
+
+    let candidates: Map<string, number> | null = null; // doc id -> score
+    const hitTerms = new Set<string>();
+    for (const word of words) {
+      const scores = new Map<string, number>();
+      this.expand(word).forEach((quality, term) => {
+        hitTerms.add(term);
+        this.postings.get(term)?.forEach((id) => scores.set(id, Math.max(scores.get(id) || 0, quality)));
+      });
+      const prev: Map<string, number> | null = candidates;
+      candidates = new Map();
+      scores.forEach((score, id) => {
+        if (!prev) candidates!.set(id, score);
+        else if (prev.has(id)) candidates!.set(id, prev.get(id)! + score);
+      });
+      if (candidates.size === 0) return [];
+    }
+
+    const results: SearchResult[] = [];
+    candidates!.forEach((score, id) => {
+      const { doc } = this.docs.get(id)!;
+      const e = doc.entry;
+      if (filters.projectId && doc.projectId !== filters.projectId) return;
+      if (!e ? dated : (filters.from && e.date < filters.from) || (filters.to && e.date > filters.to) || (filters.authorId && e.author?.id !== filters.authorId)) return;
+      const field = doc.fields.find((f) => tokenize(f.text).some((t) => hitTerms.has(t))) ?? doc.fields[0];
+      results.push({ doc, score, field: field.label, snippet: snippet(field.text, hitTerms) });
+    });
+    return results
+      .sort((a, b) => b.score - a.score || (b.doc.entry ? entryTime(b.doc.entry) : 0) - (a.doc.entry ? entryTime(a.doc.entry) : 0))
+      .slice(0, MAX_RESULTS);
+  }
+}
+
+/** About SNIPPET_CHARS of `text` around its first matching word, with every matching word marked. */
+export function snippet(text: string, terms: Set<string>): SnippetPart[] {
+  const words = Array.from(text.matchAll(WORD));
+  const first = words.find((m) => terms.has(normalize(m[0])))?.index ?? 0;
+  const start = Math.max(0, text.lastIndexOf(" ", Math.max(0, first - SNIPPET_CHARS / 3)) + 1);
+  const end = Math.min(text.length, start + SNIPPET_CHARS);
+  const parts: SnippetPart[] = [];
+  let at = start;
+  words.forEach((m) => {
+    const i = m.index!;
+    if (i < start || i + m[0].length > end || !terms.has(normalize(m[0]))) return;
+    if (i > at) parts.push({ text: text.slice(at, i), hit: false });
+    parts.push({ text: m[0], hit: true });
+    at = i + m[0].length;
+  });
+  if (at < end) parts.push({ text: text.slice(at, end), hit: false });
+  if (start > 0) parts.unshift({ text: "…", hit: false });
+  if (end < text.length) parts.push({ text: "…", hit: false });
+  return parts;
+}
@@ -0,0 +1,68 @@
+import { sha256Hex } from "@/lib/crypto";
+import { visiblePhotoKeys } from "@/lib/entries";
+import type { DateRange } from "@/lib/report";
+import type { InspectionEntry, ProjectMeta, ReportSignOff, SignOff } from "@/lib/types";
+
+/**
+ * Sign-off content hashes. A signature stores the SHA-256 of what was signed: an entry's date,
+ * time, notes, checklist answers and the bytes of its photos and attachments, or for a report
+ * every entry in its range. Recomputing the hash later and comparing shows whether anything
+ * changed since. Keys are left out so renaming a project does not break its signatures;
+ * annotation layers and captions are left out because they never alter the photo itself.
+ */
+
+type LoadPhoto = (key: string) => Promise<Blob | undefined>;
+
+export type SignOffCheck = "valid" | "changed";
+
+// Blobs never change under a key, so each is hashed once per session
+const photoHashes = new Map<string, string>();
+
+async function photoHash(key: string, loadPhoto: LoadPhoto): Promise<string> {
+  const known = photoHashes.get(key);
+  if (known) return known;
+  const blob = await loadPhoto(key);
+  if (!blob) return "missing";
+  const hash = await sha256Hex(await blob.arrayBuffer());
+  photoHashes.set(key, hash);
+  return hash;
+}
+
+/** Drops cached photo hashes, e.g. when a restore wrote new Blobs under existing keys. Without keys: all of them. */
+export function forgetPhotoHashes(keys?: string[]) {
+  if (!keys) photoHashes.clear();
+  else keys.forEach((k) => photoHashes.delete(k));
+}
+
+export async function entryContentHash(entry: InspectionEntry, loadPhoto: LoadPhoto): Promise<string> {
+  const photos: string[] = [];
+  for (const key of visiblePhotoKeys(entry)) photos.push(await photoHash(key, loadPhoto));
+  // Left out of the hash when there are none, so entries signed before attachments existed still verify
+  let attachments: string[] | undefined;
+  for (const a of entry.attachments || []) (attachments ||= []).push(await photoHash(a.key, loadPhoto));
+  const content = {
+    date: entry.date,
+    time: entry.time,
+    notes: entry.notes,
+    checklist: entry.checklist?.sections.map((s) => [s.title, s.items.map((i) => [i.label, i.status ?? "", i.comment])]),
+    photos,
+    attachments,
+  };
+  return sha256Hex(new TextEncoder().encode(JSON.stringify(content)));
+}
+
+/** Hash of a report: its entries' hashes in report order, so adding, removing or editing an entry in the range all show. */
+export async function reportContentHash(entries: InspectionEntry[], loadPhoto: LoadPhoto): Promise<string> {
+  const hashes: string[][] = [];
+  for (const entry of entries) hashes.push([entry.id, await entryContentHash(entry, loadPhoto)]);
+  return sha256Hex(new TextEncoder().encode(JSON.stringify(hashes)));
+}
+
+export function checkSignOff(signOff: SignOff, currentHash: string): SignOffCheck {
+  return signOff.contentHash === currentHash ? "valid" : "changed";
+}
+
+/** The project's report sign-offs made for exactly this range. */
+export function reportSignOffs(project: ProjectMeta | undefined, range: DateRange): ReportSignOff[] {
+  return (project?.signOffs || []).filter((s) => (s.from || "") === (range.from || "") && (s.to || "") === (range.to || ""));
+}
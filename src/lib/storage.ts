@@ -0,0 +1,87 @@
+import { entryBlobKeys, isThumbKey, thumbPhotoKey } from "@/lib/entries";
+import type { InspectionEntry } from "@/lib/types";
+
+/**
+ * Storage accounting for the photos store: usage per project, Blobs nothing references
+ * (e.g. left behind by a save that failed partway) and references whose Blob is gone.
+ */
+
+export const QUOTA_WARN = 0.8;
+export const QUOTA_CRITICAL = 0.95;
+
+export type QuotaEstimate = { usage: number; quota: number };
+
+export type ProjectUsage = { bytes: number; files: number }; // photos and attachments, thumbnails not counted
+
+export type MissingPhoto = { projectId: string; entryId: string; key: string };
+
+export type StorageReport = {
+  totalBytes: number; // every record in the photos store
+  projects: Record<string, ProjectUsage>; // photos plus their thumbnails, and attachments
+  orphans: { key: string; bytes: number }[];
+  missing: MissingPhoto[];
+};
+
+export async function estimateQuota(): Promise<QuotaEstimate | undefined> {
+  if (!navigator.storage?.estimate) return undefined;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : undefined;
+}
+
+export async function isPersisted(): Promise<boolean> {
+  return (await navigator.storage?.persisted?.()) ?? false;
+}
+
+export async function requestPersistence(): Promise<boolean> {
+  return (await navigator.storage?.persist?.()) ?? false;
+}
+
+export function quotaLevel(estimate?: QuotaEstimate): "ok" | "warn" | "critical" {
+  if (!estimate) return "ok";
+  const ratio = estimate.usage / estimate.quota;
+  return ratio >= QUOTA_CRITICAL ? "critical" : ratio >= QUOTA_WARN ? "warn" : "ok";
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let i = 0;
+  while (value >= 1024 && i < units.length - 1) {
+    value /= 1024;
+    i++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[i]}`;
+}
+
+/** Cross-checks stored Blob sizes (by key) against what the inspections reference. */
+export function analyzeStorage(sizes: Record<string, number>, inspections: Record<string, InspectionEntry[]>): StorageReport {
+  const owner = new Map<string, string>(); // Blob key -> project id
+  const missing: MissingPhoto[] = [];
+  Object.entries(inspections).forEach(([projectId, list]) =>
+    list.forEach((entry) =>
+      entryBlobKeys(entry).forEach((key) => {
+        owner.set(key, projectId);
+        if (sizes[key] === undefined) missing.push({ projectId, entryId: entry.id, key });
+      })
+    )
+  );
+
+  const projects: Record<string, ProjectUsage> = {};
+  const orphans: StorageReport["orphans"] = [];
+  let totalBytes = 0;
+  Object.entries(sizes).forEach(([key, bytes]) => {
+    totalBytes += bytes;
+    const thumb = isThumbKey(key);
+    const projectId = owner.get(thumb ? thumbPhotoKey(key) : key);
+    if (!projectId) {
+      orphans.push({ key, bytes });
+      return;
+    }
+    const usage = (projects[projectId] ||= { bytes: 0, files: 0 });
+    usage.bytes += bytes;
+    if (!thumb) usage.files++;
+  });
+
+  return { totalBytes, projects, orphans, missing };
+}
@@ -0,0 +1,261 @@
+import { entryBlobKeys } from "@/lib/entries";
+import { entryProblem, isRecord, projectProblem } from "@/lib/schema";
+import type { InspectionEntry, ProjectMeta } from "@/lib/types";
+
+/**
+ * Optional sync of projects, entries and photo Blobs with a self-hosted REST endpoint
+ * (server/sync-server.mjs is a small reference implementation).
+ *
+ * There is no explicit outbox: each run pushes every record whose `updatedAt` differs from the one
+ * both sides agreed on at the last sync, and records deleted locally become tombstones. Offline
+ * changes therefore wait, safely stored, until a run succeeds. Photos never change under a key,
+ * so each is uploaded once, before the entry that references it. A record changed on both sides
+ * since the last sync is a conflict and is left alone until the user picks a side.
+ *
+ * Protocol (JSON unless noted):
+ *   GET  /changes?since=<cursor>  -> { cursor, records: SyncRecord[] }   records changed after the cursor
+ *   POST /changes  { records }    -> { rejected: string[] }              ids whose server copy is not at `base`
+ *   PUT  /photos/<key>  body: the Blob;  GET /photos/<key> -> the Blob
+ * Data leaves the device decrypted; use HTTPS and a token.
+ */
+
+export type SyncSettings = {
+  endpoint: string; // base URL; empty turns sync off
+  token: string; // sent as a bearer token when set
+  auto: boolean; // sync after changes and when back online
+};
+
+export const DEFAULT_SYNC: SyncSettings = { endpoint: "", token: "", auto: true };
+
+export type SyncRecord = {
+  id: string; // "project:<projectId>" or "entry:<projectId>/<entryId>"
+  projectId: string;
+  updatedAt: number;
+  deleted?: boolean;
+  project?: ProjectMeta;
+  entry?: InspectionEntry;
+  base?: number; // pushes only: the server version this change was made on
+};
+
+export type SyncConflict = { id: string; local: SyncRecord; remote: SyncRecord };
+
+export type SyncChoice = "local" | "remote";
+
+export type SyncStatus = "off" | "idle" | "syncing" | "offline" | "error" | "conflict";
+
+export type SyncState = {
+  cursor: string;
+  base: Record<string, number>; // record id -> updatedAt both sides had at the last sync
+  photos: string[]; // photo keys the server has
+  conflicts: SyncConflict[];
+  lastSyncedAt?: number;
+};
+
+export const EMPTY_SYNC_STATE: SyncState = { cursor: "", base: {}, photos: [], conflicts: [] };
+
+export type SyncResult = {
+  state: SyncState;
+  take: SyncRecord[]; // remote records to apply locally, tombstones included
+  photos: Record<string, Blob>; // downloaded for the taken entries
+  pushed: number;
+  skipped: SkippedRecord[]; // pulled but invalid: not applied, and their ids not pushed this run
+};
+
+/** A pulled record that failed validation, kept for the caller to quarantine since the cursor moves past it. */
+export type SkippedRecord = { id: string; reason: string; record: unknown };
+
+export function projectRecordId(projectId: string): string {
+  return `project:${projectId}`;
+}
+
+export function entryRecordId(projectId: string, entryId: string): string {
+  return `entry:${projectId}/${entryId}`;
+}
+
+/** The local data as sync records, by record id. */
+export function localRecords(projects: Record<string, ProjectMeta>, inspections: Record<string, InspectionEntry[]>): Map<string, SyncRecord> {
+  const records = new Map<string, SyncRecord>();
+  Object.values(projects).forEach((project) =>
+    records.set(projectRecordId(project.id), { id: projectRecordId(project.id), projectId: project.id, updatedAt: project.updatedAt, project })
+  );
+  Object.entries(inspections).forEach(([projectId, list]) =>
+    list.forEach((entry) => records.set(entryRecordId(projectId, entry.id), { id: entryRecordId(projectId, entry.id), projectId, updatedAt: entry.updatedAt, entry }))
+  );
+  return records;
+}
+
+/** Local changes waiting to be pushed: edits since the last sync plus deletions. */
+export function pendingChanges(state: SyncState, projects: Record<string, ProjectMeta>, inspections: Record<string, InspectionEntry[]>): number {
+  const local = localRecords(projects, inspections);
+  let count = 0;
+  local.forEach((rec, id) => rec.updatedAt !== state.base[id] && count++);
+  Object.keys(state.base).forEach((id) => !local.has(id) && count++);
+  return count;
+}
+
+/** Short description of a record for the conflict list. */
+export function describeRecord(rec: SyncRecord): string {
+  if (rec.deleted) return "Deleted";
+  if (rec.project) return [rec.project.address, rec.project.scope].filter(Boolean).join(" — ") || "(no details)";
+  if (rec.entry) return `${rec.entry.date} ${rec.entry.time}: ${rec.entry.notes.slice(0, 80) || "(no notes)"}`;
+  return "";
+}
+
+/** Why a pulled record cannot be used, or undefined if it can. */
+function recordProblem(rec: SyncRecord): string | undefined {
+  if (!isRecord(rec) || typeof rec.id !== "string" || typeof rec.updatedAt !== "number") return "Not a sync record.";
+  if (rec.deleted) return undefined;
+  return rec.id.startsWith("project:") ? projectProblem(rec.project) : entryProblem(rec.entry);
+}
+
+function createClient({ endpoint, token }: SyncSettings) {
+  const root = endpoint.trim().replace(/\/+$/, "");
+  const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+
+  /** `allowMissing` lets a 404 through for the caller to handle; anywhere else it means nothing was stored. */
+  async function call(path: string, init: RequestInit = {}, allowMissing = false): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(`${root}${path}`, { ...init, headers: { ...headers, ...(init.headers as Record<string, string>) } });
+    } catch {
+      throw new Error("Sync server is unreachable.");
+    }
+    if (res.status === 401 || res.status === 403) throw new Error("Sync server refused the token.");
+    if (!res.ok && !(allowMissing && res.status === 404)) throw new Error(`Sync server error (${res.status}).`);
+    return res;
+  }
+
+  async function json(res: Response, valid: (body: Record<string, unknown>) => boolean) {
+    const body: unknown = await res.json().catch(() => undefined);
+    if (!isRecord(body) || !valid(body)) throw new Error("Sync server sent an unexpected response.");
+    return body;
+  }
+
+  const photoPath = (key: string) => `/photos/${encodeURIComponent(key)}`;
+  return {
+    async pull(since: string): Promise<{ cursor: string; records: SyncRecord[] }> {
+      const body = await json(await call(`/changes?since=${encodeURIComponent(since)}`), (b) => typeof b.cursor === "string" && Array.isArray(b.records));
+      return body as { cursor: string; records: SyncRecord[] };
+    },
+    async push(records: SyncRecord[]): Promise<{ rejected: string[] }> {
+      const res = await call("/changes", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ records }) });
+      const body = await json(res, (b) => Array.isArray(b.rejected) && b.rejected.every((id) => typeof id === "string"));
+      return body as { rejected: string[] };
+    },
+    async putPhoto(key: string, blob: Blob) {
+      await call(photoPath(key), { method: "PUT", headers: { "Content-Type": blob.type || "application/octet-stream" }, body: blob });
+    },
+    async getPhoto(key: string): Promise<Blob | undefined> {
+      const res = await call(photoPath(key), {}, true);
+      return res.status === 404 ? undefined : res.blob();
+    },
+  };
+}
+
+/**
+ * One sync run: pull, settle what came in (taking it, or recording a conflict), upload photos,
+ * push local changes, then download photos for what was taken. Nothing local is written here;
+ * the caller applies `take` and `photos` and stores the returned state.
+ * `choices` resolves conflicts: "local" pushes the local copy over the server's, "remote" takes the server's.
+ */
+export async function syncOnce({ settings, state, projects, inspections, choices = {}, loadPhoto, hasPhoto }: {
+  settings: SyncSettings;
+  state: SyncState;
+  projects: Record<string, ProjectMeta>;
+  inspections: Record<string, InspectionEntry[]>;
+  choices?: Record<string, SyncChoice>;
+  loadPhoto: (key: string) => Promise<Blob | undefined>;
+  hasPhoto: (key: string) => Promise<boolean>;
+}): Promise<SyncResult> {
+  const client = createClient(settings);
+  const pulled = await client.pull(state.cursor);
+  const local = localRecords(projects, inspections);
+  const base = { ...state.base };
+  const serverPhotos = new Set(state.photos);
+
+  // Open conflicts come back round with whatever the server now has
+  const incoming = new Map(state.conflicts.map((c) => [c.id, c.remote]));
+  const skipped: SkippedRecord[] = [];
+  pulled.records.forEach((rec) => {
+    const reason = recordProblem(rec);
+    if (!reason) incoming.set(rec.id, rec);
+    else skipped.push({ id: typeof rec?.id === "string" ? rec.id : "(unknown)", reason, record: rec });
+  });
+
+  const take: SyncRecord[] = [];
+  const conflicts: SyncConflict[] = [];
+  // Decided by the pull: not pushed this run. A skipped record is the server's newer copy, so ours must not overwrite it unseen
+  const settled = new Set<string>(skipped.map((s) => s.id));
+  incoming.forEach((remote, id) => {
+    const known = base[id];
+    if (remote.updatedAt === known) return; // our own change coming back
+    const mine = local.get(id);
+    if (remote.deleted && !mine) {
+      // Deleted here too (or never had it): nothing to take or to decide
+      delete base[id];
+      settled.add(id);
+      return;
+    }
+    const localChanged = mine ? mine.updatedAt !== known : known !== undefined;
+    const choice = choices[id];
+    if (!localChanged || choice === "remote" || (mine && mine.updatedAt === remote.updatedAt)) {
+      take.push(remote);
+      if (remote.deleted) delete base[id];
+      else base[id] = remote.updatedAt;
+      settled.add(id);
+    } else if (choice === "local") {
+      base[id] = remote.updatedAt; // push below, on top of the server's copy
+    } else {
+      const deleted: SyncRecord = { id, projectId: remote.projectId, updatedAt: Date.now(), deleted: true };
+      conflicts.push({ id, local: mine ?? deleted, remote });
+      settled.add(id);
+    }
+  });
+
+  const outgoing: SyncRecord[] = [];
+  local.forEach((rec, id) => {
+    if (!settled.has(id) && rec.updatedAt !== base[id]) outgoing.push({ ...rec, base: base[id] });
+  });
+  Object.keys(base).forEach((id) => {
+    if (!local.has(id) && !settled.has(id)) {
+      outgoing.push({ id, projectId: id.slice(id.indexOf(":") + 1).split("/")[0], updatedAt: Date.now(), deleted: true, base: base[id] });
+    }
+  });
+
+  // Photos go up before the entries that reference them
+  for (const key of outgoing.flatMap((rec) => (rec.entry && !rec.deleted ? entryBlobKeys(rec.entry) : []))) {
+    if (serverPhotos.has(key)) continue;
+    const blob = await loadPhoto(key);
+    if (!blob) continue; // missing locally: see the Storage screen
+    await client.putPhoto(key, blob);
+    serverPhotos.add(key);
+  }
+
+  let pushed = 0;
+  if (outgoing.length > 0) {
+    const { rejected } = await client.push(outgoing);
+    const refused = new Set(rejected);
+    outgoing.forEach((rec) => {
+      if (refused.has(rec.id)) return; // changed on the server meanwhile: pulled and settled next run
+      pushed++;
+      if (rec.deleted) delete base[rec.id];
+      else base[rec.id] = rec.updatedAt;
+    });
+  }
+
+  const photos: Record<string, Blob> = {};
+  for (const key of take.flatMap((rec) => (rec.entry && !rec.deleted ? entryBlobKeys(rec.entry) : []))) {
+    serverPhotos.add(key);
+    if (await hasPhoto(key)) continue;
+    const blob = await client.getPhoto(key);
+    if (blob) photos[key] = blob;
+  }
+
+  return {
+    state: { cursor: pulled.cursor, base, photos: Array.from(serverPhotos), conflicts, lastSyncedAt: Date.now() },
+    take,
+    photos,
+    pushed,
+    skipped,
+  };
+}
@@ -0,0 +1,202 @@
+export type ProjectMeta = {
+  id: string; // Project ID
+  address: string;
+  scope: string;
+  createdAt: number;
+  updatedAt: number;
+  archived?: boolean; // hidden from Recent Projects, still listed under Projects
+  templateId?: string; // checklist template used for this project's inspections
+  client?: string;
+  contacts?: ProjectContact[]; // site contacts
+  permitNumber?: string;
+  contractValue?: number;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  status?: ProjectStatus;
+  customFields?: Record<string, string>; // values by ProjectField id, as entered (numbers and dates too)
+  createdBy?: AuthorRef;
+  updatedBy?: AuthorRef; // last edit, including archive and rename
+  signOffs?: ReportSignOff[]; // report sign-offs, each for one date range
+  deficiencies?: Deficiency[]; // punch list
+  visits?: PlannedVisit[]; // planned inspections not yet recorded
+};
+
+/** An inspection scheduled for a day; recording it from the inspection form turns it into an entry and removes it. */
+export type PlannedVisit = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM, when agreed
+  purpose: string;
+  createdAt: number;
+  createdBy?: AuthorRef;
+};
+
+export type ProjectStatus = "planned" | "active" | "on_hold" | "completed" | "cancelled";
+
+export type ProjectContact = { name: string; phone: string; email: string };
+
+export type ProjectFieldType = "text" | "number" | "date" | "select";
+
+/** Admin-defined project detail, filled in the project dialog and printed in reports (see lib/projects). */
+export type ProjectField = {
+  id: string;
+  label: string;
+  type: ProjectFieldType;
+  options?: string[]; // choices of a select
+  required?: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type DeficiencySeverity = "low" | "medium" | "high" | "critical";
+export type DeficiencyStatus = "open" | "in_progress" | "resolved" | "verified";
+
+/**
+ * An issue found during an inspection, tracked until it is fixed and the fix is checked (see lib/deficiencies).
+ * Its photos stay owned by the entries they were taken in; the deficiency only refers to them.
+ */
+export type Deficiency = {
+  id: string;
+  title: string;
+  location: string; // on site, e.g. "Level 2, north stair"
+  severity: DeficiencySeverity;
+  status: DeficiencyStatus;
+  dueDate?: string; // YYYY-MM-DD
+  assignee: string; // who is to fix it: a trade, company or person
+  foundIn: string; // id of the entry it was found in
+  photoKeys: string[]; // "before": photos of that entry showing it
+  closedIn?: string; // id of the later entry that resolved it
+  afterPhotoKeys?: string[]; // "after": photos of that entry showing the fix
+  createdAt: number;
+  updatedAt: number;
+  createdBy?: AuthorRef;
+  updatedBy?: AuthorRef;
+};
+
+/** Who did something, copied onto the record so it survives later profile renames and deletions. */
+export type AuthorRef = {
+  id: string; // profile id
+  name: string;
+  initials: string;
+};
+
+export type InspectionEntry = {
+  id: string; // unique id
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  notes: string; // observations
+  photoKeys: string[]; // keys in IndexedDB
+  attachments?: Attachment[]; // voice notes, video clips and documents, in the order added
+  createdAt: number;
+  updatedAt: number;
+  revisions?: InspectionRevision[]; // previous versions, oldest first
+  checklist?: ChecklistResult; // filled-in checklist, alongside the free notes
+  annotations?: Record<string, Annotation[]>; // drawing layers by photo key; the photo Blobs stay untouched
+  photoMeta?: Record<string, PhotoMeta>; // captions, tags and EXIF by photo key
+  location?: GeoPosition; // device position when the entry was saved, if enabled
+  author?: AuthorRef; // who recorded the entry ("Inspected by")
+  updatedBy?: AuthorRef; // last edit
+  signOffs?: SignOff[];
+};
+
+/** A signature on an entry or report, fixing its content as it was when signed (see lib/signoff). */
+export type SignOff = {
+  id: string;
+  name: string; // the signer, e.g. the client or site supervisor
+  role: string;
+  signature: string; // PNG data URL, kept inline so backups and sync carry it with the record
+  signedAt: number;
+  contentHash: string; // SHA-256 of the signed content; a different hash now means it was edited since
+  recordedBy?: AuthorRef; // profile signed in on the device
+};
+
+/** A sign-off on a project's report for a date range (both ends optional, as in the report). */
+export type ReportSignOff = SignOff & { from?: string; to?: string };
+
+export type AttachmentKind = "audio" | "video" | "document";
+
+/**
+ * A file kept with an entry other than a photo. Its Blob is stored under `key` next to the photos
+ * (and travels with them in backups and sync); photos keep their own list for thumbnails, annotations and EXIF.
+ */
+export type Attachment = {
+  key: string; // in IndexedDB
+  kind: AttachmentKind;
+  name: string; // file name as picked, or e.g. "Voice note 1"
+  type: string; // MIME type
+  size: number; // bytes
+  durationMs?: number; // recordings made in the app
+  createdAt: number;
+};
+
+export type PhotoMeta = {
+  caption?: string;
+  tags?: string[];
+  exif?: PhotoExif; // read from the file as picked
+};
+
+/** Metadata read from a photo's EXIF block. */
+export type PhotoExif = {
+  takenAt?: string; // camera-local capture time, YYYY-MM-DDTHH:MM:SS
+  make?: string;
+  model?: string;
+  lat?: number;
+  lng?: number;
+};
+
+export type GeoPosition = {
+  lat: number;
+  lng: number;
+  accuracy: number; // metres
+  capturedAt: number;
+};
+
+/** Snapshot of an entry's editable fields before an edit replaced them. */
+export type InspectionRevision = {
+  date: string;
+  time: string;
+  notes: string;
+  photoKeys: string[];
+  attachments?: Attachment[];
+  revisedAt: number; // when this version was superseded
+  revisedBy?: AuthorRef; // who superseded it
+};
+
+export type ChecklistStatus = "pass" | "fail" | "na";
+
+/** Reusable set of checklist sections, assignable to projects. */
+export type ChecklistTemplate = {
+  id: string;
+  name: string;
+  sections: { id: string; title: string; items: { id: string; label: string }[] }[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ChecklistItemResult = {
+  id: string;
+  label: string;
+  status?: ChecklistStatus; // unset until answered
+  comment: string;
+  photoKeys: string[]; // keys in IndexedDB
+};
+
+/**
+ * A checklist as filled in on one entry. Section/item labels are copied from the template
+ * so later template edits do not rewrite past inspections.
+ */
+export type ChecklistResult = {
+  templateId: string;
+  templateName: string;
+  sections: { id: string; title: string; items: ChecklistItemResult[] }[];
+};
+
+/** A position as fractions of the photo's width and height (0..1). */
+export type Point = [number, number];
+
+/** One shape in a photo's annotation layer. */
+export type Annotation =
+  | { kind: "pen"; color: string; points: Point[] }
+  | { kind: "arrow"; color: string; from: Point; to: Point }
+  | { kind: "rect"; color: string; from: Point; to: Point }
+  | { kind: "text"; color: string; at: Point; text: string };
@@ -1,12 +1,14 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
-import App from './App.tsx'
+import App from './App'
 import './index.css'
 import { Toaster } from 'sonner'
+import { UpdatePrompt } from './components/UpdatePrompt'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
     <Toaster richColors position="top-center" />
+    <UpdatePrompt />
   </React.StrictMode>,
 )
\ No newline at end of file